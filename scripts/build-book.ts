@@ -0,0 +1,55 @@
+import { writeFileSync } from 'node:fs';
+import { Move, Position } from '../src/types';
+import { INITIAL_POSITION, applyMove } from '../src/lib/rules';
+import { sanToMove } from '../src/lib/notation';
+import { OPENINGS } from '../src/lib/openings';
+import { getPolyglotKey } from '../src/lib/openingBook';
+
+// Builds public/books/openings.bin, the AI's default Polyglot book, from the named lines in
+// openings.ts. Every move of every line becomes a book entry, weighted by how many lines play it
+// in that position, so the AI favours the main roads and still visits the side streets.
+//
+//   npm run build:book
+
+const OUTPUT = new URL('../public/books/openings.bin', import.meta.url);
+const ENTRY_SIZE = 16;
+const PROMOTIONS = ['N', 'B', 'R', 'Q'];
+
+// The reverse of decodeMove in openingBook.ts: castling is written as the king taking its own rook
+const encodeMove = (position: Position, move: Move): number => {
+    const piece = position.board[move.from.row][move.from.col];
+    const isCastling = piece?.[1] === 'K' && Math.abs(move.to.col - move.from.col) === 2;
+    const toCol = isCastling ? (move.to.col > move.from.col ? 7 : 0) : move.to.col;
+    const promotion = move.promotion ? PROMOTIONS.indexOf(move.promotion) + 1 : 0;
+    return (promotion << 12) | ((7 - move.from.row) << 9) | (move.from.col << 6) | ((7 - move.to.row) << 3) | toCol;
+};
+
+// Weights by position key, then by encoded move
+const weights = new Map<bigint, Map<number, number>>();
+for (const opening of OPENINGS) {
+    let position = INITIAL_POSITION;
+    for (const san of opening.moves.split(' ')) {
+        const move = sanToMove(position, san);
+        if (!move) throw new Error(`Illegal move ${san} in "${opening.name}".`);
+        const key = getPolyglotKey(position);
+        const moves = weights.get(key) ?? new Map<number, number>();
+        const encoded = encodeMove(position, move);
+        moves.set(encoded, (moves.get(encoded) ?? 0) + 1);
+        weights.set(key, moves);
+        position = applyMove(position, move);
+    }
+}
+
+// Sorted by key as the format requires, and by weight within a position
+const entries = [...weights].flatMap(([key, moves]) => [...moves].map(([move, weight]) => ({ key, move, weight })))
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : b.weight - a.weight));
+
+const data = new DataView(new ArrayBuffer(entries.length * ENTRY_SIZE));
+entries.forEach(({ key, move, weight }, index) => {
+    data.setBigUint64(index * ENTRY_SIZE, key);
+    data.setUint16(index * ENTRY_SIZE + 8, move);
+    data.setUint16(index * ENTRY_SIZE + 10, weight);
+    // The learning field stays zero
+});
+writeFileSync(OUTPUT, new Uint8Array(data.buffer));
+console.log(`Wrote ${entries.length} entries for ${weights.size} positions to ${OUTPUT.pathname}.`);
@@ -1,139 +1,1062 @@
 import React, { useState, useCallback, useMemo } from 'react';
-import { RefreshCw, CircleDot } from 'lucide-react';
-import ChessBoard, { INITIAL_BOARD } from './components/Board';
+import { RefreshCw, CircleDot, PencilRuler, Flag, Handshake, ArrowUpDown } from 'lucide-react';
+import ChessBoard, { BoardArrow } from './components/Board';
 import ModeSelector from './components/ModeSelector';
-import { BoardState, GameMode, Difficulty, Move } from './types';
-
-// --- Utility Functions (Simulated Engine Logic) ---
-
-const getPieceColor = (piece: string | null): 'w' | 'b' | null => piece ? piece[0] as 'w' | 'b' : null;
-
-// Simplified AI Move Generator (Always chooses a random, legal-looking move for demonstration)
-const generateAIMove = (board: BoardState, difficulty: Difficulty): Move | null => {
-    const opponentColor: 'w' | 'b' = 'b'; // AI is always Black for simplicity here
-    
-    // Determine search depth/behavior based on difficulty (Visual mapping only)
-    let complexityFactor = 1;
-    if (difficulty === 'Easy') complexityFactor = 1;
-    if (difficulty === 'Hard') complexityFactor = 2;
-    if (difficulty === 'Master') complexityFactor = 3;
-
-    const allPossibleMoves: Move[] = [];
-
-    for (let r = 0; r < 8; r++) {
-        for (let c = 0; c < 8; c++) {
-            const piece = board[r][c];
-            if (getPieceColor(piece) === opponentColor) {
-                // Simulate finding valid moves for this piece
-                for (let tr = 0; tr < 8; tr++) {
-                    for (let tc = 0; tc < 8; tc++) {
-                        // Simple check: must move to a different square and not capture own piece (opponentColor)
-                        if ((r !== tr || c !== tc) && getPieceColor(board[tr][tc]) !== opponentColor) {
-                            allPossibleMoves.push({ from: { row: r, col: c }, to: { row: tr, col: tc }, piece });
-                        }
-                    }
-                }
-            }
-        }
-    }
+import RoomPanel from './components/RoomPanel';
+import MoveList from './components/MoveList';
+import PositionEditor from './components/PositionEditor';
+import ChessClock from './components/ChessClock';
+import ResultBanner from './components/ResultBanner';
+import GameLibrary from './components/GameLibrary';
+import SpectatorControls from './components/SpectatorControls';
+import AnalysisPanel from './components/AnalysisPanel';
+import EvalBar from './components/EvalBar';
+import OpeningBookPanel from './components/OpeningBookPanel';
+import PuzzlePanel from './components/PuzzlePanel';
+import AccountPanel from './components/AccountPanel';
+import Leaderboard from './components/Leaderboard';
+import EngineInfoPanel from './components/EngineInfoPanel';
+import { Position, GameMode, Difficulty, Move, Color, ColorChoice, GameResult, Players, Variant, EngineChoice } from './types';
+import { INITIAL_POSITION, getGameStatus, getLegalMoves, getPieceColor, isSameMove, oppositeColor } from './lib/rules';
+import {
+    MoveHistory, ROOT_ID, getCurrentPosition, getLiveMoves, getLivePosition, getPath, getStartPosition,
+    goToLive, goToNode, goToStart, isViewingHistory, stepBack, stepForward,
+} from './lib/moveTree';
+import { createPgnTags, exportPgn, getGameResult, getPgnResult, parsePgn } from './lib/pgn';
+import { positionToFen } from './lib/fen';
+import { moveToUci } from './lib/notation';
+import { INITIAL_RECORDED_GAME, createSeed, getMoveSeed, recordEvent } from './lib/game';
+import { createRandom } from './lib/random';
+import { describeResult } from './lib/gameResult';
+import { AIMoveRequest, onEngineError, requestAIMove, requestDrawDecision, requestEvaluation } from './lib/aiClient';
+import { PositionEvaluation } from './lib/engine';
+import { AnalysedMove, MoveClassification, classifyMove, moveAccuracy, summarizePlayers } from './lib/analysis';
+import { TimeControl, checkFlag, getRemainingMs, getThinkingBudgetMs } from './lib/clock';
+import { ConnectionStatus, RoomAction, RoomState, RoomTransport, getPlayerColor, getPlayerId, getRoomLog, isRoomFull } from './lib/rooms';
+import { createLocalRoomTransport } from './lib/localRoomTransport';
+import { createSupabaseRoomTransport } from './lib/supabaseRoomTransport';
+import { supabase, isSupabaseConfigured } from './lib/supabaseClient';
+import { GameStorage, SavedGame, getOpponentName, getSavedPlayers, restoreSavedGame } from './lib/gameLibrary';
+import { createLocalGameStorage } from './lib/localGameStorage';
+import { OpeningBook, chooseBookMove, fetchOpeningBook, parseOpeningBook } from './lib/openingBook';
+import { findOpening } from './lib/openings';
+import {
+    Puzzle, PuzzleSession, advancePuzzle, fetchPuzzleSet, forfeitPuzzle, getPuzzleStart, getSolutionMove, isOpponentToMove,
+    judgePuzzleMove, parsePuzzleSet, playSolutionMove, startPuzzle,
+} from './lib/puzzles';
+import { PuzzleStats, loadPuzzleStats, pickNextPuzzle, recordPuzzleResult, savePuzzleStats } from './lib/puzzleStats';
+import { CHECKS_TO_WIN, VARIANTS, createStartPosition, getVariant } from './lib/variants';
+import {
+    AuthService, AuthUser, PlayerProfile, PlayerStore, RatingChange, RatingPool,
+    ensureProfile, recordAIGame, renameProfile,
+} from './lib/players';
+import { createLocalAuth, createLocalPlayerStore } from './lib/localPlayerStore';
+import { createSupabaseAuth, createSupabasePlayerStore } from './lib/supabasePlayerStore';
+import { DEFAULT_UCI_SETTINGS, UciEngine, UciEngineInfo, UciEngineSettings, UciInfo, createUciEngine, requestUciMove, supportsVariant } from './lib/uci';
+import { createFileUciChannel } from './lib/workerUciChannel';
+import { createMockUciChannel } from './lib/mockUciChannel';
+
+const authService: AuthService = isSupabaseConfigured ? createSupabaseAuth(supabase) : createLocalAuth();
+const playerStore: PlayerStore = isSupabaseConfigured ? createSupabasePlayerStore(supabase) : createLocalPlayerStore();
+const roomTransport: RoomTransport = isSupabaseConfigured ? createSupabaseRoomTransport(supabase) : createLocalRoomTransport(Date.now, playerStore);
+const gameStorage: GameStorage = createLocalGameStorage();
+
+const LEADERBOARD_SIZE = 10;
+const RATING_HISTORY_SIZE = 5;
+
+// Identifies the game being saved; games opened only for review have none
+interface GameRecording {
+    id: string;
+    startedAt: string;
+}
 
-    if (allPossibleMoves.length === 0) return null;
+// Polyglot book served from public/, built from the named lines in lib/openings by scripts/build-book.ts
+const BUNDLED_BOOK_URL = `${import.meta.env.BASE_URL}books/openings.bin`;
+const BUNDLED_PUZZLES_URL = `${import.meta.env.BASE_URL}puzzles/puzzles.json`;
 
-    // Select a move (Simulating AI depth by random selection for now)
-    const index = Math.floor(Math.random() * allPossibleMoves.length);
-    return allPossibleMoves[index];
+const startRecording = (id: string = crypto.randomUUID()): GameRecording => ({ id, startedAt: new Date().toISOString() });
+
+// --- Utility Functions ---
+
+const downloadTextFile = (filename: string, text: string) => {
+    const url = URL.createObjectURL(new Blob([text], { type: 'application/x-chess-pgn' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
 };
 
 // --- Component Logic ---
 
 export default function App() {
     const [mode, setMode] = useState<GameMode>('local');
+    const [variant, setVariant] = useState<Variant>('standard');
     const [difficulty, setDifficulty] = useState<Difficulty>('Easy');
-    const [board, setBoard] = useState<BoardState>(INITIAL_BOARD);
-    const [currentPlayer, setCurrentPlayer] = useState<'w' | 'b'>('w'); // White always starts
+    // Side the user picked against the AI, and the side they got (a random pick is drawn on every restart)
+    const [colorChoice, setColorChoice] = useState<ColorChoice>('w');
+    const [humanColor, setHumanColor] = useState<Color>('w');
+    const [spectatorLevels, setSpectatorLevels] = useState<Record<Color, Difficulty>>({ w: 'Easy', b: 'Hard' });
+    const [isFlipped, setIsFlipped] = useState(false);
+    // Position the current game started from (the variant's setup unless set up in the editor or a PGN)
+    const [startPosition, setStartPosition] = useState<Position>(INITIAL_POSITION);
+    // The game itself: every move played (including side variations, which node is shown and which
+    // is being played from), the clock and the result. It only changes through the events in lib/game,
+    // which are kept in a log that is saved with the game.
+    const [{ state: game, log: gameLog }, dispatch] = React.useReducer(recordEvent, INITIAL_RECORDED_GAME);
+    const { history, clock } = game;
+    const [isEditing, setIsEditing] = useState(false);
+    const [pgnError, setPgnError] = useState<string | null>(null);
     const [selectedSquare, setSelectedSquare] = useState<{ row: number, col: number } | null>(null);
     const [statusMessage, setStatusMessage] = useState("White to move.");
 
+    // --- Clock Settings (the running clock is part of the game) ---
+    const [timeControl, setTimeControl] = useState<TimeControl | null>(null);
+    const [now, setNow] = useState(Date.now);
+
+    // --- Saved Games ---
+    const [recording, setRecording] = useState<GameRecording | null>(null);
+    const [library, setLibrary] = useState<SavedGame[]>([]);
+    const [unfinishedGame, setUnfinishedGame] = useState<SavedGame | null>(null);
+    const [libraryError, setLibraryError] = useState<string | null>(null);
+    // Set when a saved game is opened, so the settings it brings along don't reset the board
+    const skipResetRef = React.useRef(false);
+
+    // --- External Engine (the built-in AI plays until a UCI engine has started) ---
+    const [engineChoice, setEngineChoice] = useState<EngineChoice>('builtin');
+    const [engineSettings, setEngineSettings] = useState<UciEngineSettings>(DEFAULT_UCI_SETTINGS);
+    const [engineFile, setEngineFile] = useState<File | null>(null);
+    const [uciEngine, setUciEngine] = useState<UciEngine | null>(null);
+    const [uciEngineInfo, setUciEngineInfo] = useState<UciEngineInfo | null>(null);
+    const [engineError, setEngineError] = useState<string | null>(null);
+    // The latest info line and the position it describes
+    const [engineSearch, setEngineSearch] = useState<{ info: UciInfo, position: Position } | null>(null);
+
+    // --- AI vs AI Controls ---
+    const [isPaused, setIsPaused] = useState(false);
+    const [isStepping, setIsStepping] = useState(false);
+    const [moveDelayMs, setMoveDelayMs] = useState(800);
+
+    // --- Analysis ---
+    // Engine evaluations by FEN, shared by post-game analysis and hints
+    const [evaluations, setEvaluations] = useState<Record<string, PositionEvaluation>>({});
+    const [isAnalysing, setIsAnalysing] = useState(false);
+    const [showBestMove, setShowBestMove] = useState(true);
+    const [showHint, setShowHint] = useState(false);
+
+    // --- Opening Book ---
+    const [openingBook, setOpeningBook] = useState<OpeningBook | null>(null);
+    const [isBundledBook, setIsBundledBook] = useState(false);
+    const [bookError, setBookError] = useState<string | null>(null);
+
+    // --- Puzzle Trainer ---
+    const [puzzles, setPuzzles] = useState<Puzzle[]>([]);
+    const [puzzleSetName, setPuzzleSetName] = useState<string | null>(null);
+    const [puzzleError, setPuzzleError] = useState<string | null>(null);
+    const [puzzleSession, setPuzzleSession] = useState<PuzzleSession | null>(null);
+    const [puzzleStats, setPuzzleStats] = useState<PuzzleStats>(loadPuzzleStats);
+    const [isShowingSolution, setIsShowingSolution] = useState(false);
+
+    // --- Player Account ---
+    const [authUser, setAuthUser] = useState<AuthUser | null>(null);
+    const [profile, setProfile] = useState<PlayerProfile | null>(null);
+    const [ratingHistory, setRatingHistory] = useState<RatingChange[]>([]);
+    const [accountNotice, setAccountNotice] = useState<string | null>(null);
+    const [accountError, setAccountError] = useState<string | null>(null);
+    const [isAccountBusy, setIsAccountBusy] = useState(false);
+    const [isRatedAI, setIsRatedAI] = useState(false);
+    const [leaderboardPool, setLeaderboardPool] = useState<RatingPool>('online');
+    const [leaderboard, setLeaderboard] = useState<PlayerProfile[]>([]);
+    const [leaderboardError, setLeaderboardError] = useState<string | null>(null);
+    // Finished games this client has already rated or reloaded ratings for, so re-renders don't repeat it
+    const ratedGamesRef = React.useRef(new Set<string>());
+
+    // --- Online Room State ---
+    // Signed-in players take their seat under their account id, so the game can be rated. The id a
+    // seat was taken with is kept until the player leaves the room, even if they sign in meanwhile.
+    const anonymousPlayerId = useMemo(getPlayerId, []);
+    const playerId = authUser?.id ?? anonymousPlayerId;
+    const [seatId, setSeatId] = useState<string | null>(null);
+    const [room, setRoom] = useState<RoomState | null>(null);
+    const [connection, setConnection] = useState<ConnectionStatus>('offline');
+    const [connectionError, setConnectionError] = useState<string | null>(null);
+    const [roomError, setRoomError] = useState<string | null>(null);
+    const [isRoomBusy, setIsRoomBusy] = useState(false);
+    const onlineColor = room && seatId ? getPlayerColor(room, seatId) : null;
+
+    // The game is played at the live position; the board may be showing an earlier one
+    const position = getLivePosition(history);
+    const viewedPosition = getCurrentPosition(history);
+    const isReviewing = isViewingHistory(history);
+
+    const currentPlayer = position.turn;
+    // The variant of the game on the board, which the settings only decide for the next new game
+    const boardVariant = getVariant(position);
+    // Named after the position on the board, so browsing back shows where the game left theory.
+    // Opening names, like the opening book, only apply to standard chess.
+    const opening = useMemo(() => boardVariant !== 'standard' ? null : findOpening([
+        getStartPosition(history),
+        ...getPath(history, history.currentId).map(node => node.position),
+    ]), [history, boardVariant]);
+    const gameStatus = useMemo(() => getGameStatus(position), [position]);
+
+    const players: Players = useMemo(() => ({
+        humanColor,
+        aiLevels: mode === 'spectator' ? spectatorLevels : { w: difficulty, b: difficulty },
+    }), [humanColor, mode, spectatorLevels, difficulty]);
+    const aiColor = oppositeColor(humanColor); // the AI's side in AI mode
+    const isAITurn = mode === 'spectator' || (mode === 'ai' && currentPlayer === aiColor);
+    // The user's side is at the bottom unless the board was flipped by hand
+    const baseOrientation: Color = mode === 'ai' || mode === 'puzzle' ? humanColor : mode === 'multiplayer' ? onlineColor ?? 'w' : 'w';
+    const orientation = isFlipped ? oppositeColor(baseOrientation) : baseOrientation;
+
+    // Online games load the room's clock, so both players see the same times
+    const flaggedColor = clock ? checkFlag(clock, now).flagged : null;
+    const colorName = (color: Color) => color === 'w' ? 'White' : 'Black';
+
+    const gameResult: GameResult | null = game.result;
+    const isGameOver = gameResult !== null;
+    const { drawOfferedBy } = game;
+    // The side the buttons act for: whoever is at the board in a local game, otherwise the user
+    const actingColor: Color | null = mode === 'local' ? currentPlayer : mode === 'ai' ? humanColor : mode === 'multiplayer' ? onlineColor : null;
+    // Only standard games from the usual start against the built-in AI count toward the rating
+    const isRatedGame = mode === 'ai' && isRatedAI && !!profile && engineChoice === 'builtin' && boardVariant === 'standard'
+        && positionToFen(getStartPosition(history)) === positionToFen(INITIAL_POSITION);
+    // Online games are shared and puzzles follow their solution, so neither can be edited locally;
+    // rated games can't take moves back either
+    const canEditMoves = mode !== 'multiplayer' && mode !== 'puzzle' && !isRatedGame;
+    const canPlay = !isGameOver && !isReviewing && actingColor !== null && (mode !== 'multiplayer' || (!!room && isRoomFull(room)));
+
     const resetGame = useCallback(() => {
-        setBoard(INITIAL_BOARD);
-        setCurrentPlayer('w');
+        // Puzzles are standard chess. Chess960 deals a new setup for every game; otherwise a custom
+        // start (from the editor or a PGN) is kept while it is in the chosen variant.
+        const gameVariant: Variant = mode === 'puzzle' ? 'standard' : variant;
+        const start = gameVariant !== 'chess960' && getVariant(startPosition) === gameVariant ? startPosition : createStartPosition(gameVariant);
+        setStartPosition(start);
+        // AI vs AI games are untimed, so pausing them can't lose on time
+        dispatch({
+            type: 'reset',
+            fen: positionToFen(start),
+            variant: gameVariant,
+            timeControl: timeControl && mode !== 'spectator' ? timeControl : null,
+            seed: createSeed(),
+        });
+        setHumanColor(colorChoice === 'random' ? (Math.random() < 0.5 ? 'w' : 'b') : colorChoice);
+        setIsStepping(false);
+        setIsAnalysing(false);
+        setRecording(startRecording());
+        setPgnError(null);
         setSelectedSquare(null);
-        setStatusMessage("Game Reset. White to move.");
-    }, []);
+        setStatusMessage(`Game Reset. ${start.turn === 'w' ? 'White' : 'Black'} to move.`);
+    }, [startPosition, variant, timeControl, mode, colorChoice]);
 
     // Memoize current status display
     const statusDisplay = useMemo(() => {
         let msg = statusMessage;
-        if (mode === 'local') {
-            msg = `${currentPlayer === 'w' ? 'White' : 'Black'}'s turn.`;
-        } else if (mode === 'ai' && currentPlayer === 'w') {
-            msg = "Your Turn (White)";
-        } else if (mode === 'ai' && currentPlayer === 'b') {
+        const sideName = currentPlayer === 'w' ? 'White' : 'Black';
+        if (isReviewing) {
+            return "Viewing an earlier move. Return to the live position or play from here to continue.";
+        } else if (mode === 'puzzle') {
+            return statusMessage;
+        } else if (gameResult) {
+            return describeResult(gameResult);
+        } else if (mode === 'ai' && drawOfferedBy) {
+            return "Waiting for the AI to answer your draw offer...";
+        } else if (mode === 'local') {
+            msg = `${sideName}'s turn.`;
+        } else if (mode === 'ai' && currentPlayer === humanColor) {
+            msg = `Your Turn (${sideName})`;
+        } else if (mode === 'ai') {
             msg = `AI Thinking (${difficulty})...`;
+        } else if (mode === 'spectator') {
+            msg = isPaused && !isStepping ? "Paused." : `${sideName} AI (${spectatorLevels[currentPlayer]}) is thinking...`;
+        } else if (mode === 'multiplayer') {
+            if (!room) msg = "Create a room or join one with a code.";
+            else if (!isRoomFull(room)) msg = "Waiting for an opponent to join...";
+            else msg = currentPlayer === onlineColor ? "Your turn." : "Opponent's turn.";
         }
-        return msg;
-    }, [currentPlayer, mode, difficulty, statusMessage]);
-
-    const executeMove = useCallback((move: Move, player: 'w' | 'b') => {
-        setBoard(prevBoard => {
-            const newBoard = prevBoard.map(row => [...row]);
-            newBoard[move.to.row][move.to.col] = move.piece;
-            newBoard[move.from.row][move.from.col] = null;
-            return newBoard;
+        return gameStatus === 'check' ? `${sideName} is in check! ${msg}` : msg;
+    }, [currentPlayer, gameStatus, mode, difficulty, statusMessage, room, onlineColor, isReviewing, gameResult, drawOfferedBy, humanColor, isPaused, isStepping, spectatorLevels]);
+
+    // --- Clock Handling ---
+
+    // Tick the display while a clock is running
+    const isClockRunning = !!clock?.running;
+    React.useEffect(() => {
+        if (!isClockRunning) return;
+        const timer = window.setInterval(() => setNow(Date.now()), 100);
+        return () => window.clearInterval(timer);
+    }, [isClockRunning]);
+
+
+    // --- Online Room Handling ---
+
+    // The server's copy always wins; a stale copy (older version) arriving late is ignored
+    const receiveRoom = useCallback((next: RoomState) => {
+        setRoom(prev => prev && prev.code === next.code && prev.version > next.version ? prev : next);
+    }, []);
+
+    const runRoomAction = useCallback((action: () => Promise<RoomState>) => {
+        setIsRoomBusy(true);
+        setRoomError(null);
+        action()
+            .then(receiveRoom)
+            .catch((error: Error) => setRoomError(error.message))
+            .finally(() => setIsRoomBusy(false));
+    }, [receiveRoom]);
+
+    const leaveRoom = useCallback(() => {
+        setRoom(null);
+        setSeatId(null);
+        setRoomError(null);
+        setConnection('offline');
+        setConnectionError(null);
+        dispatch({ type: 'reset', fen: positionToFen(INITIAL_POSITION), variant: 'standard', timeControl: null, seed: createSeed() });
+        setSelectedSquare(null);
+    }, []);
+
+    const roomCode = room?.code;
+    React.useEffect(() => {
+        if (!roomCode) return;
+        return roomTransport.subscribe(roomCode, receiveRoom, (status, error) => {
+            setConnection(status);
+            setConnectionError(error ?? null);
         });
-        
-        // Switch turn
+    }, [roomCode, receiveRoom]);
+
+    // The board always shows the game replayed from the room's event log
+    React.useEffect(() => {
+        if (room) getRoomLog(room).forEach(dispatch);
+    }, [room]);
+
+    const executeMove = useCallback((move: Move, player: Color) => {
+        // Moves are always played at the live node, even if the user is browsing earlier moves.
+        // A draw offer stands until the opponent answers it or moves instead.
+        dispatch({ type: 'move', uci: moveToUci(move), at: Date.now() });
+
         const nextPlayer = player === 'w' ? 'b' : 'w';
-        setCurrentPlayer(nextPlayer);
         setSelectedSquare(null);
 
         if (mode === 'local') {
             setStatusMessage(`${nextPlayer === 'w' ? 'White' : 'Black'} to move.`);
-        } else if (mode === 'ai' && nextPlayer === 'w') {
-            setStatusMessage("Your Turn (White)");
-        } else if (mode === 'ai' && nextPlayer === 'b') {
+        } else if (mode === 'ai' && nextPlayer === humanColor) {
+            setStatusMessage(`Your Turn (${nextPlayer === 'w' ? 'White' : 'Black'})`);
+        } else if (mode === 'ai') {
              setStatusMessage("AI Thinking...");
         }
-    }, [mode]);
+    }, [mode, humanColor]);
+
+    // --- Puzzle Trainer ---
+
+    const openPuzzle = useCallback((puzzle: Puzzle) => {
+        const start = getPuzzleStart(puzzle);
+        dispatch({ type: 'reset', fen: positionToFen(start), variant: 'standard', timeControl: null, seed: createSeed() });
+        setHumanColor(start.turn);
+        setRecording(null); // Puzzles are not kept in the game library
+        setSelectedSquare(null);
+        setPuzzleSession(startPuzzle(puzzle));
+        setIsShowingSolution(false);
+        setStatusMessage(`Find the best move for ${start.turn === 'w' ? 'White' : 'Black'}.`);
+    }, []);
+
+    const openNextPuzzle = useCallback(() => {
+        const next = pickNextPuzzle(puzzles, puzzleStats, puzzleSession?.puzzle.id);
+        if (next) openPuzzle(next);
+    }, [puzzles, puzzleStats, puzzleSession, openPuzzle]);
+
+    // Only the solution (or a mate in one) moves the game on; a wrong move is taken back straight away
+    const handlePuzzleMove = useCallback((move: Move) => {
+        if (!puzzleSession || puzzleSession.isComplete || isOpponentToMove(puzzleSession)) return;
+        const verdict = judgePuzzleMove(puzzleSession, position, move);
+        const next = advancePuzzle(puzzleSession, verdict);
+        setPuzzleSession(next);
+        setSelectedSquare(null);
+        if (verdict === 'wrong') {
+            setStatusMessage("That's not the move. Try again.");
+            return;
+        }
+        executeMove(move, currentPlayer);
+        if (verdict === 'solved') setStatusMessage(next.result === 'solved' ? "Puzzle solved!" : "Puzzle complete.");
+        else setStatusMessage("Correct! Keep going.");
+    }, [puzzleSession, position, currentPlayer, executeMove]);
 
-    // Handle human move submission (used by 2P and AI White)
+    // Handle human move submission (2P, the user's side against the AI and online)
     const handleHumanMove = useCallback((move: Move) => {
+        if (isReviewing || isGameOver || mode === 'spectator') return; // The board is read-only while browsing history or once the game is over
+        if (mode === 'ai' && drawOfferedBy) return; // Wait for the AI's answer first
         // Validation check: Ensure move is valid for the current player before executing
         const pieceColor = getPieceColor(move.piece);
         if (pieceColor !== currentPlayer) {
             setStatusMessage("Error: Cannot move opponent's piece.");
             return;
         }
-        // NOTE: Full engine validation (check/checkmate) is skipped here due to complexity constraints.
-        executeMove(move, currentPlayer);
-    }, [currentPlayer, executeMove]);
+        const legalMove = getLegalMoves(position).find(m => isSameMove(m, move));
+        if (!legalMove) {
+            setStatusMessage("Error: Illegal move.");
+            return;
+        }
+        if (mode === 'multiplayer') {
+            // Online moves only show up once the server has accepted them
+            if (!room || !seatId) return;
+            setSelectedSquare(null);
+            setRoomError(null);
+            roomTransport.submitMove(room.code, seatId, legalMove, room.version)
+                .then(receiveRoom)
+                .catch((error: Error) => {
+                    setRoomError(error.message);
+                    // The move may have been made against an older copy of the room, so catch up with the server's
+                    roomTransport.fetchRoom(room.code)
+                        .then(latest => latest && receiveRoom(latest))
+                        .catch((resyncError: Error) => setRoomError(`${error.message} The game could not be reloaded: ${resyncError.message}`));
+                });
+            return;
+        }
+        if (mode === 'puzzle') return handlePuzzleMove(legalMove);
+        executeMove(legalMove, currentPlayer);
+    }, [isReviewing, isGameOver, drawOfferedBy, currentPlayer, position, executeMove, mode, room, seatId, receiveRoom, handlePuzzleMove]);
 
-    // --- AI Effect Hook (Runs when currentPlayer switches to 'b' in AI mode) ---
+    // A crash of the built-in engine's worker ends the search it was running without an answer
+    React.useEffect(() => onEngineError(message => setEngineError(`The built-in engine crashed: ${message}`)), []);
+
+    // --- External Engine ---
+
+    // Started when picked (and again for every script loaded), stopped when replaced
     React.useEffect(() => {
-        if (mode === 'ai' && currentPlayer === 'b') {
-            setStatusMessage(`AI (${difficulty}) calculating move...`);
-            
-            // Simulate processing delay for AI thinking
-            const delay = difficulty === 'Beginner' ? 800 : difficulty === 'Easy' ? 500 : difficulty === 'Hard' ? 300 : 150;
+        if (engineChoice === 'builtin' || (engineChoice === 'uci-file' && !engineFile)) return;
+        let channel;
+        try {
+            channel = engineChoice === 'mock' ? createMockUciChannel() : createFileUciChannel(engineFile!);
+        } catch (error) {
+            setEngineError(`Could not start the engine: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+        const engine = createUciEngine(channel);
+        let isCurrent = true;
+        setEngineError(null);
+        engine.init()
+            .then(info => {
+                if (!isCurrent) return;
+                setUciEngine(engine);
+                setUciEngineInfo(info);
+            })
+            .catch((error: Error) => isCurrent && setEngineError(error.message));
+        return () => {
+            isCurrent = false;
+            engine.quit();
+            setUciEngine(null);
+            setUciEngineInfo(null);
+            setEngineSearch(null);
+        };
+    }, [engineChoice, engineFile]);
+
+    React.useEffect(() => {
+        uciEngine?.applySettings(engineSettings).catch((error: Error) => setEngineError(error.message));
+    }, [uciEngine, engineSettings]);
+
+    // Each game starts with a fresh engine state
+    React.useEffect(() => {
+        uciEngine?.newGame().catch((error: Error) => setEngineError(error.message));
+        setEngineSearch(null);
+    }, [uciEngine, recording]);
+
+    // The built-in AI covers the variants the external engine doesn't play
+    const activeUciEngine = uciEngine && uciEngineInfo && supportsVariant(uciEngineInfo, boardVariant) ? uciEngine : null;
+    // The game as the engine is told it, so it can see repetitions. Browsing moves doesn't change it.
+    const liveMoves = useMemo(() => getLiveMoves(history), [history.nodes, history.liveId]);
+    const gameStart = getStartPosition(history);
 
-            const timer = setTimeout(() => {
-                const aiMove = generateAIMove(board, difficulty);
+    // --- AI Effect Hook (Runs whenever it's an AI's turn: the AI's side in AI mode, both sides in AI vs AI) ---
+    const shouldWaitForStep = mode === 'spectator' && isPaused && !isStepping;
+    // The AI's random choices come from the game's seed, so a replayed game gets the same replies
+    const moveSeed = getMoveSeed(game);
+    React.useEffect(() => {
+        if (!isAITurn || isGameOver || shouldWaitForStep) return;
+        const mover = currentPlayer;
+        const level = players.aiLevels[mover];
+        setStatusMessage(activeUciEngine ? `${uciEngineInfo?.name ?? 'Engine'} calculating move...` : `AI (${level}) calculating move...`);
+
+        // The search runs in a Web Worker so the board stays responsive while the AI thinks.
+        // On the clock, the AI also keeps its thinking time within what it can afford.
+        const maxTimeMs = clock ? getThinkingBudgetMs(clock, mover, Date.now()) : undefined;
+        let request: AIMoveRequest | null = null;
+        const startSearch = () => {
+            // Book moves are played instantly while the position is still in the AI's opening repertoire
+            const bookMove = openingBook && getVariant(position) === 'standard' && chooseBookMove(openingBook, position, level, createRandom(moveSeed));
+            if (bookMove) {
+                executeMove(bookMove, mover);
+                setIsStepping(false);
+                return;
+            }
+            if (activeUciEngine) {
+                const moveTimeMs = maxTimeMs === undefined ? engineSettings.moveTimeMs : Math.min(engineSettings.moveTimeMs, maxTimeMs);
+                const searched = position;
+                request = requestUciMove(activeUciEngine, gameStart, liveMoves, { moveTimeMs }, info => setEngineSearch({ info, position: searched }));
+            } else {
+                request = requestAIMove(position, level, maxTimeMs, moveSeed);
+            }
+            request.promise.then(aiMove => {
                 if (aiMove) {
-                    executeMove(aiMove, 'b');
+                    executeMove(aiMove, mover);
+                    setIsStepping(false);
                 } else {
-                    setStatusMessage("AI could not find a move. Game Over? (Stalemate/Error)");
-                    setCurrentPlayer('w'); // End AI turn
+                    setStatusMessage("AI could not find a move.");
                 }
-            }, delay);
+            }).catch((error: Error) => {
+                // The built-in AI takes over from an engine that crashed or hung
+                setEngineError(error.message);
+                setUciEngine(null);
+                setUciEngineInfo(null);
+            });
+        };
+        // AI vs AI waits between moves so the game can be followed; a step is played right away
+        const delayMs = mode === 'spectator' && !isStepping ? moveDelayMs : 0;
+        const timer = window.setTimeout(startSearch, delayMs);
+
+        // Restarting, switching mode or difficulty changes the deps and stops the search mid-flight
+        return () => {
+            window.clearTimeout(timer);
+            request?.cancel();
+        };
+    }, [isAITurn, currentPlayer, isGameOver, shouldWaitForStep, isStepping, mode, position, players, executeMove, clock, moveDelayMs, openingBook, activeUciEngine, uciEngineInfo, engineSettings, gameStart, liveMoves, moveSeed]);
+
+    // The opponent's replies, and the rest of a shown solution, are played after a short pause
+    const isPuzzleReplyDue = !!puzzleSession && (isOpponentToMove(puzzleSession) || (isShowingSolution && !puzzleSession.isComplete));
+    React.useEffect(() => {
+        if (mode !== 'puzzle' || !puzzleSession || !isPuzzleReplyDue) return;
+        const move = getSolutionMove(puzzleSession, position);
+        if (!move) return;
+        const timer = window.setTimeout(() => {
+            const next = playSolutionMove(puzzleSession);
+            executeMove(move, position.turn);
+            setPuzzleSession(next);
+            if (next.isComplete) setStatusMessage("That was the solution.");
+            else if (!isShowingSolution) setStatusMessage("Your move.");
+        }, 600);
+        return () => window.clearTimeout(timer);
+    }, [mode, puzzleSession, isPuzzleReplyDue, isShowingSolution, position, executeMove]);
+
+    // A finished attempt counts towards the rating, streak and solve rate
+    const puzzleResult = puzzleSession?.result;
+    const attemptedPuzzle = puzzleSession?.puzzle;
+    React.useEffect(() => {
+        if (!puzzleResult || !attemptedPuzzle) return;
+        setPuzzleStats(prev => recordPuzzleResult(prev, attemptedPuzzle, puzzleResult === 'solved'));
+    }, [puzzleResult, attemptedPuzzle]);
+
+    React.useEffect(() => savePuzzleStats(puzzleStats), [puzzleStats]);
+
+    // The bundled set is loaded the first time the trainer is opened
+    React.useEffect(() => {
+        if (mode !== 'puzzle' || puzzleSetName) return;
+        fetchPuzzleSet(BUNDLED_PUZZLES_URL)
+            .then(set => {
+                setPuzzles(set);
+                setPuzzleSetName('Starter set');
+            })
+            .catch((error: Error) => setPuzzleError(error.message));
+    }, [mode, puzzleSetName]);
+
+    // A puzzle is served as soon as the trainer has none
+    React.useEffect(() => {
+        if (mode === 'puzzle' && !puzzleSession && puzzles.length > 0) openNextPuzzle();
+    }, [mode, puzzleSession, puzzles, openNextPuzzle]);
+
+    const handleLoadPuzzleSet = useCallback((file: File) => {
+        file.text()
+            .then(text => {
+                setPuzzles(parsePuzzleSet(file.name, text));
+                setPuzzleSetName(file.name);
+                setPuzzleSession(null);
+                setPuzzleError(null);
+            })
+            .catch((error: Error) => setPuzzleError(error.message));
+    }, []);
+
+    // A hint selects the piece to move, which gives the puzzle up
+    const canPuzzleHint = mode === 'puzzle' && !!puzzleSession && !puzzleSession.isComplete && !isOpponentToMove(puzzleSession) && !isReviewing;
+    const handlePuzzleHint = useCallback(() => {
+        const move = puzzleSession && getSolutionMove(puzzleSession, position);
+        if (!move) return;
+        setPuzzleSession(forfeitPuzzle(puzzleSession));
+        setSelectedSquare(move.from);
+        setStatusMessage("Hint: move the highlighted piece.");
+    }, [puzzleSession, position]);
+
+    const handleShowSolution = useCallback(() => {
+        if (!puzzleSession) return;
+        setPuzzleSession(forfeitPuzzle(puzzleSession));
+        setIsShowingSolution(true);
+        dispatch({ type: 'navigate', nodeId: history.liveId });
+        setSelectedSquare(null);
+        setStatusMessage("Showing the solution...");
+    }, [puzzleSession, history.liveId]);
+
+    // --- Opening Book ---
+
+    const loadBundledBook = useCallback(() => {
+        fetchOpeningBook(BUNDLED_BOOK_URL)
+            .then(book => {
+                setOpeningBook(book);
+                setIsBundledBook(true);
+                setBookError(null);
+            })
+            .catch((error: Error) => setBookError(error.message));
+    }, []);
+
+    React.useEffect(loadBundledBook, [loadBundledBook]);
+
+    const handleUploadBook = useCallback((file: File) => {
+        file.arrayBuffer()
+            .then(buffer => {
+                setOpeningBook(parseOpeningBook(file.name, buffer));
+                setIsBundledBook(false);
+                setBookError(null);
+            })
+            .catch((error: Error) => setBookError(error.message));
+    }, []);
+
+    // --- Resignation and Draw Offers ---
+
+    const submitRoomAction = useCallback((action: RoomAction) => {
+        if (room && seatId) runRoomAction(() => roomTransport.submitAction(room.code, seatId, action, room.version));
+    }, [room, seatId, runRoomAction]);
+
+    // The game is lost on time as soon as a clock runs out. The reducer stops the clocks once the
+    // game is over, however it ended. Online, the server records the timeout against its own clock,
+    // once per version of the room, so both players and the ratings see the same result.
+    const claimedTimeoutRef = React.useRef<string | null>(null);
+    React.useEffect(() => {
+        if (!flaggedColor || isGameOver) return;
+        if (mode !== 'multiplayer') return dispatch({ type: 'timeout', at: now });
+        const claim = room && `${room.code}:${room.version}`;
+        if (!claim || claimedTimeoutRef.current === claim) return;
+        claimedTimeoutRef.current = claim;
+        submitRoomAction('timeout');
+    }, [flaggedColor, isGameOver, now, mode, room, submitRoomAction]);
+
+    const handleResign = useCallback(() => {
+        if (mode === 'multiplayer') return submitRoomAction('resign');
+        dispatch({ type: 'resign', color: actingColor!, at: Date.now() });
+    }, [mode, actingColor, submitRoomAction]);
+
+    const handleOfferDraw = useCallback(() => {
+        if (mode === 'multiplayer') return submitRoomAction('offer-draw');
+        dispatch({ type: 'offer-draw', color: actingColor! });
+    }, [mode, actingColor, submitRoomAction]);
+
+    const handleDrawReply = useCallback((accept: boolean) => {
+        if (mode === 'multiplayer') return submitRoomAction(accept ? 'accept-draw' : 'decline-draw');
+        dispatch({ type: 'answer-draw', accept, at: Date.now() });
+        if (!accept) setStatusMessage("Draw offer declined.");
+    }, [mode, submitRoomAction]);
+
+    // The AI answers an offer by judging the position with a short search in the worker
+    React.useEffect(() => {
+        if (mode !== 'ai' || drawOfferedBy !== humanColor || isGameOver) return;
+        const request = requestDrawDecision(position, aiColor, difficulty);
+        request.promise.then(accept => {
+            dispatch({ type: 'answer-draw', accept, at: Date.now() });
+            if (!accept) setStatusMessage(`The AI declined your draw offer. Your Turn (${colorName(humanColor)})`);
+        });
+        return () => request.cancel();
+    }, [mode, drawOfferedBy, humanColor, aiColor, isGameOver, position, difficulty]);
 
-            return () => clearTimeout(timer);
+    // --- Analysis ---
+
+    // The game as played, start position first
+    const gameLine = useMemo(() => [history.nodes[ROOT_ID], ...getPath(history, history.liveId)], [history]);
+    const gameLineFens = useMemo(() => gameLine.map(node => positionToFen(node.position)), [gameLine]);
+    // Finished games, and games opened only for review, can be analysed
+    const canAnalyse = mode !== 'puzzle' && history.liveId !== ROOT_ID && (isGameOver || recording === null);
+    const isHintAvailable = mode === 'ai' && !isRatedGame && !isGameOver && !isReviewing && currentPlayer === humanColor;
+    const analysedCount = gameLineFens.filter(fen => evaluations[fen]).length;
+
+    // Evaluates the positions of the game one at a time, so the results fill in as they arrive
+    React.useEffect(() => {
+        if (!isAnalysing || !canAnalyse) return;
+        const index = gameLineFens.findIndex(fen => !evaluations[fen]);
+        if (index === -1) {
+            setIsAnalysing(false);
+            return;
+        }
+        const request = requestEvaluation(gameLine[index].position);
+        request.promise.then(evaluation => {
+            if (evaluation) setEvaluations(prev => ({ ...prev, [gameLineFens[index]]: evaluation }));
+            else setIsAnalysing(false);
+        });
+        return () => request.cancel();
+    }, [isAnalysing, canAnalyse, gameLine, gameLineFens, evaluations]);
+
+    // A hint is the engine's best move in the position the user has to move in
+    const hintFen = showHint && isHintAvailable ? positionToFen(position) : null;
+    React.useEffect(() => {
+        if (!hintFen || evaluations[hintFen]) return;
+        const request = requestEvaluation(position);
+        request.promise.then(evaluation => {
+            if (evaluation) setEvaluations(prev => ({ ...prev, [hintFen]: evaluation }));
+        });
+        return () => request.cancel();
+    }, [hintFen, position, evaluations]);
+
+    // Moves of the game judged against the evaluations before and after them
+    const analysedMoves = useMemo(() => {
+        const moves: (AnalysedMove & { nodeId: number })[] = [];
+        gameLine.slice(1).forEach((node, index) => {
+            const before = evaluations[gameLineFens[index]];
+            const after = evaluations[gameLineFens[index + 1]];
+            if (!before || !after) return;
+            const mover = gameLine[index].position.turn;
+            moves.push({
+                nodeId: node.id,
+                mover,
+                classification: classifyMove(node.move!, mover, before, after),
+                accuracy: moveAccuracy(mover, before, after),
+            });
+        });
+        return moves;
+    }, [gameLine, gameLineFens, evaluations]);
+    const annotations = useMemo(() => Object.fromEntries(analysedMoves.map(move => [move.nodeId, move.classification])) as Record<number, MoveClassification>, [analysedMoves]);
+    const playerSummaries = useMemo(() => summarizePlayers(analysedMoves), [analysedMoves]);
+
+    const viewedEvaluation: PositionEvaluation | undefined = evaluations[positionToFen(viewedPosition)];
+    const showEvaluation = canAnalyse ? analysedCount > 0 : hintFen !== null;
+    const boardArrows: BoardArrow[] = [];
+    if (viewedEvaluation?.bestMove && ((canAnalyse && showBestMove) || hintFen !== null)) {
+        const { from, to } = viewedEvaluation.bestMove;
+        boardArrows.push({ from, to, color: hintFen ? '#3b82f6' : '#22c55e' });
+    }
+
+    // --- PGN Import/Export ---
+
+    const handleExportPgn = useCallback(() => {
+        const result = getPgnResult(gameResult);
+        const tags = createPgnTags(mode, players, result);
+        const pgn = exportPgn({ tags, start: getStartPosition(history), moves: getLiveMoves(history), result });
+        downloadTextFile(`supreme-chess-${new Date().toISOString().slice(0, 10)}.pgn`, pgn);
+    }, [gameResult, mode, players, history]);
+
+    const handleImportPgn = useCallback((pgnText: string) => {
+        try {
+            const game = parsePgn(pgnText);
+            // Switching to the game's variant must not start a new game over the imported one
+            skipResetRef.current = true;
+            setVariant(getVariant(game.start));
+            setStartPosition(game.start);
+            // An imported game is for review, not played against the clock
+            dispatch({
+                type: 'load',
+                fen: positionToFen(game.start),
+                variant: getVariant(game.start),
+                moves: game.moves.map(moveToUci),
+                clock: null,
+                result: getGameResult(game.result, game.tags),
+                seed: createSeed(),
+            });
+            setRecording(null);
+            setSelectedSquare(null);
+            setPgnError(null);
+            setStatusMessage(`Imported ${game.tags.White ?? '?'} vs ${game.tags.Black ?? '?'} (${game.moves.length} moves).`);
+        } catch (error) {
+            setPgnError(error instanceof Error ? error.message : String(error));
+        }
+    }, []);
+
+    // --- Position Editor ---
+
+    const handleStartFromEditor = useCallback((start: Position, gameMode: 'local' | 'ai') => {
+        setIsEditing(false);
+        setVariant('standard'); // The editor sets up standard chess positions
+        setStartPosition(start);
+        dispatch({ type: 'reset', fen: positionToFen(start), variant: 'standard', timeControl, seed: createSeed() });
+        setRecording(startRecording());
+        setSelectedSquare(null);
+        setPgnError(null);
+        setStatusMessage(`Custom position. ${start.turn === 'w' ? 'White' : 'Black'} to move.`);
+        setMode(gameMode);
+    }, [timeControl]);
+
+    // --- History Navigation ---
+
+    // In AI mode a takeback (or redo) covers the AI's reply as well, so it's the user's turn afterwards
+    const pliesPerTurn = useCallback((history: MoveHistory) => {
+        if (mode !== 'ai') return 1;
+        return getLivePosition(history).turn === humanColor ? 2 : 1;
+    }, [mode, humanColor]);
+
+    const navigate = useCallback((step: (history: MoveHistory) => MoveHistory) => {
+        dispatch({ type: 'navigate', nodeId: step(history).currentId });
+        setSelectedSquare(null);
+    }, [history]);
+
+    // Taking back a move also takes back a resignation or agreed draw, so play can go on
+    const handleTakeBack = useCallback(() => {
+        dispatch({ type: 'undo', plies: pliesPerTurn(history) });
+        setSelectedSquare(null);
+    }, [history, pliesPerTurn]);
+    const handleRedo = useCallback(() => {
+        dispatch({ type: 'redo', plies: mode === 'ai' ? 2 : 1 });
+        setSelectedSquare(null);
+    }, [mode]);
+
+    React.useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+            const steps: Record<string, (history: MoveHistory) => MoveHistory> = {
+                ArrowLeft: stepBack,
+                ArrowRight: stepForward,
+                Home: goToStart,
+                End: goToLive,
+            };
+            const step = steps[event.key];
+            if (!step || isEditing) return;
+            event.preventDefault();
+            navigate(step);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [navigate, isEditing]);
+
+    // --- Saved Games ---
+
+    const refreshLibrary = useCallback(() => {
+        gameStorage.listGames().then(setLibrary).catch((error: Error) => setLibraryError(error.message));
+    }, []);
+
+    React.useEffect(() => {
+        refreshLibrary();
+        gameStorage.loadCurrentGame().then(setUnfinishedGame).catch(() => setUnfinishedGame(null));
+    }, [refreshLibrary]);
+
+    // An online game is recorded under its room, so both reloads and rejoins update the same entry
+    const roomCodeToRecord = room?.code;
+    React.useEffect(() => {
+        if (roomCodeToRecord) setRecording(startRecording(`room-${roomCodeToRecord}`));
+    }, [roomCodeToRecord]);
+
+    // Auto-save: the game in progress after every change, and the finished game into the library
+    React.useEffect(() => {
+        if (!recording || history.liveId === ROOT_ID) return;
+        const saved: SavedGame = {
+            ...recording,
+            updatedAt: new Date().toISOString(),
+            mode,
+            difficulty,
+            players,
+            opponent: getOpponentName(mode, players),
+            variant: getVariant(getStartPosition(history)),
+            startFen: positionToFen(getStartPosition(history)),
+            moves: getPath(history, history.liveId).map(node => node.san),
+            timeControl: clock?.control ?? null,
+            clock,
+            result: gameResult,
+            events: gameLog,
+        };
+        const save = gameResult
+            ? gameStorage.saveGame(saved).then(() => mode !== 'multiplayer' ? gameStorage.clearCurrentGame() : undefined).then(refreshLibrary)
+            : mode !== 'multiplayer' ? gameStorage.saveCurrentGame(saved) : Promise.resolve();
+        save.catch((error: Error) => setLibraryError(`Could not save the game: ${error.message}`));
+        // Playing on replaces the game that was offered for resuming
+        if (mode !== 'multiplayer') setUnfinishedGame(null);
+    }, [recording, history, gameResult, clock, gameLog, mode, difficulty, players, refreshLibrary]);
+
+    // Loads a saved game onto the board. A resumed game carries on being played and saved;
+    // a finished one is opened for review.
+    const openSavedGame = useCallback((game: SavedGame, resume: boolean) => {
+        let restored;
+        try {
+            restored = restoreSavedGame(game, Date.now());
+        } catch (error) {
+            setLibraryError(error instanceof Error ? error.message : String(error));
+            return;
+        }
+        const gameMode: GameMode = game.mode === 'multiplayer' ? 'local' : game.mode;
+        const savedPlayers = getSavedPlayers(game);
+        skipResetRef.current = true;
+
+        setMode(gameMode);
+        setVariant(game.variant ?? 'standard');
+        setDifficulty(game.difficulty);
+        setColorChoice(savedPlayers.humanColor);
+        setHumanColor(savedPlayers.humanColor);
+        if (game.mode === 'spectator') setSpectatorLevels(savedPlayers.aiLevels);
+        if (resume) setTimeControl(game.timeControl);
+        // Replayed onto the board event by event, so the log carries on from where it left off
+        restored.log.forEach(dispatch);
+        setStartPosition(getStartPosition(restored.state.history));
+        setRecording(resume ? { id: game.id, startedAt: game.startedAt } : null);
+        setSelectedSquare(null);
+        setIsEditing(false);
+        setLibraryError(null);
+        setUnfinishedGame(null);
+        setStatusMessage(resume ? "Game resumed." : `Reviewing a game against ${game.opponent}.`);
+    }, []);
+
+    const handleDiscardUnfinished = useCallback(() => {
+        setUnfinishedGame(null);
+        gameStorage.clearCurrentGame().catch(() => {});
+    }, []);
+
+    const handleDeleteGame = useCallback((id: string) => {
+        gameStorage.deleteGame(id)
+            .then(refreshLibrary)
+            .catch((error: Error) => setLibraryError(error.message));
+    }, [refreshLibrary]);
+
+    // --- Player Accounts and Ratings ---
+
+    // Token refreshes report the same user again; keeping the old object avoids reloading the profile
+    const receiveUser = useCallback((user: AuthUser | null) => {
+        setAuthUser(prev => prev && user && prev.id === user.id && prev.email === user.email && prev.isGuest === user.isGuest ? prev : user);
+    }, []);
+
+    // Restores the session, then follows sign-ins and sign-outs (including from other tabs)
+    React.useEffect(() => {
+        authService.getUser().then(receiveUser).catch((error: Error) => setAccountError(error.message));
+        return authService.onChange(receiveUser);
+    }, [receiveUser]);
+
+    // The game server seats whoever sends the request, so online play with Supabase needs a
+    // session; players who haven't signed in get a guest account first
+    const getRoomPlayerId = useCallback(async (): Promise<string> => {
+        if (authUser || !isSupabaseConfigured) return playerId;
+        const user = await authService.signInAsGuest();
+        receiveUser(user);
+        return user.id;
+    }, [authUser, playerId, receiveUser]);
+
+    const enterRoom = useCallback((enter: (id: string) => Promise<RoomState>) => {
+        runRoomAction(async () => {
+            const id = await getRoomPlayerId();
+            const entered = await enter(id);
+            setSeatId(id);
+            return entered;
+        });
+    }, [runRoomAction, getRoomPlayerId]);
+
+    // The signed-in user's profile, created on their first sign-in, and their latest rating changes
+    const refreshProfile = useCallback(() => {
+        if (!authUser) {
+            setProfile(null);
+            setRatingHistory([]);
+            return;
         }
-    }, [currentPlayer, mode, board, difficulty, executeMove]);
+        ensureProfile(playerStore, authUser)
+            .then(loaded => {
+                setProfile(loaded);
+                return playerStore.getRatingHistory(loaded.id, RATING_HISTORY_SIZE);
+            })
+            .then(setRatingHistory)
+            .catch((error: Error) => setAccountError(error.message));
+    }, [authUser]);
+
+    React.useEffect(() => {
+        refreshProfile();
+    }, [refreshProfile]);
+
+    const refreshLeaderboard = useCallback(() => {
+        playerStore.getLeaderboard(leaderboardPool, LEADERBOARD_SIZE)
+            .then(entries => {
+                setLeaderboard(entries);
+                setLeaderboardError(null);
+            })
+            .catch((error: Error) => setLeaderboardError(error.message));
+    }, [leaderboardPool]);
+
+    React.useEffect(() => {
+        refreshLeaderboard();
+    }, [refreshLeaderboard]);
+
+    const runAccountAction = useCallback((action: () => Promise<void>) => {
+        setIsAccountBusy(true);
+        setAccountError(null);
+        setAccountNotice(null);
+        action()
+            .catch((error: Error) => setAccountError(error.message))
+            .finally(() => setIsAccountBusy(false));
+    }, []);
+
+    // The game server seats the signed-in account, so switching accounts would give up the seat in
+    // an online game that's still going (signing a guest up keeps their id, and so the seat)
+    const isSeatedOnline = isSupabaseConfigured && !!room && !isGameOver;
+    const switchAccount = useCallback((action: () => Promise<void>) => {
+        if (isSeatedOnline) return setAccountError("Finish or leave your online game before switching accounts.");
+        runAccountAction(action);
+    }, [isSeatedOnline, runAccountAction]);
+
+    const handleSignUp = useCallback((email: string, password: string) => {
+        runAccountAction(() => authService.signUpWithEmail(email, password).then(user => {
+            if (user) receiveUser(user);
+            else setAccountNotice("Check your email for the link that confirms your account.");
+        }));
+    }, [runAccountAction, receiveUser]);
+
+    const handleRename = useCallback((name: string) => {
+        if (!profile) return;
+        runAccountAction(async () => {
+            const renamed = renameProfile(profile, name);
+            await playerStore.saveProfile(renamed);
+            setProfile(renamed);
+            refreshLeaderboard();
+        });
+    }, [profile, runAccountAction, refreshLeaderboard]);
+
+    const handleRatingRecorded = useCallback(() => {
+        refreshProfile();
+        refreshLeaderboard();
+    }, [refreshProfile, refreshLeaderboard]);
+
+    // The server rates a finished online game with the write that ended it (if both seats belong to
+    // players with profiles), so the players only reload their ratings
+    React.useEffect(() => {
+        if (!room || !gameResult) return;
+        const gameId = `room-${room.code}`;
+        if (ratedGamesRef.current.has(gameId)) return;
+        ratedGamesRef.current.add(gameId);
+        handleRatingRecorded();
+    }, [room, gameResult, handleRatingRecorded]);
+
+    React.useEffect(() => {
+        if (!isRatedGame || !gameResult || !recording || !profile) return;
+        if (ratedGamesRef.current.has(recording.id)) return;
+        ratedGamesRef.current.add(recording.id);
+        recordAIGame(playerStore, recording.id, profile.id, humanColor, difficulty, gameResult.winner)
+            .then(handleRatingRecorded)
+            .catch((error: Error) => setAccountError(error.message));
+    }, [isRatedGame, gameResult, recording, profile, humanColor, difficulty, handleRatingRecorded]);
 
     // Reset when mode changes
     React.useEffect(() => {
-        resetGame();
-    }, [mode, difficulty]); 
+        if (skipResetRef.current) {
+            skipResetRef.current = false;
+        } else if (mode === 'puzzle') {
+            setPuzzleSession(null); // The trainer serves a puzzle instead of a new game
+        } else {
+            resetGame();
+        }
+        if (mode !== 'multiplayer' && room) leaveRoom();
+    }, [mode, variant, difficulty, timeControl, colorChoice, spectatorLevels, isRatedAI, engineChoice]);
+
+    // A skip that wasn't used up (the saved game changed no setting) must not swallow a later reset
+    React.useEffect(() => {
+        skipResetRef.current = false;
+    });
+
+    const clockLabel = (color: Color) => {
+        if (mode === 'ai') return color === humanColor ? 'You' : `AI (${difficulty})`;
+        if (mode === 'spectator') return `${colorName(color)} AI (${spectatorLevels[color]})`;
+        if (mode === 'multiplayer' && onlineColor) return color === onlineColor ? 'You' : 'Opponent';
+        return colorName(color);
+    };
+
+    const renderClock = (color: Color) => clock && (
+        <ChessClock
+            color={color}
+            label={clockLabel(color)}
+            remainingMs={getRemainingMs(clock, color, now)}
+            isRunning={clock.running === color && !flaggedColor}
+            isFlagged={flaggedColor === color}
+        />
+    );
 
     return (
         <div className="min-h-screen bg-gray-900 text-white flex flex-col items-center p-4 font-sans">
@@ -148,9 +1071,27 @@ export default function App() {
                     <ModeSelector 
                         mode={mode} 
                         setMode={setMode} 
+                        variant={variant}
+                        setVariant={setVariant}
                         difficulty={difficulty} 
                         setDifficulty={setDifficulty}
-                        isGameActive={selectedSquare !== null || mode !== 'local' && currentPlayer === 'b'} // Simplified active check
+                        colorChoice={colorChoice}
+                        setColorChoice={setColorChoice}
+                        spectatorLevels={spectatorLevels}
+                        setSpectatorLevels={setSpectatorLevels}
+                        timeControl={timeControl}
+                        setTimeControl={setTimeControl}
+                        isRated={isRatedAI}
+                        setIsRated={setIsRatedAI}
+                        canRate={!!profile && engineChoice === 'builtin'}
+                        engine={engineChoice}
+                        setEngine={setEngineChoice}
+                        engineSettings={engineSettings}
+                        setEngineSettings={setEngineSettings}
+                        engineName={uciEngineInfo?.name ?? null}
+                        engineError={engineError}
+                        onLoadEngineFile={setEngineFile}
+                        isGameActive={selectedSquare !== null || (mode === 'ai' && currentPlayer === aiColor)} // Simplified active check
                     />
 
                     <div className="p-4 bg-gray-800 rounded-xl shadow-xl border border-gray-700">
@@ -158,42 +1099,259 @@ export default function App() {
                         <div className="flex items-center gap-2 mb-3">
                             <CircleDot className={`w-4 h-4 ${currentPlayer === 'w' ? 'text-white' : 'text-gray-400'}`} />
                             <p className="font-mono text-lg">Turn: {currentPlayer === 'w' ? 'White' : 'Black'}</p>
+                            <button
+                                onClick={() => setIsFlipped(!isFlipped)}
+                                className="ml-auto text-gray-400 hover:text-white transition duration-150"
+                                title="Flip board"
+                            >
+                                <ArrowUpDown className="w-5 h-5" />
+                            </button>
                         </div>
                         <p className="text-sm italic text-yellow-300">{statusDisplay}</p>
+                        {boardVariant !== 'standard' && (
+                            <p className="mt-1 text-sm text-gray-300" title={VARIANTS[boardVariant].description}>
+                                <span className="font-semibold text-indigo-300">{VARIANTS[boardVariant].name}</span>
+                                {position.checks && ` · Checks: White ${position.checks.w}/${CHECKS_TO_WIN}, Black ${position.checks.b}/${CHECKS_TO_WIN}`}
+                            </p>
+                        )}
+                        {opening && (
+                            <p className="mt-1 text-sm text-gray-300" title={opening.moves}>
+                                <span className="font-mono text-indigo-300">{opening.eco}</span> {opening.name}
+                            </p>
+                        )}
+
+                        {canPlay && (
+                            <div className="mt-4 grid grid-cols-2 gap-2">
+                                <button
+                                    onClick={handleResign}
+                                    disabled={isRoomBusy}
+                                    className="flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded-lg transition duration-200 shadow-md disabled:opacity-50"
+                                >
+                                    <Flag className="w-4 h-4" /> Resign
+                                </button>
+                                <button
+                                    onClick={handleOfferDraw}
+                                    disabled={isRoomBusy || !!drawOfferedBy || (mode === 'ai' && currentPlayer !== humanColor)}
+                                    className="flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded-lg transition duration-200 shadow-md disabled:opacity-50"
+                                >
+                                    <Handshake className="w-4 h-4" /> Offer Draw
+                                </button>
+                            </div>
+                        )}
+                        {canPlay && drawOfferedBy && mode !== 'ai' && (
+                            <div className="mt-3 p-3 bg-gray-900 rounded-lg text-sm">
+                                {mode === 'multiplayer' && drawOfferedBy === onlineColor ? (
+                                    <p className="text-gray-300">Draw offered. Waiting for your opponent to answer...</p>
+                                ) : (
+                                    <>
+                                        <p className="text-gray-300">
+                                            {mode === 'local' ? `${colorName(drawOfferedBy)} offers a draw.` : "Your opponent offers a draw."}
+                                        </p>
+                                        <div className="flex gap-2 mt-2">
+                                            <button onClick={() => handleDrawReply(true)} disabled={isRoomBusy} className="flex-1 bg-green-600 hover:bg-green-700 text-white font-bold py-1 rounded-lg transition duration-200 disabled:opacity-50">
+                                                Accept
+                                            </button>
+                                            <button onClick={() => handleDrawReply(false)} disabled={isRoomBusy} className="flex-1 bg-red-600 hover:bg-red-700 text-white font-bold py-1 rounded-lg transition duration-200 disabled:opacity-50">
+                                                Decline
+                                            </button>
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+                        )}
 
-                        <button 
-                            onClick={resetGame}
-                            className="mt-4 w-full flex items-center justify-center gap-2 bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg transition duration-200 shadow-md"
-                        >
-                            <RefreshCw className="w-4 h-4" />
-                            Restart Game
-                        </button>
+                        {/* An online game is shared, so it ends by leaving the room instead */}
+                        {mode !== 'multiplayer' && mode !== 'puzzle' && (
+                            <button 
+                                onClick={resetGame}
+                                className="mt-4 w-full flex items-center justify-center gap-2 bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg transition duration-200 shadow-md"
+                            >
+                                <RefreshCw className="w-4 h-4" />
+                                Restart Game
+                            </button>
+                        )}
+                        {mode !== 'multiplayer' && mode !== 'puzzle' && !isEditing && (
+                            <button
+                                onClick={() => setIsEditing(true)}
+                                className="mt-2 w-full flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition duration-200 shadow-md"
+                            >
+                                <PencilRuler className="w-4 h-4" />
+                                Set Up Position
+                            </button>
+                        )}
                     </div>
 
-                    {mode === 'ai' && (
+                    <MoveList
+                        history={history}
+                        error={pgnError}
+                        canImport={mode !== 'multiplayer' && mode !== 'puzzle'}
+                        annotations={annotations}
+                        onSelectNode={id => navigate(prev => goToNode(prev, id))}
+                        onStart={() => navigate(goToStart)}
+                        onBack={() => navigate(stepBack)}
+                        onForward={() => navigate(stepForward)}
+                        onLive={() => navigate(goToLive)}
+                        onTakeBack={canEditMoves ? handleTakeBack : undefined}
+                        onRedo={canEditMoves ? handleRedo : undefined}
+                        onBranch={canEditMoves ? () => dispatch({ type: 'branch' }) : undefined}
+                        onExport={handleExportPgn}
+                        onImport={handleImportPgn}
+                    />
+
+                    {(canAnalyse || mode === 'ai') && (
+                        <AnalysisPanel
+                            canAnalyse={canAnalyse}
+                            isAnalysing={isAnalysing}
+                            progress={{ done: analysedCount, total: gameLineFens.length }}
+                            summaries={playerSummaries}
+                            showBestMove={showBestMove}
+                            onAnalyse={() => setIsAnalysing(true)}
+                            onStop={() => setIsAnalysing(false)}
+                            onToggleBestMove={() => setShowBestMove(!showBestMove)}
+                            isHintAvailable={isHintAvailable}
+                            showHint={showHint}
+                            onToggleHint={() => setShowHint(!showHint)}
+                        />
+                    )}
+
+                    <AccountPanel
+                        user={authUser}
+                        profile={profile}
+                        history={ratingHistory}
+                        notice={accountNotice}
+                        error={accountError}
+                        isBusy={isAccountBusy}
+                        onGuest={() => switchAccount(() => authService.signInAsGuest().then(receiveUser))}
+                        onSignIn={(email, password) => switchAccount(() => authService.signInWithEmail(email, password).then(receiveUser))}
+                        onSignUp={handleSignUp}
+                        onSignOut={() => switchAccount(() => authService.signOut().then(() => receiveUser(null)))}
+                        onRename={handleRename}
+                    />
+
+                    <Leaderboard
+                        pool={leaderboardPool}
+                        setPool={setLeaderboardPool}
+                        entries={leaderboard}
+                        playerId={profile?.id ?? null}
+                        error={leaderboardError}
+                    />
+
+                    <GameLibrary
+                        games={library}
+                        unfinished={unfinishedGame}
+                        error={libraryError}
+                        onResume={() => unfinishedGame && openSavedGame(unfinishedGame, true)}
+                        onDiscard={handleDiscardUnfinished}
+                        onOpen={game => openSavedGame(game, false)}
+                        onDelete={handleDeleteGame}
+                    />
+
+                    {mode === 'multiplayer' && (
+                        <RoomPanel
+                            room={room}
+                            playerColor={onlineColor}
+                            connection={connection}
+                            connectionError={connectionError}
+                            error={roomError}
+                            isBusy={isRoomBusy}
+                            onCreate={() => enterRoom(id => roomTransport.createRoom(id, timeControl, variant))}
+                            onJoin={code => enterRoom(id => roomTransport.joinRoom(code, id))}
+                            onLeave={leaveRoom}
+                        />
+                    )}
+
+                    {mode === 'puzzle' && (
+                        <PuzzlePanel
+                            session={puzzleSession}
+                            stats={puzzleStats}
+                            setName={puzzleSetName}
+                            puzzleCount={puzzles.length}
+                            error={puzzleError}
+                            canHint={canPuzzleHint}
+                            onHint={handlePuzzleHint}
+                            onShowSolution={handleShowSolution}
+                            onRetry={() => puzzleSession && openPuzzle(puzzleSession.puzzle)}
+                            onNext={openNextPuzzle}
+                            onLoadSet={handleLoadPuzzleSet}
+                        />
+                    )}
+
+                    {mode === 'spectator' && (
+                        <SpectatorControls
+                            isPaused={isPaused}
+                            canStep={isPaused && !isStepping && !isGameOver}
+                            moveDelayMs={moveDelayMs}
+                            onTogglePause={() => setIsPaused(!isPaused)}
+                            onStep={() => setIsStepping(true)}
+                            setMoveDelayMs={setMoveDelayMs}
+                        />
+                    )}
+
+                    {(mode === 'ai' || mode === 'spectator') && (
+                        <OpeningBookPanel
+                            book={openingBook}
+                            isBundled={isBundledBook}
+                            error={bookError}
+                            onUpload={handleUploadBook}
+                            onUseBundled={loadBundledBook}
+                        />
+                    )}
+
+                    {(mode === 'ai' || mode === 'spectator') && activeUciEngine && uciEngineInfo && (
+                        <EngineInfoPanel
+                            engineName={uciEngineInfo.name}
+                            info={engineSearch?.info ?? null}
+                            position={engineSearch?.position ?? null}
+                            isThinking={isAITurn && !isGameOver && !shouldWaitForStep}
+                        />
+                    )}
+
+                    {mode === 'ai' && !activeUciEngine && (
                          <div className="p-3 bg-indigo-900/30 border border-indigo-500 rounded-lg text-xs text-indigo-200">
-                            Note: AI functionality relies on simplified move generation, as full chess engine logic requires external libraries.
+                            AI searches with alpha-beta and iterative deepening in a background worker. Higher difficulties search deeper, think longer and make fewer deliberate mistakes.
                          </div>
                     )}
 
                 </div>
 
                 {/* Right Column: Board */}
-                <div className="lg:w-3/4 flex justify-center order-1 lg:order-2">
-                    <ChessBoard 
-                        board={board}
-                        onMove={handleHumanMove}
-                        currentPlayer={currentPlayer}
-                        selectedSquare={selectedSquare}
-                        setSelectedSquare={setSelectedSquare}
-                        mode={mode}
-                    />
+                <div className="lg:w-3/4 flex flex-col items-center gap-3 order-1 lg:order-2">
+                    {isEditing ? (
+                        <PositionEditor
+                            initialPosition={viewedPosition}
+                            onStart={handleStartFromEditor}
+                            onCancel={() => setIsEditing(false)}
+                        />
+                    ) : (
+                        <>
+                            {gameResult && !isReviewing && mode !== 'puzzle' && <ResultBanner result={gameResult} />}
+                            {renderClock(oppositeColor(orientation))}
+                            <div className="flex gap-2 w-full max-w-xl">
+                                {showEvaluation && <EvalBar score={viewedEvaluation?.score ?? null} orientation={orientation} />}
+                                <div className="flex-1 min-w-0">
+                                    <ChessBoard 
+                                        position={viewedPosition}
+                                        isReadOnly={isReviewing || isGameOver || (mode === 'puzzle' && !canPuzzleHint)}
+                                        onMove={handleHumanMove}
+                                        selectedSquare={selectedSquare}
+                                        setSelectedSquare={setSelectedSquare}
+                                        mode={mode}
+                                        playerColor={mode === 'ai' || mode === 'puzzle' ? humanColor : onlineColor}
+                                        orientation={orientation}
+                                        arrows={boardArrows}
+                                        lastMove={history.nodes[history.currentId].move}
+                                    />
+                                </div>
+                            </div>
+                            {renderClock(orientation)}
+                        </>
+                    )}
                 </div>
 
             </div>
             
             <footer className="mt-8 text-gray-500 text-sm">
-                Powered by React & Tailwind. Multiplayer/AI Depth Simulated.
+                Powered by React & Tailwind. Online play via Supabase Realtime.
             </footer>
         </div>
     );
@@ -0,0 +1,168 @@
+import React from 'react';
+import { Check, LogIn, LogOut, Pencil, UserCircle, UserPlus } from 'lucide-react';
+import { AuthUser, MAX_DISPLAY_NAME_LENGTH, PlayerProfile, RATING_POOLS, RatingChange, RatingPool } from '../lib/players';
+import { formatRating } from '../lib/glicko';
+
+interface AccountPanelProps {
+    user: AuthUser | null;
+    profile: PlayerProfile | null;
+    history: RatingChange[];
+    notice: string | null;
+    error: string | null;
+    isBusy: boolean;
+    onGuest: () => void;
+    onSignIn: (email: string, password: string) => void;
+    onSignUp: (email: string, password: string) => void;
+    onSignOut: () => void;
+    onRename: (name: string) => void;
+}
+
+const POOL_LABELS: Record<RatingPool, string> = {
+    online: 'Online',
+    ai: 'Vs AI',
+};
+
+const formatDelta = (change: RatingChange): string => {
+    const delta = Math.round(change.after.rating - change.before.rating);
+    return delta >= 0 ? `+${delta}` : String(delta);
+};
+
+const SCORE_LABELS: Record<number, string> = { 1: 'Won', 0.5: 'Drew', 0: 'Lost' };
+
+export default function AccountPanel({
+    user,
+    profile,
+    history,
+    notice,
+    error,
+    isBusy,
+    onGuest,
+    onSignIn,
+    onSignUp,
+    onSignOut,
+    onRename,
+}: AccountPanelProps) {
+    const [email, setEmail] = React.useState('');
+    const [password, setPassword] = React.useState('');
+    const [editedName, setEditedName] = React.useState<string | null>(null); // null while not renaming
+
+    const buttonClasses = "flex-1 flex items-center justify-center gap-2 text-white text-sm font-bold py-2 px-3 rounded-lg transition duration-200 shadow-md disabled:opacity-50";
+    const inputClasses = "w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-sky-500";
+    const canSubmit = !isBusy && email.trim() !== '' && password !== '';
+
+    return (
+        <div className="p-4 bg-gray-800 rounded-xl shadow-xl border border-sky-500/60">
+            <h3 className="flex items-center gap-2 text-xl font-bold mb-3 text-sky-400">
+                <UserCircle className="w-5 h-5" /> Account
+            </h3>
+
+            {user && profile ? (
+                <div className="flex flex-col gap-3">
+                    {/* Name */}
+                    {editedName === null ? (
+                        <div className="flex items-center gap-2">
+                            <span className="font-bold truncate">{profile.displayName}</span>
+                            <button onClick={() => setEditedName(profile.displayName)} className="text-gray-400 hover:text-white" title="Change name">
+                                <Pencil className="w-4 h-4" />
+                            </button>
+                            <span className="ml-auto text-xs text-gray-400 truncate">{user.isGuest ? 'Guest' : user.email}</span>
+                        </div>
+                    ) : (
+                        <form
+                            className="flex gap-2"
+                            onSubmit={e => {
+                                e.preventDefault();
+                                onRename(editedName);
+                                setEditedName(null);
+                            }}
+                        >
+                            <input
+                                value={editedName}
+                                onChange={e => setEditedName(e.target.value)}
+                                maxLength={MAX_DISPLAY_NAME_LENGTH}
+                                aria-label="Display name"
+                                autoFocus
+                                className={inputClasses}
+                            />
+                            <button type="submit" disabled={isBusy || !editedName.trim()} className="text-green-400 hover:text-green-300 disabled:opacity-50" title="Save name">
+                                <Check className="w-5 h-5" />
+                            </button>
+                        </form>
+                    )}
+
+                    {/* Ratings */}
+                    <div className="grid grid-cols-2 gap-2 text-center">
+                        {RATING_POOLS.map(pool => (
+                            <div key={pool} className="bg-gray-900 rounded-lg py-2" title={`${profile.games[pool]} rated games, deviation ${Math.round(profile.ratings[pool].deviation)}`}>
+                                <p className="text-xs text-gray-400">{POOL_LABELS[pool]}</p>
+                                <p className="text-lg font-bold font-mono">{formatRating(profile.ratings[pool])}</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Recent Rating Changes */}
+                    {history.length > 0 && (
+                        <ul className="text-xs text-gray-300 flex flex-col gap-1">
+                            {history.map(change => (
+                                <li key={`${change.gameId}-${change.pool}`} className="flex gap-2">
+                                    <span className="w-10 text-gray-400">{SCORE_LABELS[change.score]}</span>
+                                    <span className="flex-1 truncate">vs {change.opponent}</span>
+                                    <span className="text-gray-400">{POOL_LABELS[change.pool]}</span>
+                                    <span className={`w-10 text-right font-mono ${change.after.rating >= change.before.rating ? 'text-green-400' : 'text-red-400'}`}>
+                                        {formatDelta(change)}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    {user.isGuest && (
+                        <p className="text-xs text-gray-400">Guest ratings are kept on this device only until you create an account below.</p>
+                    )}
+                    <button onClick={onSignOut} disabled={isBusy} className={`${buttonClasses} bg-gray-700 hover:bg-gray-600`}>
+                        <LogOut className="w-4 h-4" /> Sign Out
+                    </button>
+                </div>
+            ) : (
+                <button onClick={onGuest} disabled={isBusy} className={`${buttonClasses} w-full bg-sky-600 hover:bg-sky-700`}>
+                    <UserCircle className="w-4 h-4" /> Play as Guest
+                </button>
+            )}
+
+            {/* Email sign-in, or turning a guest account into a permanent one */}
+            {(!user || user.isGuest) && (
+                <form className="flex flex-col gap-2 mt-3" onSubmit={e => e.preventDefault()}>
+                    <input
+                        type="email"
+                        value={email}
+                        onChange={e => setEmail(e.target.value)}
+                        placeholder="Email"
+                        autoComplete="email"
+                        className={inputClasses}
+                    />
+                    <input
+                        type="password"
+                        value={password}
+                        onChange={e => setPassword(e.target.value)}
+                        placeholder="Password"
+                        autoComplete="current-password"
+                        className={inputClasses}
+                    />
+                    <div className="flex gap-2">
+                        {!user && (
+                            <button type="submit" onClick={() => onSignIn(email, password)} disabled={!canSubmit} className={`${buttonClasses} bg-gray-700 hover:bg-gray-600`}>
+                                <LogIn className="w-4 h-4" /> Sign In
+                            </button>
+                        )}
+                        <button type="button" onClick={() => onSignUp(email, password)} disabled={!canSubmit} className={`${buttonClasses} bg-gray-700 hover:bg-gray-600`}>
+                            <UserPlus className="w-4 h-4" /> Create Account
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {notice && <p className="mt-3 text-sm text-sky-300">{notice}</p>}
+            {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+        </div>
+    );
+}
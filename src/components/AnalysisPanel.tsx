@@ -0,0 +1,113 @@
+import React from 'react';
+import { Lightbulb, LineChart, Square as StopIcon } from 'lucide-react';
+import { Color } from '../types';
+import { MoveClassification, PlayerSummary } from '../lib/analysis';
+
+interface AnalysisPanelProps {
+    canAnalyse: boolean;
+    isAnalysing: boolean;
+    progress: { done: number, total: number };
+    summaries: Record<Color, PlayerSummary>;
+    showBestMove: boolean;
+    onAnalyse: () => void;
+    onStop: () => void;
+    onToggleBestMove: () => void;
+    // Hints are offered in live games against the AI only
+    isHintAvailable: boolean;
+    showHint: boolean;
+    onToggleHint: () => void;
+}
+
+const COUNTED: { classification: MoveClassification, label: string, color: string }[] = [
+    { classification: 'inaccuracy', label: 'Inaccuracies', color: 'text-yellow-300' },
+    { classification: 'mistake', label: 'Mistakes', color: 'text-orange-400' },
+    { classification: 'blunder', label: 'Blunders', color: 'text-red-400' },
+];
+
+export default function AnalysisPanel({
+    canAnalyse,
+    isAnalysing,
+    progress,
+    summaries,
+    showBestMove,
+    onAnalyse,
+    onStop,
+    onToggleBestMove,
+    isHintAvailable,
+    showHint,
+    onToggleHint,
+}: AnalysisPanelProps) {
+    const buttonClasses = "w-full flex items-center justify-center gap-2 text-white text-sm font-bold py-2 px-3 rounded-lg transition duration-200 shadow-md disabled:opacity-50";
+    const isComplete = progress.total > 0 && progress.done === progress.total;
+    const hasResults = summaries.w.accuracy !== null || summaries.b.accuracy !== null;
+
+    return (
+        <div className="p-4 bg-gray-800 rounded-xl shadow-xl border border-gray-700">
+            <h3 className="flex items-center gap-2 text-xl font-bold mb-2 text-indigo-400">
+                <LineChart className="w-5 h-5" /> Analysis
+            </h3>
+
+            {isHintAvailable && (
+                <label className="flex items-center gap-2 text-sm mb-2">
+                    <input type="checkbox" checked={showHint} onChange={onToggleHint} />
+                    <Lightbulb className="w-4 h-4 text-yellow-300" /> Show the engine's top move
+                </label>
+            )}
+
+            {canAnalyse ? (
+                <>
+                    {isAnalysing ? (
+                        <button onClick={onStop} className={`${buttonClasses} bg-gray-700 hover:bg-gray-600`}>
+                            <StopIcon className="w-4 h-4" /> Stop ({progress.done}/{progress.total})
+                        </button>
+                    ) : (
+                        <button onClick={onAnalyse} disabled={isComplete} className={`${buttonClasses} bg-indigo-600 hover:bg-indigo-700`}>
+                            <LineChart className="w-4 h-4" /> {isComplete ? 'Game Analysed' : progress.done > 0 ? 'Continue Analysis' : 'Analyse Game'}
+                        </button>
+                    )}
+                    {progress.total > 0 && (
+                        <div className="mt-2 h-1.5 bg-gray-900 rounded-full overflow-hidden">
+                            <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${(100 * progress.done) / progress.total}%` }} />
+                        </div>
+                    )}
+
+                    {hasResults && (
+                        <table className="w-full mt-3 text-sm">
+                            <thead>
+                                <tr className="text-gray-400">
+                                    <th className="text-left font-normal" />
+                                    <th className="font-normal">White</th>
+                                    <th className="font-normal">Black</th>
+                                </tr>
+                            </thead>
+                            <tbody className="font-mono text-center">
+                                <tr>
+                                    <td className="text-left font-sans">Accuracy</td>
+                                    {(['w', 'b'] as Color[]).map(color => (
+                                        <td key={color} className="font-bold">
+                                            {summaries[color].accuracy === null ? '-' : `${summaries[color].accuracy!.toFixed(1)}%`}
+                                        </td>
+                                    ))}
+                                </tr>
+                                {COUNTED.map(({ classification, label, color: textColor }) => (
+                                    <tr key={classification} className={textColor}>
+                                        <td className="text-left font-sans">{label}</td>
+                                        <td>{summaries.w.counts[classification]}</td>
+                                        <td>{summaries.b.counts[classification]}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+
+                    <label className="flex items-center gap-2 text-sm mt-3">
+                        <input type="checkbox" checked={showBestMove} onChange={onToggleBestMove} />
+                        Show best move arrows
+                    </label>
+                </>
+            ) : (
+                !isHintAvailable && <p className="text-sm text-gray-500 italic">Finished games can be analysed move by move.</p>
+            )}
+        </div>
+    );
+}
@@ -1,6 +1,7 @@
 import React from 'react';
-import { Square } from 'lucide-react';
-import { BoardState, Piece, Move, GameMode } from '../types';
+import { Color, Piece, Move, GameMode, Position, Square } from '../types';
+import { getLegalMoves, getPieceColor, isSameSquare } from '../lib/rules';
+import { describeMove, describePiece, sanToMove, squareToName, uciToMove } from '../lib/notation';
 
 interface PieceMap {
     [key: string]: { char: string, color: 'white' | 'black' };
@@ -12,95 +13,351 @@ const PIECE_MAP: PieceMap = {
     'bP': { char: '♟', color: 'black' }, 'bN': { char: '♞', color: 'black' }, 'bB': { char: '♝', color: 'black' }, 'bR': { char: '♜', color: 'black' }, 'bQ': { char: '♛', color: 'black' }, 'bK': { char: '♚', color: 'black' },
 };
 
+export interface BoardArrow {
+    from: Square;
+    to: Square;
+    color: string; // any CSS color
+}
+
 interface BoardProps {
-    board: BoardState;
+    position: Position;
+    // Set while the user browses earlier moves; no moves can be made
+    isReadOnly?: boolean;
     onMove: (move: Move) => void;
-    currentPlayer: 'w' | 'b';
     selectedSquare: { row: number, col: number } | null;
     setSelectedSquare: React.Dispatch<React.SetStateAction<{ row: number, col: number } | null>>;
     mode: GameMode;
+    // Color the local user plays against the AI, in an online room (null until seated) or solves a puzzle for
+    playerColor?: Color | null;
+    // Side shown at the bottom
+    orientation?: Color;
+    // Drawn over the pieces, e.g. the engine's best move
+    arrows?: BoardArrow[];
+    // Move that led to `position`, announced to screen readers
+    lastMove?: Move | null;
 }
 
-const INITIAL_BOARD: BoardState = [
-    ['bR', 'bN', 'bB', 'bQ', 'bK', 'bB', 'bN', 'bR'],
-    ['bP', 'bP', 'bP', 'bP', 'bP', 'bP', 'bP', 'bP'],
-    [null, null, null, null, null, null, null, null],
-    [null, null, null, null, null, null, null, null],
-    [null, null, null, null, null, null, null, null],
-    [null, null, null, null, null, null, null, null],
-    ['wP', 'wP', 'wP', 'wP', 'wP', 'wP', 'wP', 'wP'],
-    ['wR', 'wN', 'wB', 'wQ', 'wK', 'wB', 'wN', 'wR'],
-];
-
-// Helper function to determine piece color
-const getPieceColor = (piece: Piece): 'w' | 'b' | null => piece ? piece[0] as 'w' | 'b' : null;
-
-// Simplified placeholder for move validation (Allows any non-occupied friendly move for demonstration)
-const isValidMovePlaceholder = (board: BoardState, from: {row: number, col: number}, to: {row: number, col: number}, piece: Piece, currentPlayer: 'w' | 'b'): boolean => {
-    if (!piece || getPieceColor(piece) !== currentPlayer) return false;
-    if (to.row === from.row && to.col === from.col) return false;
-    
-    const targetPieceColor = getPieceColor(board[to.row][to.col]);
-    if (targetPieceColor === currentPlayer) return false; // Cannot capture own piece
-
-    // Since we cannot implement a full engine, we allow any move by the current player if the target is empty or opponent piece
-    return true;
-};
+// A move entered while the opponent is thinking, played as soon as it is the user's turn (if still legal)
+interface Premove {
+    from: Square;
+    to: Square;
+}
 
+// Piece being dragged: where it came from and where the pointer is (viewport coordinates)
+interface DragState {
+    from: Square;
+    piece: Piece;
+    startX: number;
+    startY: number;
+    x: number;
+    y: number;
+    isDragging: boolean; // false until the pointer has moved far enough to tell a drag from a click
+    isReturning: boolean; // snapping back after an illegal drop
+}
 
-const ChessBoard: React.FC<BoardProps> = ({ 
-    board, 
-    onMove, 
-    currentPlayer,
+const FILES = 'abcdefgh';
+const INDICES = [0, 1, 2, 3, 4, 5, 6, 7];
+const DRAG_THRESHOLD_PX = 4;
+const SNAP_BACK_MS = 150;
+
+const ChessBoard: React.FC<BoardProps> = ({
+    position,
+    isReadOnly = false,
+    onMove,
     selectedSquare,
     setSelectedSquare,
-    mode
+    mode,
+    playerColor = null,
+    orientation = 'w',
+    arrows = [],
+    lastMove = null,
 }) => {
+    const { board, turn: currentPlayer } = position;
+    const [pendingPromotion, setPendingPromotion] = React.useState<Move[] | null>(null);
+    const [premove, setPremove] = React.useState<Premove | null>(null);
+    const [drag, setDrag] = React.useState<DragState | null>(null);
+    // Square the keyboard cursor is on; it starts on the king's pawn of the side at the bottom
+    const [cursor, setCursor] = React.useState<Square>({ row: orientation === 'w' ? 6 : 1, col: 4 });
+    const [moveText, setMoveText] = React.useState('');
+    const [moveTextError, setMoveTextError] = React.useState<string | null>(null);
+    const [announcement, setAnnouncement] = React.useState('');
+    const boardRef = React.useRef<HTMLDivElement>(null);
+    const squareRefs = React.useRef<(HTMLDivElement | null)[]>([]);
+    // A drag ends with a click on the square it started from; that click must not count
+    const suppressClickRef = React.useRef(false);
+
+    const legalMoves = React.useMemo(() => getLegalMoves(position), [position]);
+
+    const isGameOver = legalMoves.length === 0;
+    const isHumanTurn = !isGameOver && !isReadOnly && (
+        mode === 'local'
+        || ((mode === 'ai' || mode === 'multiplayer' || mode === 'puzzle') && currentPlayer === playerColor)
+    );
+    // Premoves are queued against the AI or an online opponent while they are to move
+    const canPremove = !isGameOver && !isReadOnly && !!playerColor
+        && (mode === 'ai' || mode === 'multiplayer') && currentPlayer !== playerColor;
+    const mover: Color | null = isHumanTurn ? currentPlayer : canPremove ? playerColor : null;
 
-    const isHumanTurn = mode === 'local' || (mode === 'ai' && currentPlayer === 'w');
+    // Candidate moves for the user: the legal moves on their turn, otherwise the moves their pieces
+    // would have if it were their turn (a premove is checked again once it's played)
+    const candidateMoves = React.useMemo(() => {
+        if (isHumanTurn) return legalMoves;
+        if (!canPremove || !playerColor) return [];
+        return getLegalMoves({ ...position, turn: playerColor, enPassant: null });
+    }, [isHumanTurn, canPremove, playerColor, legalMoves, position]);
+
+    const movesBetween = (from: Square, to: Square) => candidateMoves.filter(m => isSameSquare(m.from, from) && isSameSquare(m.to, to));
+    const selectedMoves = selectedSquare ? candidateMoves.filter(m => isSameSquare(m.from, selectedSquare)) : [];
+    const movesTo = (row: number, col: number) => selectedMoves.filter(m => isSameSquare(m.to, { row, col }));
+
+    // Board rows and columns in the order they are drawn; flipped when Black is at the bottom
+    const displayOrder = orientation === 'w' ? INDICES : [...INDICES].reverse();
+
+    // --- Making Moves ---
+
+    // Plays (or queues) the move from `from` to `to`; false when there is no such move
+    const attemptMove = (from: Square, to: Square): boolean => {
+        const candidates = movesBetween(from, to);
+        if (candidates.length === 0) return false;
+        setSelectedSquare(null);
+        if (!isHumanTurn) {
+            setPremove({ from, to });
+            setAnnouncement(`Premove ${squareToName(from)} to ${squareToName(to)} queued.`);
+        } else if (candidates.length > 1) {
+            // Several legal moves share from/to only when a pawn promotes: let the player pick the piece
+            setPendingPromotion(candidates);
+        } else {
+            onMove(candidates[0]);
+        }
+        return true;
+    };
+
+    // The queued premove is played on the user's turn if it is legal then (promoting to a queen)
+    React.useEffect(() => {
+        if (!premove) return;
+        if (isReadOnly || isGameOver) {
+            setPremove(null);
+            return;
+        }
+        if (!isHumanTurn) return;
+        setPremove(null);
+        const candidates = legalMoves.filter(m => isSameSquare(m.from, premove.from) && isSameSquare(m.to, premove.to));
+        const move = candidates.find(m => !m.promotion || m.promotion === 'Q');
+        if (move) onMove(move);
+        else setAnnouncement("Premove cancelled: it is no longer legal.");
+    }, [premove, isHumanTurn, isReadOnly, isGameOver, legalMoves, onMove]);
+
+    React.useEffect(() => {
+        if (lastMove) setAnnouncement(describeMove(lastMove, position));
+    }, [lastMove, position]);
 
     const handleSquareClick = (row: number, col: number) => {
-        if (!isHumanTurn) return; 
+        if (suppressClickRef.current) {
+            suppressClickRef.current = false;
+            return;
+        }
+        setCursor({ row, col });
+        if (!mover || pendingPromotion) return;
 
         const clickedPiece = board[row][col];
         const clickedColor = getPieceColor(clickedPiece);
 
         if (selectedSquare) {
             // Case 1: A piece is already selected
-            const move: Move = { from: selectedSquare, to: { row, col }, piece: board[selectedSquare.row][selectedSquare.col]! };
-
             if (selectedSquare.row === row && selectedSquare.col === col) {
                 // Deselect if clicking the same square
                 setSelectedSquare(null);
-            } else if (clickedColor === currentPlayer) {
-                // Select a new friendly piece
+            } else if (clickedColor === mover && movesTo(row, col).length === 0) {
+                // Select a new friendly piece (unless it's the rook a Chess960 king castles with)
                 setSelectedSquare({ row, col });
-            } else if (isValidMovePlaceholder(board, selectedSquare, { row, col }, move.piece, currentPlayer)) {
-                // Execute move
-                onMove(move);
-                setSelectedSquare(null);
-            } else {
-                // Invalid move target or logic error, deselect
+            } else if (!attemptMove(selectedSquare, { row, col })) {
+                // Illegal move target, deselect
                 setSelectedSquare(null);
             }
-
-        } else {
+        } else if (clickedPiece && clickedColor === mover) {
             // Case 2: No piece selected, try to select one
-            if (clickedPiece && clickedColor === currentPlayer) {
-                setSelectedSquare({ row, col });
+            setSelectedSquare({ row, col });
+        } else if (premove) {
+            // Clicking an empty square or an enemy piece drops the queued premove
+            setPremove(null);
+            setAnnouncement("Premove cancelled.");
+        }
+    };
+
+    const handlePromotionChoice = (move: Move | null) => {
+        setPendingPromotion(null);
+        setSelectedSquare(null);
+        if (move) onMove(move);
+    };
+
+    // --- Drag and Drop ---
+
+    // Square under a viewport point, taking the board's orientation into account
+    const squareAt = (x: number, y: number): Square | null => {
+        const rect = boardRef.current?.getBoundingClientRect();
+        if (!rect) return null;
+        const displayCol = Math.floor(((x - rect.left) / rect.width) * 8);
+        const displayRow = Math.floor(((y - rect.top) / rect.height) * 8);
+        if (displayCol < 0 || displayCol > 7 || displayRow < 0 || displayRow > 7) return null;
+        return { row: displayOrder[displayRow], col: displayOrder[displayCol] };
+    };
+
+    const squareCenterOnScreen = (square: Square) => {
+        const rect = boardRef.current!.getBoundingClientRect();
+        return {
+            x: rect.left + ((displayOrder.indexOf(square.col) + 0.5) * rect.width) / 8,
+            y: rect.top + ((displayOrder.indexOf(square.row) + 0.5) * rect.height) / 8,
+        };
+    };
+
+    const handlePointerDown = (event: React.PointerEvent, row: number, col: number) => {
+        const piece = board[row][col];
+        if (event.button !== 0 || !mover || pendingPromotion || getPieceColor(piece) !== mover) return;
+        setDrag({ from: { row, col }, piece, startX: event.clientX, startY: event.clientY, x: event.clientX, y: event.clientY, isDragging: false, isReturning: false });
+    };
+
+    // While a piece is held, follow the pointer anywhere on the page. The listeners are replaced on
+    // every render, so they always see the current drag.
+    React.useEffect(() => {
+        if (!drag || drag.isReturning) return;
+        const handleMove = (event: PointerEvent) => {
+            const moved = Math.hypot(event.clientX - drag.startX, event.clientY - drag.startY) > DRAG_THRESHOLD_PX;
+            if (moved && !drag.isDragging) setSelectedSquare(drag.from);
+            setDrag({ ...drag, x: event.clientX, y: event.clientY, isDragging: drag.isDragging || moved });
+        };
+        const handleUp = (event: PointerEvent) => {
+            if (!drag.isDragging) {
+                setDrag(null); // A plain click, handled by the square
+                return;
+            }
+            suppressClickRef.current = true;
+            window.setTimeout(() => { suppressClickRef.current = false; }, 0);
+            const target = squareAt(event.clientX, event.clientY);
+            if (target && !isSameSquare(target, drag.from) && attemptMove(drag.from, target)) {
+                setDrag(null);
+                return;
             }
+            // Illegal or cancelled drop: the piece slides back to where it came from
+            setSelectedSquare(null);
+            setDrag({ ...drag, ...squareCenterOnScreen(drag.from), isReturning: true });
+        };
+        window.addEventListener('pointermove', handleMove);
+        window.addEventListener('pointerup', handleUp);
+        return () => {
+            window.removeEventListener('pointermove', handleMove);
+            window.removeEventListener('pointerup', handleUp);
+        };
+    });
+
+    const isReturning = !!drag?.isReturning;
+    React.useEffect(() => {
+        if (!isReturning) return;
+        const timer = window.setTimeout(() => setDrag(null), SNAP_BACK_MS);
+        return () => window.clearTimeout(timer);
+    }, [isReturning]);
+
+    // --- Keyboard ---
+
+    const focusSquare = (square: Square) => squareRefs.current[square.row * 8 + square.col]?.focus();
+
+    // Arrows move the cursor as the board is drawn, Enter or Space act like a click, Escape cancels
+    const handleKeyDown = (event: React.KeyboardEvent) => {
+        const steps: Record<string, [number, number]> = {
+            ArrowUp: [-1, 0],
+            ArrowDown: [1, 0],
+            ArrowLeft: [0, -1],
+            ArrowRight: [0, 1],
+        };
+        if (steps[event.key]) {
+            const [rowStep, colStep] = steps[event.key];
+            const displayRow = Math.min(7, Math.max(0, displayOrder.indexOf(cursor.row) + rowStep));
+            const displayCol = Math.min(7, Math.max(0, displayOrder.indexOf(cursor.col) + colStep));
+            const next = { row: displayOrder[displayRow], col: displayOrder[displayCol] };
+            setCursor(next);
+            focusSquare(next);
+        } else if (event.key === 'Enter' || event.key === ' ') {
+            handleSquareClick(cursor.row, cursor.col);
+        } else if (event.key === 'Escape') {
+            setSelectedSquare(null);
+            setPremove(null);
+        } else {
+            return;
+        }
+        // Keep the keys away from the move list's history navigation
+        event.preventDefault();
+        event.stopPropagation();
+    };
+
+    // --- Typed Moves ---
+
+    // Accepts SAN ("Nf3", "exd5", "O-O") or coordinates ("g1f3", "e7e8q")
+    const handleMoveTextSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        const text = moveText.trim();
+        if (!text) return;
+        if (!mover) {
+            setMoveTextError("You can't move right now.");
+            return;
+        }
+        const premovePosition = { ...position, turn: mover, enPassant: null };
+        const parsePosition = isHumanTurn ? position : premovePosition;
+        const move = uciToMove(parsePosition, text) ?? sanToMove(parsePosition, text);
+        if (!move) {
+            setMoveTextError(`"${text}" is not a legal move here.`);
+            return;
+        }
+        setMoveText('');
+        setMoveTextError(null);
+        if (isHumanTurn) {
+            setSelectedSquare(null);
+            onMove(move);
+        } else {
+            attemptMove(move.from, move.to);
         }
     };
 
+    // --- Rendering ---
+
+    // Center of a square in board units (one square is 1x1), as drawn
+    const squareCenter = ({ row, col }: Square) => ({
+        x: displayOrder.indexOf(col) + 0.5,
+        y: displayOrder.indexOf(row) + 0.5,
+    });
+
+    const renderArrow = (arrow: BoardArrow, index: number) => {
+        const from = squareCenter(arrow.from);
+        const to = squareCenter(arrow.to);
+        const length = Math.hypot(to.x - from.x, to.y - from.y);
+        const dx = (to.x - from.x) / length;
+        const dy = (to.y - from.y) / length;
+        const headLength = 0.4;
+        const headWidth = 0.25;
+        const baseX = to.x - dx * headLength;
+        const baseY = to.y - dy * headLength;
+        const head = [
+            `${to.x},${to.y}`,
+            `${baseX - dy * headWidth},${baseY + dx * headWidth}`,
+            `${baseX + dy * headWidth},${baseY - dx * headWidth}`,
+        ].join(' ');
+        return (
+            <g key={index} fill={arrow.color} stroke={arrow.color} opacity={0.8}>
+                <line x1={from.x} y1={from.y} x2={baseX} y2={baseY} strokeWidth={0.15} strokeLinecap="round" />
+                <polygon points={head} stroke="none" />
+            </g>
+        );
+    };
+
     const renderPiece = (piece: Piece, row: number, col: number) => {
         if (!piece) return null;
         const pieceData = PIECE_MAP[piece];
-        const pieceClass = pieceData.color === 'white' 
+        const pieceClass = pieceData.color === 'white'
             ? 'text-white text-shadow-md'
             : 'text-black text-shadow-md';
-        
+        // The dragged piece stays behind faintly until it is dropped
+        const isLifted = drag?.isDragging && isSameSquare(drag.from, { row, col });
+
         return (
-            <div className={`text-4xl font-serif cursor-pointer ${pieceClass}`}>
+            <div aria-hidden="true" className={`text-4xl font-serif cursor-pointer select-none ${pieceClass} ${isLifted ? 'opacity-30' : ''}`}>
                 {pieceData.char}
             </div>
         );
@@ -108,46 +365,143 @@ const ChessBoard: React.FC<BoardProps> = ({
 
     const getSquareClasses = (row: number, col: number): string => {
         const isLight = (row + col) % 2 === 0;
-        let classes = isLight 
+        let classes = isLight
             ? 'bg-[#f0d9b5] hover:bg-[#b58863]/80' // Light square color
             : 'bg-[#b58863] hover:bg-[#f0d9b5]/80'; // Dark square color
-        
+
         const isSelected = selectedSquare?.row === row && selectedSquare?.col === col;
-        const isTarget = selectedSquare && !isSelected && isValidMovePlaceholder(board, selectedSquare, {row, col}, board[selectedSquare.row][selectedSquare.col]!, currentPlayer);
+        const isTarget = !isSelected && movesTo(row, col).length > 0;
+        const isPremoved = !!premove && (isSameSquare(premove.from, { row, col }) || isSameSquare(premove.to, { row, col }));
 
         if (isSelected) {
             classes = 'bg-yellow-400/80 ring-4 ring-yellow-600/80 shadow-inner';
         } else if (isTarget) {
              classes = isLight ? 'bg-green-300/70 hover:bg-green-400' : 'bg-green-600/70 hover:bg-green-700';
+        } else if (isPremoved) {
+            classes = isLight ? 'bg-red-300/80' : 'bg-red-500/70';
         }
 
-        return `${classes} w-full h-full flex items-center justify-center transition duration-100 ease-in-out`;
+        return `${classes} relative w-full h-full flex items-center justify-center transition duration-100 ease-in-out`;
     };
 
-    const isGameOver = false; // Simplified: No checkmate logic implemented
+    const squareLabel = (row: number, col: number): string => {
+        const piece = board[row][col];
+        const name = `${squareToName({ row, col })}, ${piece ? describePiece(piece) : 'empty'}`;
+        return movesTo(row, col).length > 0 ? `${name}, possible move` : name;
+    };
+
+    const squareSize = (boardRef.current?.getBoundingClientRect().width ?? 0) / 8;
 
     return (
-        <div className={`w-full max-w-xl aspect-square shadow-2xl border-8 border-gray-800 rounded-lg overflow-hidden ${isGameOver ? 'opacity-70' : ''}`}>
-            {board.map((rowArr, rowIndex) => (
-                <div key={rowIndex} className="flex flex-row flex-nowrap h-[12.5%]">
-                    {rowArr.map((piece, colIndex) => (
-                        <div 
-                            key={colIndex} 
-                            className={`w-[12.5%] h-full ${getSquareClasses(rowIndex, colIndex)}`}
-                            onClick={() => handleSquareClick(rowIndex, colIndex)}
-                        >
-                            {renderPiece(piece, rowIndex, colIndex)}
-                            {/* Visual indicator for potential capture targets if selected */}
-                            {selectedSquare && !piece && isValidMovePlaceholder(board, selectedSquare, {row: rowIndex, col: colIndex}, board[selectedSquare.row][selectedSquare.col]!, currentPlayer) && (
-                                <div className="absolute w-1/4 h-1/4 rounded-full bg-black/20 pointer-events-none"></div>
-                            )}
+        <div className="w-full max-w-xl flex flex-col gap-2">
+            <div
+                ref={boardRef}
+                role="grid"
+                aria-label={`Chess board, ${orientation === 'w' ? 'White' : 'Black'} at the bottom`}
+                aria-readonly={!mover}
+                onKeyDown={handleKeyDown}
+                className={`relative w-full aspect-square shadow-2xl border-8 border-gray-800 rounded-lg overflow-hidden touch-none ${isGameOver ? 'opacity-70' : ''}`}
+            >
+                {displayOrder.map((rowIndex, displayRow) => (
+                    <div key={rowIndex} role="row" className="flex flex-row flex-nowrap h-[12.5%]">
+                        {displayOrder.map((colIndex, displayCol) => {
+                            const piece = board[rowIndex][colIndex];
+                            const labelColor = (rowIndex + colIndex) % 2 === 0 ? 'text-[#b58863]' : 'text-[#f0d9b5]';
+                            const hasCursor = isSameSquare(cursor, { row: rowIndex, col: colIndex });
+                            return (
+                                <div
+                                    key={colIndex}
+                                    ref={element => { squareRefs.current[rowIndex * 8 + colIndex] = element; }}
+                                    role="gridcell"
+                                    aria-label={squareLabel(rowIndex, colIndex)}
+                                    aria-selected={selectedSquare?.row === rowIndex && selectedSquare?.col === colIndex}
+                                    tabIndex={hasCursor ? 0 : -1}
+                                    className={`w-[12.5%] h-full ${getSquareClasses(rowIndex, colIndex)} focus:outline-none focus-visible:ring-4 focus-visible:ring-inset focus-visible:ring-sky-500`}
+                                    onClick={() => handleSquareClick(rowIndex, colIndex)}
+                                    onPointerDown={e => handlePointerDown(e, rowIndex, colIndex)}
+                                >
+                                    {renderPiece(piece, rowIndex, colIndex)}
+                                    {/* Visual indicator for quiet move targets if selected */}
+                                    {!piece && movesTo(rowIndex, colIndex).length > 0 && (
+                                        <div className="absolute w-1/4 h-1/4 rounded-full bg-black/20 pointer-events-none"></div>
+                                    )}
+                                    {/* Coordinates along the left and bottom edges */}
+                                    {displayCol === 0 && (
+                                        <span aria-hidden="true" className={`absolute top-0.5 left-1 text-xs font-bold pointer-events-none ${labelColor}`}>{8 - rowIndex}</span>
+                                    )}
+                                    {displayRow === 7 && (
+                                        <span aria-hidden="true" className={`absolute bottom-0.5 right-1 text-xs font-bold pointer-events-none ${labelColor}`}>{FILES[colIndex]}</span>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                ))}
+
+                {arrows.length > 0 && (
+                    <svg aria-hidden="true" className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 8 8">
+                        {arrows.map(renderArrow)}
+                    </svg>
+                )}
+
+                {/* Promotion Picker */}
+                {pendingPromotion && (
+                    <div className="absolute inset-0 bg-black/60 flex items-center justify-center" onClick={() => handlePromotionChoice(null)}>
+                        <div role="dialog" aria-label="Choose a promotion piece" className="flex gap-2 p-3 bg-gray-800 rounded-xl border border-indigo-500 shadow-2xl" onClick={e => e.stopPropagation()}>
+                            {pendingPromotion.map(move => {
+                                const promoted = `${currentPlayer}${move.promotion}` as Piece;
+                                return (
+                                    <button
+                                        key={move.promotion}
+                                        onClick={() => handlePromotionChoice(move)}
+                                        aria-label={`Promote to ${describePiece(promoted).split(' ')[1]}`}
+                                        className="w-16 h-16 bg-[#f0d9b5] hover:bg-yellow-300 rounded-lg flex items-center justify-center transition duration-150"
+                                    >
+                                        {renderPiece(promoted, move.to.row, move.to.col)}
+                                    </button>
+                                );
+                            })}
                         </div>
-                    ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Ghost piece under the pointer while dragging */}
+            {drag && (drag.isDragging || drag.isReturning) && drag.piece && (
+                <div
+                    aria-hidden="true"
+                    className={`fixed z-50 pointer-events-none font-serif -translate-x-1/2 -translate-y-1/2 ${PIECE_MAP[drag.piece].color === 'white' ? 'text-white' : 'text-black'} ${drag.isReturning ? 'transition-all ease-out' : ''}`}
+                    style={{ left: drag.x, top: drag.y, fontSize: squareSize * 0.75, transitionDuration: `${SNAP_BACK_MS}ms` }}
+                >
+                    {PIECE_MAP[drag.piece].char}
                 </div>
-            ))}
+            )}
+
+            {/* Typed move input */}
+            <form onSubmit={handleMoveTextSubmit} className="flex gap-2">
+                <input
+                    value={moveText}
+                    onChange={e => {
+                        setMoveText(e.target.value);
+                        setMoveTextError(null);
+                    }}
+                    disabled={!mover}
+                    aria-label="Type a move"
+                    aria-invalid={!!moveTextError}
+                    placeholder={premove ? 'Premove queued' : 'Type a move, e.g. Nf3 or g1f3'}
+                    className="flex-1 min-w-0 bg-gray-800 border border-gray-600 text-white rounded-lg px-3 py-1 font-mono text-sm focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+                />
+                <button type="submit" disabled={!mover || !moveText.trim()} className="bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold px-4 rounded-lg transition duration-200 disabled:opacity-50">
+                    Move
+                </button>
+            </form>
+            {moveTextError && <p role="alert" className="text-sm text-red-400">{moveTextError}</p>}
+
+            {/* Moves, captures and checks read out by screen readers */}
+            <div aria-live="polite" aria-atomic="true" className="sr-only">{announcement}</div>
         </div>
     );
 };
 
 export default ChessBoard;
-export { INITIAL_BOARD };
\ No newline at end of file
+export { PIECE_MAP };
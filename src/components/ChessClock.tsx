@@ -0,0 +1,38 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { Color } from '../types';
+import { formatClock } from '../lib/clock';
+
+interface ChessClockProps {
+    color: Color;
+    label: string;
+    remainingMs: number;
+    isRunning: boolean;
+    isFlagged: boolean;
+}
+
+const LOW_TIME_MS = 20 * 1000;
+
+const ChessClock: React.FC<ChessClockProps> = ({ color, label, remainingMs, isRunning, isFlagged }) => {
+    const isLow = remainingMs < LOW_TIME_MS;
+    const faceClasses = isFlagged
+        ? 'bg-red-700 text-white'
+        : isRunning
+            ? (isLow ? 'bg-red-500 text-white animate-pulse' : 'bg-green-500 text-gray-900')
+            : 'bg-gray-700 text-gray-300';
+
+    return (
+        <div className="w-full max-w-xl flex items-center justify-between px-3 py-2 bg-gray-800 rounded-lg border border-gray-700 shadow-md">
+            <div className="flex items-center gap-2">
+                <span className={`w-3 h-3 rounded-full border border-gray-500 ${color === 'w' ? 'bg-white' : 'bg-black'}`} />
+                <span className="font-semibold">{label}</span>
+            </div>
+            <div className={`flex items-center gap-2 font-mono text-2xl px-3 py-1 rounded-md transition duration-200 ${faceClasses}`}>
+                <Timer className="w-5 h-5" />
+                {formatClock(remainingMs)}
+            </div>
+        </div>
+    );
+};
+
+export default ChessClock;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Cpu } from 'lucide-react';
+import { Position } from '../types';
+import { UciInfo, pvToSan, uciScoreToCentipawns } from '../lib/uci';
+import { formatEvaluation } from '../lib/analysis';
+
+interface EngineInfoPanelProps {
+    engineName: string;
+    info: UciInfo | null; // the latest info line of the current or last search
+    position: Position | null; // the position that was searched
+    isThinking: boolean;
+}
+
+const formatCount = (count: number): string =>
+    count >= 1e6 ? `${(count / 1e6).toFixed(1)}M` : count >= 1e3 ? `${(count / 1e3).toFixed(1)}k` : String(count);
+
+export default function EngineInfoPanel({ engineName, info, position, isThinking }: EngineInfoPanelProps) {
+    const pv = React.useMemo(() => info && position ? pvToSan(position, info.pv) : [], [info, position]);
+    const score = info?.score && position ? formatEvaluation(uciScoreToCentipawns(info.score, position)) : '-';
+    const bound = info?.score?.bound === 'lower' ? '≥' : info?.score?.bound === 'upper' ? '≤' : '';
+
+    return (
+        <div className="p-3 bg-indigo-900/30 border border-indigo-500 rounded-lg text-xs text-indigo-200" aria-live="off">
+            <p className="flex items-center gap-2 font-semibold mb-2">
+                <Cpu className="w-4 h-4" /> {engineName}
+                <span className="ml-auto text-indigo-300">{isThinking ? 'Thinking...' : info ? 'Last search' : 'Idle'}</span>
+            </p>
+            <div className="grid grid-cols-3 gap-2 font-mono">
+                <span title="Depth / selective depth">Depth {info?.depth ?? '-'}{info?.selDepth ? `/${info.selDepth}` : ''}</span>
+                <span title="Score from White's point of view">{bound}{score}</span>
+                <span title="Nodes searched">{info?.nodes ? `${formatCount(info.nodes)} nodes` : ''}</span>
+            </div>
+            {pv.length > 0 && <p className="mt-2 font-mono text-indigo-100 break-words">{pv.join(' ')}</p>}
+        </div>
+    );
+}
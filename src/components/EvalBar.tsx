@@ -0,0 +1,30 @@
+import React from 'react';
+import { Color } from '../types';
+import { formatEvaluation, winChance } from '../lib/analysis';
+
+interface EvalBarProps {
+    score: number | null; // centipawns from White's point of view, null while unknown
+    orientation: Color;
+}
+
+// Vertical bar beside the board: the white part grows with White's winning chances
+const EvalBar: React.FC<EvalBarProps> = ({ score, orientation }) => {
+    const whiteShare = score === null ? 50 : 50 + 50 * winChance(score);
+    const whiteAtBottom = orientation === 'w';
+
+    return (
+        <div
+            className={`relative w-6 shrink-0 rounded-md overflow-hidden border-2 border-gray-800 bg-gray-700 flex ${whiteAtBottom ? 'flex-col-reverse' : 'flex-col'}`}
+            title={score === null ? 'Not evaluated yet' : `Evaluation ${formatEvaluation(score)}`}
+        >
+            <div className="bg-gray-100 transition-all duration-500" style={{ height: `${whiteShare}%` }} />
+            {score !== null && (
+                <span className={`absolute left-0 right-0 text-center text-[10px] font-bold ${score >= 0 === whiteAtBottom ? 'bottom-1 text-gray-800' : 'top-1 text-gray-200'}`}>
+                    {formatEvaluation(score)}
+                </span>
+            )}
+        </div>
+    );
+};
+
+export default EvalBar;
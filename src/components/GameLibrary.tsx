@@ -0,0 +1,85 @@
+import React from 'react';
+import { FolderOpen, History, Play, Trash2, X } from 'lucide-react';
+import { GameMode } from '../types';
+import { SavedGame, getGameLength } from '../lib/gameLibrary';
+import { describeResult, formatScore } from '../lib/gameResult';
+import { VARIANTS } from '../lib/variants';
+
+interface GameLibraryProps {
+    games: SavedGame[];
+    // Game left unfinished last session, offered until it's resumed, discarded or replaced
+    unfinished: SavedGame | null;
+    error: string | null;
+    onResume: () => void;
+    onDiscard: () => void;
+    onOpen: (game: SavedGame) => void;
+    onDelete: (id: string) => void;
+}
+
+const MODE_LABELS: Record<GameMode, string> = {
+    local: '2 Player',
+    ai: 'Vs AI',
+    multiplayer: 'Online',
+    spectator: 'AI vs AI',
+    puzzle: 'Puzzle',
+};
+
+const formatDate = (iso: string) =>
+    new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export default function GameLibrary({ games, unfinished, error, onResume, onDiscard, onOpen, onDelete }: GameLibraryProps) {
+    const buttonClasses = "flex items-center justify-center gap-2 text-white text-sm font-bold py-2 px-3 rounded-lg transition duration-200 shadow-md";
+
+    return (
+        <div className="p-4 bg-gray-800 rounded-xl shadow-xl border border-gray-700">
+            <h3 className="flex items-center gap-2 text-xl font-bold mb-2 text-indigo-400">
+                <History className="w-5 h-5" /> Game Library
+            </h3>
+
+            {unfinished && (
+                <div className="mb-3 p-3 bg-indigo-900/30 border border-indigo-500 rounded-lg text-sm">
+                    <p className="text-indigo-200">
+                        Unfinished game from {formatDate(unfinished.updatedAt)}: {MODE_LABELS[unfinished.mode]}, {unfinished.opponent}, {plural(getGameLength(unfinished), 'move')}.
+                    </p>
+                    <div className="flex gap-2 mt-2">
+                        <button onClick={onResume} className={`${buttonClasses} flex-1 bg-indigo-600 hover:bg-indigo-700`}>
+                            <Play className="w-4 h-4" /> Resume
+                        </button>
+                        <button onClick={onDiscard} className={`${buttonClasses} flex-1 bg-gray-700 hover:bg-gray-600`}>
+                            <X className="w-4 h-4" /> Discard
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {games.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">Finished games are saved here.</p>
+            ) : (
+                <ul className="max-h-72 overflow-y-auto flex flex-col gap-2">
+                    {games.map(game => (
+                        <li key={game.id} className="flex items-center gap-3 bg-gray-900 rounded-lg px-3 py-2">
+                            <span className="font-mono font-bold w-10 text-center">{game.result ? formatScore(game.result) : '*'}</span>
+                            <div className="flex-1 min-w-0 text-xs">
+                                <p className="font-semibold text-sm truncate">
+                                    {MODE_LABELS[game.mode]}{game.variant && game.variant !== 'standard' && ` (${VARIANTS[game.variant].name})`} · {game.opponent}
+                                </p>
+                                <p className="text-gray-400">{formatDate(game.startedAt)} · {plural(getGameLength(game), 'move')}</p>
+                                {game.result && <p className="text-gray-500 truncate">{describeResult(game.result)}</p>}
+                            </div>
+                            <button onClick={() => onOpen(game)} className="text-gray-400 hover:text-white" title="Open for review">
+                                <FolderOpen className="w-5 h-5" />
+                            </button>
+                            <button onClick={() => onDelete(game.id)} className="text-gray-400 hover:text-red-400" title="Delete">
+                                <Trash2 className="w-5 h-5" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Trophy } from 'lucide-react';
+import { PlayerProfile, RATING_POOLS, RatingPool } from '../lib/players';
+import { formatRating } from '../lib/glicko';
+
+interface LeaderboardProps {
+    pool: RatingPool;
+    setPool: (pool: RatingPool) => void;
+    entries: PlayerProfile[];
+    playerId: string | null; // highlighted when on the board
+    error: string | null;
+}
+
+const POOL_LABELS: Record<RatingPool, string> = {
+    online: 'Online',
+    ai: 'Vs AI',
+};
+
+export default function Leaderboard({ pool, setPool, entries, playerId, error }: LeaderboardProps) {
+    return (
+        <div className="p-4 bg-gray-800 rounded-xl shadow-xl border border-yellow-500/60">
+            <h3 className="flex items-center gap-2 text-xl font-bold mb-3 text-yellow-400">
+                <Trophy className="w-5 h-5" /> Leaderboard
+            </h3>
+
+            <div className="grid grid-cols-2 gap-2 mb-3" role="tablist">
+                {RATING_POOLS.map(key => (
+                    <button
+                        key={key}
+                        role="tab"
+                        aria-selected={pool === key}
+                        onClick={() => setPool(key)}
+                        className={`py-1 rounded-lg text-sm font-semibold transition duration-150 ${pool === key ? 'bg-yellow-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                    >
+                        {POOL_LABELS[key]}
+                    </button>
+                ))}
+            </div>
+
+            {entries.length === 0 ? (
+                <p className="text-sm text-gray-400">No rated games yet.</p>
+            ) : (
+                <ol className="flex flex-col gap-1 text-sm">
+                    {entries.map((entry, index) => (
+                        <li
+                            key={entry.id}
+                            className={`flex items-center gap-2 px-2 py-1 rounded ${entry.id === playerId ? 'bg-yellow-900/50 text-yellow-100' : ''}`}
+                            title={`${entry.games[pool]} rated games`}
+                        >
+                            <span className="w-6 text-right text-gray-400">{index + 1}.</span>
+                            <span className="flex-1 truncate">{entry.displayName}</span>
+                            <span className="font-mono font-bold">{formatRating(entry.ratings[pool])}</span>
+                        </li>
+                    ))}
+                </ol>
+            )}
+
+            {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+        </div>
+    );
+}
@@ -1,25 +1,79 @@
 import React from 'react';
-import { Gamepad2, Cpu, Users, ChevronDown } from 'lucide-react';
-import { GameMode, Difficulty } from '../types';
+import { Gamepad2, Cpu, Users, ChevronDown, Timer, Bot, Shuffle, Puzzle, Crown, Trophy, Cog, Upload } from 'lucide-react';
+import { GameMode, Difficulty, Color, ColorChoice, Variant, EngineChoice } from '../types';
+import { TimeControl, TIME_CONTROL_PRESETS, createCustomTimeControl } from '../lib/clock';
+import { VARIANTS } from '../lib/variants';
+import { UciEngineSettings } from '../lib/uci';
 
 interface SelectorProps {
   mode: GameMode;
   setMode: (mode: GameMode) => void;
+  variant: Variant;
+  setVariant: (variant: Variant) => void;
   difficulty: Difficulty;
   setDifficulty: (diff: Difficulty) => void;
+  colorChoice: ColorChoice;
+  setColorChoice: (choice: ColorChoice) => void;
+  spectatorLevels: Record<Color, Difficulty>;
+  setSpectatorLevels: (levels: Record<Color, Difficulty>) => void;
+  timeControl: TimeControl | null;
+  setTimeControl: (timeControl: TimeControl | null) => void;
+  isRated: boolean;
+  setIsRated: (isRated: boolean) => void;
+  canRate: boolean; // signed in, so AI games can be rated
+  engine: EngineChoice;
+  setEngine: (engine: EngineChoice) => void;
+  engineSettings: UciEngineSettings;
+  setEngineSettings: (settings: UciEngineSettings) => void;
+  engineName: string | null; // the external engine once it has started
+  engineError: string | null;
+  onLoadEngineFile: (file: File) => void;
   isGameActive: boolean;
 }
 
 const DIFFICULTY_LEVELS: Difficulty[] = ['Beginner', 'Easy', 'Hard', 'Master'];
 
+const ENGINE_CHOICES: { choice: EngineChoice, label: string }[] = [
+  { choice: 'builtin', label: 'Built-in AI' },
+  { choice: 'uci-file', label: 'UCI engine from file' },
+  { choice: 'mock', label: 'Mock UCI engine' },
+];
+
+const COLOR_CHOICES: { choice: ColorChoice, label: string }[] = [
+  { choice: 'w', label: 'White' },
+  { choice: 'b', label: 'Black' },
+  { choice: 'random', label: 'Random' },
+];
+
 export default function ModeSelector({
   mode,
   setMode,
+  variant,
+  setVariant,
   difficulty,
   setDifficulty,
+  colorChoice,
+  setColorChoice,
+  spectatorLevels,
+  setSpectatorLevels,
+  timeControl,
+  setTimeControl,
+  isRated,
+  setIsRated,
+  canRate,
+  engine,
+  setEngine,
+  engineSettings,
+  setEngineSettings,
+  engineName,
+  engineError,
+  onLoadEngineFile,
   isGameActive
 }: SelectorProps) {
   const [showDifficulty, setShowDifficulty] = React.useState(false);
+  const [showCustom, setShowCustom] = React.useState(false);
+  const [custom, setCustom] = React.useState({ base: 10, increment: 0, delay: 0 });
+  const engineFileRef = React.useRef<HTMLInputElement>(null);
 
   if (isGameActive) return null;
 
@@ -30,7 +84,7 @@ export default function ModeSelector({
       <h2 className="text-2xl font-bold text-white mb-2">Select Game Mode</h2>
       
       {/* Mode Selection */}
-      <div className="grid grid-cols-3 gap-3">
+      <div className="grid grid-cols-2 gap-3">
         <button
           onClick={() => setMode('local')}
           className={`${baseClasses} ${mode === 'local' ? 'bg-green-500 text-white scale-[1.02]' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
@@ -52,8 +106,41 @@ export default function ModeSelector({
         >
           <Users className="w-5 h-5" /> Online
         </button>
+        <button
+          onClick={() => setMode('spectator')}
+          className={`${baseClasses} ${mode === 'spectator' ? 'bg-teal-500 text-white scale-[1.02]' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+          disabled={isGameActive}
+        >
+          <Bot className="w-5 h-5" /> AI vs AI
+        </button>
+        <button
+          onClick={() => setMode('puzzle')}
+          className={`${baseClasses} col-span-2 ${mode === 'puzzle' ? 'bg-fuchsia-500 text-white scale-[1.02]' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+          disabled={isGameActive}
+        >
+          <Puzzle className="w-5 h-5" /> Puzzles
+        </button>
       </div>
 
+      {/* Variant Selector (puzzles are standard chess) */}
+      {mode !== 'puzzle' && (
+        <div>
+          <label className="flex items-center gap-2 text-sm font-semibold text-gray-200 mb-1">
+            <Crown className="w-4 h-4" /> Variant
+          </label>
+          <select
+            value={variant}
+            onChange={e => setVariant(e.target.value as Variant)}
+            className="w-full bg-gray-800 border border-gray-600 text-white rounded-lg px-3 py-2 focus:outline-none focus:border-indigo-500"
+          >
+            {(Object.keys(VARIANTS) as Variant[]).map(key => (
+              <option key={key} value={key}>{VARIANTS[key].name}</option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-400">{VARIANTS[variant].description}</p>
+        </div>
+      )}
+
       {/* AI Difficulty Selector (Only visible if mode is AI) */}
       {mode === 'ai' && (
         <div className="mt-4 relative">
@@ -83,10 +170,200 @@ export default function ModeSelector({
         </div>
       )}
 
-      {/* Multiplayer Placeholder */}
+      {/* Side to Play Against the AI */}
+      {mode === 'ai' && (
+        <div>
+          <p className="text-sm font-semibold text-gray-200 mb-1">Play as</p>
+          <div className="grid grid-cols-3 gap-2">
+            {COLOR_CHOICES.map(({ choice, label }) => (
+              <button
+                key={choice}
+                onClick={() => setColorChoice(choice)}
+                className={`flex items-center justify-center gap-1 py-2 rounded-lg font-semibold transition duration-150 ${colorChoice === choice ? 'bg-indigo-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              >
+                {choice === 'random' ? <Shuffle className="w-4 h-4" /> : <span className={`w-3 h-3 rounded-full border border-gray-500 ${choice === 'w' ? 'bg-white' : 'bg-black'}`} />}
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Rated Games Against the AI (standard chess only, each level plays at a fixed rating) */}
+      {mode === 'ai' && canRate && (
+        <label className="flex items-center gap-2 text-sm font-semibold text-gray-200">
+          <input
+            type="checkbox"
+            checked={isRated}
+            disabled={variant !== 'standard'}
+            onChange={e => setIsRated(e.target.checked)}
+            className="accent-indigo-500"
+          />
+          <Trophy className="w-4 h-4" /> Rated game
+          {variant !== 'standard' && <span className="text-xs font-normal text-gray-400">(standard chess only)</span>}
+        </label>
+      )}
+
+      {/* AI Levels for AI vs AI */}
+      {mode === 'spectator' && (
+        <div className="grid grid-cols-2 gap-2">
+          {(['w', 'b'] as Color[]).map(color => (
+            <label key={color} className="flex flex-col gap-1 text-sm font-semibold text-gray-200">
+              {color === 'w' ? 'White AI' : 'Black AI'}
+              <select
+                value={spectatorLevels[color]}
+                onChange={e => setSpectatorLevels({ ...spectatorLevels, [color]: e.target.value as Difficulty })}
+                className="bg-gray-800 border border-gray-600 text-white rounded-lg px-3 py-2 focus:outline-none focus:border-teal-500"
+              >
+                {DIFFICULTY_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {/* Engine Picker (external engines play standard chess, and Chess960 if they support it) */}
+      {(mode === 'ai' || mode === 'spectator') && (
+        <div>
+          <label className="flex items-center gap-2 text-sm font-semibold text-gray-200 mb-1">
+            <Cog className="w-4 h-4" /> Engine
+          </label>
+          <select
+            value={engine}
+            onChange={e => setEngine(e.target.value as EngineChoice)}
+            className="w-full bg-gray-800 border border-gray-600 text-white rounded-lg px-3 py-2 focus:outline-none focus:border-indigo-500"
+          >
+            {ENGINE_CHOICES.map(({ choice, label }) => <option key={choice} value={choice}>{label}</option>)}
+          </select>
+
+          {engine === 'uci-file' && (
+            <>
+              <button
+                onClick={() => engineFileRef.current?.click()}
+                className="mt-2 w-full flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold py-2 rounded-lg transition duration-150"
+              >
+                <Upload className="w-4 h-4" /> {engineName ? 'Load Another Engine' : 'Load Engine Script'}
+              </button>
+              <input
+                ref={engineFileRef}
+                type="file"
+                accept=".js"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  e.target.value = ''; // Allow loading the same file again
+                  if (file) onLoadEngineFile(file);
+                }}
+              />
+              <p className="mt-1 text-xs text-gray-400">A single-file UCI engine build that runs as a Web Worker, such as Stockfish compiled to JavaScript or WebAssembly.</p>
+            </>
+          )}
+
+          {engine !== 'builtin' && (
+            <div className="mt-2 grid grid-cols-3 gap-2 text-xs text-gray-300">
+              <label className="flex flex-col gap-1">
+                Skill Level
+                <input
+                  type="number"
+                  min={0}
+                  max={20}
+                  value={engineSettings.skillLevel}
+                  onChange={e => setEngineSettings({ ...engineSettings, skillLevel: Math.min(20, Math.max(0, Number(e.target.value))) })}
+                  className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Threads
+                <input
+                  type="number"
+                  min={1}
+                  max={navigator.hardwareConcurrency || 1}
+                  value={engineSettings.threads}
+                  onChange={e => setEngineSettings({ ...engineSettings, threads: Math.max(1, Number(e.target.value)) })}
+                  className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Move time (s)
+                <input
+                  type="number"
+                  min={0.1}
+                  step={0.1}
+                  value={engineSettings.moveTimeMs / 1000}
+                  onChange={e => setEngineSettings({ ...engineSettings, moveTimeMs: Math.max(100, Number(e.target.value) * 1000) })}
+                  className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white"
+                />
+              </label>
+            </div>
+          )}
+          {engine !== 'builtin' && (
+            <p className="mt-1 text-xs text-gray-400">
+              {engineName ? `Using ${engineName}.` : 'Until the engine is running, the built-in AI plays.'}
+              {variant !== 'standard' && variant !== 'chess960' && ` The built-in AI plays ${VARIANTS[variant].name}.`}
+            </p>
+          )}
+          {engineError && <p className="mt-1 text-xs text-red-400">{engineError}</p>}
+        </div>
+      )}
+
+      {/* Time Control Selector (AI vs AI games are untimed so they can be paused, puzzles have no clock) */}
+      {mode !== 'spectator' && mode !== 'puzzle' && (
+        <div className="mt-2">
+          <label className="flex items-center gap-2 text-sm font-semibold text-gray-200 mb-1">
+            <Timer className="w-4 h-4" /> Time Control
+          </label>
+          <select
+            value={showCustom ? 'custom' : timeControl?.name ?? 'untimed'}
+            onChange={e => {
+              const value = e.target.value;
+              setShowCustom(value === 'custom');
+              if (value === 'untimed') setTimeControl(null);
+              else if (value !== 'custom') setTimeControl(TIME_CONTROL_PRESETS.find(p => p.name === value) ?? null);
+            }}
+            className="w-full bg-gray-800 border border-gray-600 text-white rounded-lg px-3 py-2 focus:outline-none focus:border-indigo-500"
+          >
+            <option value="untimed">No clock</option>
+            {TIME_CONTROL_PRESETS.map(preset => (
+              <option key={preset.name} value={preset.name}>{preset.name}</option>
+            ))}
+            {timeControl && !TIME_CONTROL_PRESETS.some(p => p.name === timeControl.name) && (
+              <option value={timeControl.name}>{timeControl.name}</option>
+            )}
+            <option value="custom">Custom...</option>
+          </select>
+
+          {showCustom && (
+            <div className="mt-2 grid grid-cols-3 gap-2 text-xs text-gray-300">
+              {([['base', 'Minutes'], ['increment', 'Increment (s)'], ['delay', 'Delay (s)']] as const).map(([field, label]) => (
+                <label key={field} className="flex flex-col gap-1">
+                  {label}
+                  <input
+                    type="number"
+                    min={field === 'base' ? 1 : 0}
+                    value={custom[field]}
+                    onChange={e => setCustom({ ...custom, [field]: Math.max(0, Number(e.target.value)) })}
+                    className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white"
+                  />
+                </label>
+              ))}
+              <button
+                onClick={() => {
+                  setTimeControl(createCustomTimeControl(Math.max(1, custom.base), custom.increment, custom.delay));
+                  setShowCustom(false);
+                }}
+                className="col-span-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 rounded-lg transition duration-200"
+              >
+                Use Custom Time Control
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Multiplayer Hint */}
       {mode === 'multiplayer' && (
         <div className="mt-4 p-3 bg-amber-900/50 border border-amber-500 rounded-lg text-sm text-amber-200">
-          Multiplayer Mode selected. Requires Supabase connection and room logic to implement actual gameplay.
+          Create a room and share its code, or join a friend's room. Colors are assigned when the room is created.
         </div>
       )}
     </div>
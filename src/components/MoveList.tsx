@@ -0,0 +1,197 @@
+import React from 'react';
+import { ChevronFirst, ChevronLast, ChevronLeft, ChevronRight, Download, GitBranch, Redo2, Undo2, Upload } from 'lucide-react';
+import { MoveHistory, MoveNode, ROOT_ID, canRedo, canTakeBack, isViewingHistory } from '../lib/moveTree';
+import { CLASSIFICATION_SYMBOLS, MoveClassification } from '../lib/analysis';
+
+interface MoveListProps {
+    history: MoveHistory;
+    error: string | null;
+    canImport: boolean;
+    annotations?: Record<number, MoveClassification>; // by node id, once the game has been analysed
+    onSelectNode: (id: number) => void;
+    onStart: () => void;
+    onBack: () => void;
+    onForward: () => void;
+    onLive: () => void;
+    // Editing callbacks are left out when the game can't be changed locally (online games)
+    onTakeBack?: () => void;
+    onRedo?: () => void;
+    onBranch?: () => void;
+    onExport: () => void;
+    onImport: (pgnText: string) => void;
+}
+
+interface MoveRow {
+    number: number;
+    white?: MoveNode;
+    black?: MoveNode;
+    variationIds: number[]; // side lines branching off at this row's moves
+}
+
+const ANNOTATION_COLORS: Record<MoveClassification, string> = {
+    best: 'text-green-400',
+    good: '',
+    inaccuracy: 'text-yellow-300',
+    mistake: 'text-orange-400',
+    blunder: 'text-red-400',
+};
+
+export default function MoveList({
+    history,
+    error,
+    canImport,
+    annotations = {},
+    onSelectNode,
+    onStart,
+    onBack,
+    onForward,
+    onLive,
+    onTakeBack,
+    onRedo,
+    onBranch,
+    onExport,
+    onImport,
+}: MoveListProps) {
+    const fileInputRef = React.useRef<HTMLInputElement>(null);
+    const currentRef = React.useRef<HTMLButtonElement>(null);
+    const { nodes, currentId, liveId } = history;
+
+    // Keep the move shown on the board in view
+    React.useEffect(() => {
+        currentRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [currentId, nodes.length]);
+
+    const isWhiteMove = (node: MoveNode) => nodes[node.parentId!].position.turn === 'w';
+    const moveNumber = (node: MoveNode) => nodes[node.parentId!].position.fullmoveNumber;
+
+    // Main line as numbered rows; a row is closed early when a variation has to be shown after it
+    const rows: MoveRow[] = [];
+    for (let id: number | undefined = nodes[ROOT_ID].childIds[0]; id !== undefined; id = nodes[id].childIds[0]) {
+        const node = nodes[id];
+        let row = rows[rows.length - 1];
+        if (isWhiteMove(node) || !row || row.black || row.variationIds.length > 0) {
+            row = { number: moveNumber(node), variationIds: [] };
+            rows.push(row);
+        }
+        if (isWhiteMove(node)) row.white = node;
+        else row.black = node;
+        row.variationIds.push(...nodes[node.parentId!].childIds.slice(1));
+    }
+
+    const renderMove = (node: MoveNode) => {
+        const classification = annotations[node.id];
+        const annotationColor = classification && node.id !== currentId ? ANNOTATION_COLORS[classification] : '';
+        return (
+        <button
+            key={node.id}
+            ref={node.id === currentId ? currentRef : undefined}
+            onClick={() => onSelectNode(node.id)}
+            className={`px-1 rounded text-left transition duration-100 ${node.id === currentId ? 'bg-indigo-600 text-white' : 'hover:bg-gray-700'} ${node.id === liveId ? 'underline decoration-dotted' : ''} ${annotationColor}`}
+            title={classification}
+        >
+            {node.san}{classification && CLASSIFICATION_SYMBOLS[classification]}
+        </button>
+        );
+    };
+
+    // A side line in inline form, e.g. "(12... Nf6 13. e5 (13. Bg5 h6) Nd5)"
+    const renderVariation = (startId: number): React.ReactNode => {
+        const parts: React.ReactNode[] = [];
+        for (let id: number | undefined = startId; id !== undefined; id = nodes[id].childIds[0]) {
+            const node = nodes[id];
+            if (id !== startId) {
+                nodes[node.parentId!].childIds.slice(1).forEach(altId => parts.push(renderVariation(altId)));
+            }
+            if (isWhiteMove(node)) parts.push(<span key={`n${id}`} className="text-gray-500">{moveNumber(node)}.</span>);
+            else if (id === startId) parts.push(<span key={`n${id}`} className="text-gray-500">{moveNumber(node)}...</span>);
+            parts.push(renderMove(node));
+        }
+        return (
+            <span key={`v${startId}`} className="inline-flex flex-wrap gap-x-1 text-gray-400">
+                ({parts})
+            </span>
+        );
+    };
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow re-importing the same file
+        if (file) file.text().then(onImport);
+    };
+
+    const navButtonClasses = "flex-1 flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white py-1 rounded-lg transition duration-200 disabled:opacity-40";
+    const baseButtonClasses = "flex-1 flex items-center justify-center gap-2 text-white text-sm font-bold py-2 px-3 rounded-lg transition duration-200 shadow-md disabled:opacity-50";
+    const buttonClasses = `${baseButtonClasses} bg-gray-700 hover:bg-gray-600`;
+    const atStart = currentId === ROOT_ID;
+    const atLive = currentId === liveId;
+
+    return (
+        <div className="p-4 bg-gray-800 rounded-xl shadow-xl border border-gray-700">
+            <h3 className="text-xl font-bold mb-2 text-indigo-400">Moves</h3>
+
+            <div className="max-h-64 overflow-y-auto font-mono text-sm bg-gray-900 rounded-lg p-2">
+                {rows.length === 0 ? (
+                    <p className="text-gray-500 italic">No moves yet.</p>
+                ) : (
+                    rows.map((row, index) => (
+                        <React.Fragment key={index}>
+                            <div className="grid grid-cols-[2.5rem_1fr_1fr] gap-1 py-0.5">
+                                <span className="text-gray-500">{row.number}.</span>
+                                {row.white ? renderMove(row.white) : <span className="text-gray-500">...</span>}
+                                {row.black ? renderMove(row.black) : <span />}
+                            </div>
+                            {row.variationIds.length > 0 && (
+                                <div className="pl-10 py-0.5 flex flex-col gap-0.5 text-xs">
+                                    {row.variationIds.map(renderVariation)}
+                                </div>
+                            )}
+                        </React.Fragment>
+                    ))
+                )}
+            </div>
+
+            {/* History Navigation (also on the Left/Right/Home/End keys) */}
+            <div className="flex gap-1 mt-3">
+                <button onClick={onStart} disabled={atStart} className={navButtonClasses} title="First move (Home)"><ChevronFirst className="w-5 h-5" /></button>
+                <button onClick={onBack} disabled={atStart} className={navButtonClasses} title="Previous move (Left)"><ChevronLeft className="w-5 h-5" /></button>
+                <button onClick={onForward} disabled={nodes[currentId].childIds.length === 0} className={navButtonClasses} title="Next move (Right)"><ChevronRight className="w-5 h-5" /></button>
+                <button onClick={onLive} disabled={atLive} className={navButtonClasses} title="Live position (End)"><ChevronLast className="w-5 h-5" /></button>
+            </div>
+
+            {(onTakeBack || onRedo || onBranch) && (
+                <div className="flex gap-2 mt-2">
+                    {isViewingHistory(history) && onBranch ? (
+                        <button onClick={onBranch} className={`${baseButtonClasses} bg-indigo-600 hover:bg-indigo-700`}>
+                            <GitBranch className="w-4 h-4" /> Play From Here
+                        </button>
+                    ) : (
+                        <>
+                            {onTakeBack && (
+                                <button onClick={onTakeBack} disabled={!canTakeBack(history)} className={buttonClasses}>
+                                    <Undo2 className="w-4 h-4" /> Takeback
+                                </button>
+                            )}
+                            {onRedo && (
+                                <button onClick={onRedo} disabled={!canRedo(history)} className={buttonClasses}>
+                                    <Redo2 className="w-4 h-4" /> Redo
+                                </button>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+
+            <div className="flex gap-2 mt-2">
+                <button onClick={onExport} disabled={liveId === ROOT_ID} className={buttonClasses}>
+                    <Download className="w-4 h-4" /> Export PGN
+                </button>
+                <button onClick={() => fileInputRef.current?.click()} disabled={!canImport} className={buttonClasses}>
+                    <Upload className="w-4 h-4" /> Import PGN
+                </button>
+                <input ref={fileInputRef} type="file" accept=".pgn,text/plain" className="hidden" onChange={handleFileChange} />
+            </div>
+
+            {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,46 @@
+import React from 'react';
+import { BookOpen, RotateCcw, Upload } from 'lucide-react';
+import { OpeningBook } from '../lib/openingBook';
+
+interface OpeningBookPanelProps {
+    book: OpeningBook | null;
+    isBundled: boolean;
+    error: string | null;
+    onUpload: (file: File) => void;
+    onUseBundled: () => void;
+}
+
+export default function OpeningBookPanel({ book, isBundled, error, onUpload, onUseBundled }: OpeningBookPanelProps) {
+    const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow loading the same file again
+        if (file) onUpload(file);
+    };
+
+    const buttonClasses = "flex-1 flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white text-sm font-bold py-2 px-3 rounded-lg transition duration-200 shadow-md disabled:opacity-50";
+
+    return (
+        <div className="p-4 bg-gray-800 rounded-xl shadow-xl border border-gray-700">
+            <h3 className="flex items-center gap-2 text-xl font-bold mb-2 text-indigo-400">
+                <BookOpen className="w-5 h-5" /> Opening Book
+            </h3>
+            <p className="text-sm text-gray-300 mb-3">
+                {book
+                    ? <>Using <span className="font-mono">{book.name}</span> ({book.size.toLocaleString()} moves). Stronger levels stay in book longer.</>
+                    : "No book loaded: the AI searches from the first move."}
+            </p>
+            <div className="flex gap-2">
+                <button onClick={() => fileInputRef.current?.click()} className={buttonClasses}>
+                    <Upload className="w-4 h-4" /> Load .bin
+                </button>
+                <button onClick={onUseBundled} disabled={isBundled} className={buttonClasses}>
+                    <RotateCcw className="w-4 h-4" /> Default Book
+                </button>
+                <input ref={fileInputRef} type="file" accept=".bin" className="hidden" onChange={handleFileChange} />
+            </div>
+            {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+        </div>
+    );
+}
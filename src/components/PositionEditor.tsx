@@ -0,0 +1,259 @@
+import React from 'react';
+import { Eraser, Play, Cpu, X, Trash2, RotateCcw, Copy } from 'lucide-react';
+import { BoardState, CastlingRights, Color, Piece, Position, Square } from '../types';
+import { EMPTY_BOARD, INITIAL_POSITION } from '../lib/rules';
+import { FenError, getPositionErrors, parseFen, positionToFen, restrictCastlingRights } from '../lib/fen';
+import { PIECE_MAP } from './Board';
+
+interface PositionEditorProps {
+    initialPosition: Position;
+    onStart: (position: Position, mode: 'local' | 'ai') => void;
+    onCancel: () => void;
+}
+
+type Tool = Piece | 'erase';
+
+interface DragPayload {
+    piece: Piece;
+    from: Square | null; // null when dragged from the palette
+}
+
+const DRAG_TYPE = 'application/x-chess-piece';
+
+const PALETTE: Piece[][] = [
+    ['wK', 'wQ', 'wR', 'wB', 'wN', 'wP'],
+    ['bK', 'bQ', 'bR', 'bB', 'bN', 'bP'],
+];
+
+const CASTLING_LABELS: { right: keyof CastlingRights, label: string }[] = [
+    { right: 'wK', label: 'White O-O' },
+    { right: 'wQ', label: 'White O-O-O' },
+    { right: 'bK', label: 'Black O-O' },
+    { right: 'bQ', label: 'Black O-O-O' },
+];
+
+export default function PositionEditor({ initialPosition, onStart, onCancel }: PositionEditorProps) {
+    const [board, setBoard] = React.useState<BoardState>(initialPosition.board);
+    const [turn, setTurn] = React.useState<Color>(initialPosition.turn);
+    const [castling, setCastling] = React.useState<CastlingRights>(initialPosition.castling);
+    // En passant and move counters only survive until the placement is edited
+    const [extras, setExtras] = React.useState({
+        enPassant: initialPosition.enPassant,
+        halfmoveClock: initialPosition.halfmoveClock,
+        fullmoveNumber: initialPosition.fullmoveNumber,
+    });
+    const [tool, setTool] = React.useState<Tool | null>(null);
+    const [fenInput, setFenInput] = React.useState('');
+    const [fenError, setFenError] = React.useState<string | null>(null);
+
+    const position: Position = {
+        board,
+        turn,
+        castling: restrictCastlingRights(board, castling),
+        ...extras,
+    };
+    const errors = getPositionErrors(position);
+    const fen = positionToFen(position);
+    const castlingAvailable = restrictCastlingRights(board, { wK: true, wQ: true, bK: true, bQ: true });
+
+    const loadPosition = (next: Position) => {
+        setBoard(next.board);
+        setTurn(next.turn);
+        setCastling(next.castling);
+        setExtras({ enPassant: next.enPassant, halfmoveClock: next.halfmoveClock, fullmoveNumber: next.fullmoveNumber });
+    };
+
+    const editBoard = (edit: (next: BoardState) => void) => {
+        setBoard(prev => {
+            const next = prev.map(row => [...row]);
+            edit(next);
+            return next;
+        });
+        setExtras({ enPassant: null, halfmoveClock: 0, fullmoveNumber: 1 });
+    };
+
+    const handleSquareClick = (row: number, col: number) => {
+        if (!tool) return;
+        editBoard(next => { next[row][col] = tool === 'erase' ? null : tool; });
+    };
+
+    const handleDragStart = (event: React.DragEvent, payload: DragPayload) => {
+        event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(payload));
+        event.dataTransfer.effectAllowed = payload.from ? 'move' : 'copy';
+    };
+
+    const handleDrop = (event: React.DragEvent, row: number, col: number) => {
+        event.preventDefault();
+        const data = event.dataTransfer.getData(DRAG_TYPE);
+        if (!data) return;
+        const { piece, from }: DragPayload = JSON.parse(data);
+        editBoard(next => {
+            if (from) next[from.row][from.col] = null;
+            next[row][col] = piece;
+        });
+    };
+
+    // A board piece dropped anywhere off the board is removed
+    const handleDragEnd = (event: React.DragEvent, from: Square) => {
+        if (event.dataTransfer.dropEffect === 'none') editBoard(next => { next[from.row][from.col] = null; });
+    };
+
+    const handleLoadFen = () => {
+        try {
+            loadPosition(parseFen(fenInput));
+            setFenError(null);
+        } catch (error) {
+            setFenError(error instanceof FenError ? error.message : String(error));
+        }
+    };
+
+    const renderPiece = (piece: Piece) => {
+        const pieceData = PIECE_MAP[piece!];
+        return <span className={`text-4xl font-serif ${pieceData.color === 'white' ? 'text-white' : 'text-black'}`}>{pieceData.char}</span>;
+    };
+
+    const toolClasses = (active: boolean) =>
+        `w-12 h-12 flex items-center justify-center rounded-lg transition duration-150 cursor-grab ${active ? 'bg-yellow-400 ring-2 ring-yellow-600' : 'bg-[#f0d9b5] hover:bg-yellow-200'}`;
+
+    const buttonClasses = "flex items-center justify-center gap-2 font-bold py-2 px-4 rounded-lg transition duration-200 shadow-md disabled:opacity-50";
+
+    return (
+        <div className="flex flex-col xl:flex-row gap-6 w-full max-w-4xl">
+            {/* Editable Board */}
+            <div className="w-full max-w-xl aspect-square shadow-2xl border-8 border-gray-800 rounded-lg overflow-hidden">
+                {board.map((rowArr, rowIndex) => (
+                    <div key={rowIndex} className="flex flex-row flex-nowrap h-[12.5%]">
+                        {rowArr.map((piece, colIndex) => (
+                            <div
+                                key={colIndex}
+                                className={`w-[12.5%] h-full flex items-center justify-center ${(rowIndex + colIndex) % 2 === 0 ? 'bg-[#f0d9b5]' : 'bg-[#b58863]'} ${tool ? 'cursor-pointer' : ''}`}
+                                onClick={() => handleSquareClick(rowIndex, colIndex)}
+                                onDragOver={e => e.preventDefault()}
+                                onDrop={e => handleDrop(e, rowIndex, colIndex)}
+                            >
+                                {piece && (
+                                    <div
+                                        draggable
+                                        className="cursor-grab"
+                                        onDragStart={e => handleDragStart(e, { piece, from: { row: rowIndex, col: colIndex } })}
+                                        onDragEnd={e => handleDragEnd(e, { row: rowIndex, col: colIndex })}
+                                    >
+                                        {renderPiece(piece)}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                ))}
+            </div>
+
+            {/* Editor Controls */}
+            <div className="flex flex-col gap-4 p-4 bg-gray-800 rounded-xl shadow-xl border border-gray-700 xl:w-80">
+                <h3 className="text-xl font-bold text-indigo-400">Set Up Position</h3>
+                <p className="text-xs text-gray-400">Drag pieces onto the board, or pick one and click squares. Drag a piece off the board to remove it.</p>
+
+                <div className="flex flex-col gap-2">
+                    {PALETTE.map((row, index) => (
+                        <div key={index} className="flex gap-1">
+                            {row.map(piece => (
+                                <div
+                                    key={piece}
+                                    draggable
+                                    onDragStart={e => handleDragStart(e, { piece, from: null })}
+                                    onClick={() => setTool(tool === piece ? null : piece)}
+                                    className={toolClasses(tool === piece)}
+                                >
+                                    {renderPiece(piece)}
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                    <button onClick={() => setTool(tool === 'erase' ? null : 'erase')} className={`${toolClasses(tool === 'erase')} w-auto px-3 gap-2 text-gray-800 font-semibold`}>
+                        <Eraser className="w-5 h-5" /> Erase
+                    </button>
+                </div>
+
+                <div className="flex gap-2">
+                    <button onClick={() => loadPosition({ ...INITIAL_POSITION, board: EMPTY_BOARD })} className={`${buttonClasses} flex-1 bg-gray-700 hover:bg-gray-600 text-white text-sm`}>
+                        <Trash2 className="w-4 h-4" /> Empty
+                    </button>
+                    <button onClick={() => loadPosition(INITIAL_POSITION)} className={`${buttonClasses} flex-1 bg-gray-700 hover:bg-gray-600 text-white text-sm`}>
+                        <RotateCcw className="w-4 h-4" /> Start Position
+                    </button>
+                </div>
+
+                <div>
+                    <p className="text-sm font-semibold mb-1">Side to move</p>
+                    <div className="grid grid-cols-2 gap-2">
+                        {(['w', 'b'] as Color[]).map(color => (
+                            <button
+                                key={color}
+                                onClick={() => setTurn(color)}
+                                className={`py-1 rounded-lg font-semibold transition duration-150 ${turn === color ? 'bg-indigo-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                            >
+                                {color === 'w' ? 'White' : 'Black'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <p className="text-sm font-semibold mb-1">Castling</p>
+                    <div className="grid grid-cols-2 gap-1 text-sm">
+                        {CASTLING_LABELS.map(({ right, label }) => (
+                            <label key={right} className={`flex items-center gap-2 ${castlingAvailable[right] ? '' : 'text-gray-500'}`}>
+                                <input
+                                    type="checkbox"
+                                    checked={position.castling[right]}
+                                    disabled={!castlingAvailable[right]}
+                                    onChange={e => setCastling({ ...castling, [right]: e.target.checked })}
+                                />
+                                {label}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <p className="text-sm font-semibold mb-1">FEN</p>
+                    <div className="flex items-center gap-2 bg-gray-900 rounded-lg px-2 py-1">
+                        <code className="flex-1 text-xs break-all">{fen}</code>
+                        <button onClick={() => navigator.clipboard?.writeText(fen)} className="text-gray-400 hover:text-white" title="Copy FEN">
+                            <Copy className="w-4 h-4" />
+                        </button>
+                    </div>
+                    <div className="flex gap-2 mt-2">
+                        <input
+                            value={fenInput}
+                            onChange={e => setFenInput(e.target.value)}
+                            placeholder="Paste a FEN"
+                            className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded-lg px-2 py-1 text-xs font-mono focus:outline-none focus:border-indigo-500"
+                        />
+                        <button onClick={handleLoadFen} disabled={!fenInput.trim()} className={`${buttonClasses} py-1 bg-gray-700 hover:bg-gray-600 text-white text-sm`}>
+                            Load
+                        </button>
+                    </div>
+                    {fenError && <p className="mt-1 text-xs text-red-400">{fenError}</p>}
+                </div>
+
+                {errors.length > 0 && (
+                    <ul className="text-sm text-red-400 list-disc pl-5">
+                        {errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                )}
+
+                <div className="grid grid-cols-2 gap-2">
+                    <button onClick={() => onStart(position, 'local')} disabled={errors.length > 0} className={`${buttonClasses} bg-green-600 hover:bg-green-700 text-white`}>
+                        <Play className="w-4 h-4" /> 2 Player
+                    </button>
+                    <button onClick={() => onStart(position, 'ai')} disabled={errors.length > 0} className={`${buttonClasses} bg-indigo-600 hover:bg-indigo-700 text-white`}>
+                        <Cpu className="w-4 h-4" /> Vs AI
+                    </button>
+                </div>
+                <button onClick={onCancel} className={`${buttonClasses} bg-gray-700 hover:bg-gray-600 text-white`}>
+                    <X className="w-4 h-4" /> Cancel
+                </button>
+            </div>
+        </div>
+    );
+}
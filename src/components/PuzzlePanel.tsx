@@ -0,0 +1,117 @@
+import React from 'react';
+import { Eye, Flame, Lightbulb, Puzzle as PuzzleIcon, RotateCcw, SkipForward, Upload } from 'lucide-react';
+import { PuzzleSession } from '../lib/puzzles';
+import { PuzzleStats, getSolveRate } from '../lib/puzzleStats';
+
+interface PuzzlePanelProps {
+    session: PuzzleSession | null;
+    stats: PuzzleStats;
+    setName: string | null;
+    puzzleCount: number;
+    error: string | null;
+    canHint: boolean;
+    onHint: () => void;
+    onShowSolution: () => void;
+    onRetry: () => void;
+    onNext: () => void;
+    onLoadSet: (file: File) => void;
+}
+
+export default function PuzzlePanel({
+    session,
+    stats,
+    setName,
+    puzzleCount,
+    error,
+    canHint,
+    onHint,
+    onShowSolution,
+    onRetry,
+    onNext,
+    onLoadSet,
+}: PuzzlePanelProps) {
+    const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow loading the same file again
+        if (file) onLoadSet(file);
+    };
+
+    const buttonClasses = "flex-1 flex items-center justify-center gap-2 text-white text-sm font-bold py-2 px-3 rounded-lg transition duration-200 shadow-md disabled:opacity-50";
+    const solveRate = getSolveRate(stats);
+    const puzzle = session?.puzzle;
+
+    return (
+        <div className="p-4 bg-gray-800 rounded-xl shadow-xl border border-fuchsia-500/60">
+            <h3 className="flex items-center gap-2 text-xl font-bold mb-3 text-fuchsia-400">
+                <PuzzleIcon className="w-5 h-5" /> Puzzles
+            </h3>
+
+            {/* Progress */}
+            <div className="grid grid-cols-3 gap-2 text-center mb-3">
+                <div className="bg-gray-900 rounded-lg py-2">
+                    <p className="text-xs text-gray-400">Rating</p>
+                    <p className="text-lg font-bold font-mono">{stats.rating}</p>
+                </div>
+                <div className="bg-gray-900 rounded-lg py-2" title={`Best streak: ${stats.bestStreak}`}>
+                    <p className="text-xs text-gray-400">Streak</p>
+                    <p className="flex items-center justify-center gap-1 text-lg font-bold font-mono">
+                        <Flame className={`w-4 h-4 ${stats.streak > 0 ? 'text-orange-400' : 'text-gray-600'}`} /> {stats.streak}
+                    </p>
+                </div>
+                <div className="bg-gray-900 rounded-lg py-2" title={`${stats.solved} of ${stats.attempts} solved`}>
+                    <p className="text-xs text-gray-400">Solved</p>
+                    <p className="text-lg font-bold font-mono">{solveRate === null ? '-' : `${Math.round(solveRate * 100)}%`}</p>
+                </div>
+            </div>
+
+            {/* Current Puzzle (themes would give it away, so they show once it's over) */}
+            {session && puzzle && (
+                <div className="text-sm mb-3">
+                    <p className="text-gray-300">
+                        Puzzle <span className="font-mono">{puzzle.id}</span> · rated <span className="font-bold">{puzzle.rating}</span>
+                        {session.result && (
+                            <span className={`ml-2 font-bold ${session.result === 'solved' ? 'text-green-400' : 'text-red-400'}`}>
+                                {session.result === 'solved' ? 'Solved' : 'Failed'}
+                            </span>
+                        )}
+                    </p>
+                    {session.isComplete && puzzle.themes.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                            {puzzle.themes.map(theme => (
+                                <span key={theme} className="px-2 py-0.5 rounded-full bg-fuchsia-900/60 text-fuchsia-200 text-xs">{theme}</span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="flex gap-2">
+                <button onClick={onHint} disabled={!canHint} className={`${buttonClasses} bg-gray-700 hover:bg-gray-600`}>
+                    <Lightbulb className="w-4 h-4" /> Hint
+                </button>
+                <button onClick={onShowSolution} disabled={!session || session.isComplete} className={`${buttonClasses} bg-gray-700 hover:bg-gray-600`}>
+                    <Eye className="w-4 h-4" /> Solution
+                </button>
+            </div>
+            <div className="flex gap-2 mt-2">
+                <button onClick={onRetry} disabled={!session} className={`${buttonClasses} bg-gray-700 hover:bg-gray-600`}>
+                    <RotateCcw className="w-4 h-4" /> Retry
+                </button>
+                <button onClick={onNext} disabled={puzzleCount === 0} className={`${buttonClasses} bg-fuchsia-600 hover:bg-fuchsia-700`}>
+                    <SkipForward className="w-4 h-4" /> Next
+                </button>
+            </div>
+
+            <div className="flex items-center gap-2 mt-3 text-xs text-gray-400">
+                <span className="flex-1">{setName ? `${setName}: ${puzzleCount} puzzles` : 'Loading puzzles...'}</span>
+                <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 text-gray-300 hover:text-white">
+                    <Upload className="w-3 h-3" /> Load set
+                </button>
+                <input ref={fileInputRef} type="file" accept=".json,.csv" className="hidden" onChange={handleFileChange} />
+            </div>
+            {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+        </div>
+    );
+}
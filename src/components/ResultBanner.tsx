@@ -0,0 +1,23 @@
+import React from 'react';
+import { Scale, Trophy } from 'lucide-react';
+import { GameResult } from '../types';
+import { describeResult, formatScore } from '../lib/gameResult';
+
+interface ResultBannerProps {
+    result: GameResult;
+}
+
+const ResultBanner: React.FC<ResultBannerProps> = ({ result }) => {
+    const Icon = result.winner ? Trophy : Scale;
+    return (
+        <div className="w-full max-w-xl flex items-center gap-4 px-4 py-3 bg-indigo-900/60 border border-indigo-500 rounded-lg shadow-md">
+            <Icon className="w-8 h-8 text-yellow-300 shrink-0" />
+            <div>
+                <p className="text-2xl font-extrabold font-mono">{formatScore(result)}</p>
+                <p className="text-sm text-indigo-200">{describeResult(result)}</p>
+            </div>
+        </div>
+    );
+};
+
+export default ResultBanner;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { Copy, LogIn, LogOut, Plus, Wifi, WifiOff } from 'lucide-react';
+import { Color } from '../types';
+import { ConnectionStatus, RoomState, isRoomFull } from '../lib/rooms';
+
+interface RoomPanelProps {
+    room: RoomState | null;
+    playerColor: Color | null;
+    connection: ConnectionStatus;
+    connectionError: string | null;
+    error: string | null;
+    isBusy: boolean;
+    onCreate: () => void;
+    onJoin: (code: string) => void;
+    onLeave: () => void;
+}
+
+const CONNECTION_LABELS: Record<ConnectionStatus, string> = {
+    connecting: 'Connecting...',
+    connected: 'Connected',
+    reconnecting: 'Connection lost. Reconnecting...',
+    offline: 'Offline',
+};
+
+export default function RoomPanel({ room, playerColor, connection, connectionError, error, isBusy, onCreate, onJoin, onLeave }: RoomPanelProps) {
+    const [joinCode, setJoinCode] = React.useState('');
+
+    const buttonClasses = "flex items-center justify-center gap-2 font-bold py-2 px-4 rounded-lg transition duration-200 shadow-md disabled:opacity-50";
+
+    return (
+        <div className="p-4 bg-gray-800 rounded-xl shadow-xl border border-amber-500/60">
+            <h3 className="text-xl font-bold mb-3 text-amber-400">Online Room</h3>
+
+            {room ? (
+                <div className="flex flex-col gap-3">
+                    <div className="flex items-center justify-between bg-gray-900 rounded-lg px-3 py-2">
+                        <span className="font-mono text-2xl tracking-[0.3em]">{room.code}</span>
+                        <button
+                            onClick={() => navigator.clipboard?.writeText(room.code)}
+                            className="text-gray-400 hover:text-white transition duration-150"
+                            title="Copy room code"
+                        >
+                            <Copy className="w-5 h-5" />
+                        </button>
+                    </div>
+                    <p className="text-sm">
+                        You play <span className="font-bold">{playerColor === 'w' ? 'White' : 'Black'}</span>.{' '}
+                        {isRoomFull(room) ? 'Opponent connected.' : 'Share the code with your opponent.'}
+                    </p>
+                    <p className={`flex items-center gap-2 text-xs ${connection === 'connected' ? 'text-green-400' : 'text-amber-300'}`}>
+                        {connection === 'connected' ? <Wifi className="w-4 h-4" /> : <WifiOff className="w-4 h-4" />}
+                        {CONNECTION_LABELS[connection]}
+                    </p>
+                    {connectionError && <p className="text-xs text-amber-300">{connectionError}</p>}
+                    <button onClick={onLeave} className={`${buttonClasses} bg-gray-700 hover:bg-gray-600 text-white`}>
+                        <LogOut className="w-4 h-4" /> Leave Room
+                    </button>
+                </div>
+            ) : (
+                <div className="flex flex-col gap-3">
+                    <button onClick={onCreate} disabled={isBusy} className={`${buttonClasses} bg-amber-600 hover:bg-amber-700 text-white`}>
+                        <Plus className="w-4 h-4" /> Create Room
+                    </button>
+                    <form
+                        className="flex gap-2"
+                        onSubmit={e => {
+                            e.preventDefault();
+                            if (joinCode.trim()) onJoin(joinCode);
+                        }}
+                    >
+                        <input
+                            value={joinCode}
+                            onChange={e => setJoinCode(e.target.value.toUpperCase())}
+                            placeholder="Room code"
+                            maxLength={6}
+                            className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 font-mono tracking-widest uppercase focus:outline-none focus:border-amber-500"
+                        />
+                        <button type="submit" disabled={isBusy || !joinCode.trim()} className={`${buttonClasses} bg-gray-700 hover:bg-gray-600 text-white`}>
+                            <LogIn className="w-4 h-4" /> Join
+                        </button>
+                    </form>
+                </div>
+            )}
+
+            {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Gauge, Pause, Play, StepForward } from 'lucide-react';
+
+interface SpectatorControlsProps {
+    isPaused: boolean;
+    canStep: boolean;
+    moveDelayMs: number;
+    onTogglePause: () => void;
+    onStep: () => void;
+    setMoveDelayMs: (delayMs: number) => void;
+}
+
+// Pause between moves, so a game can be followed move by move
+const SPEEDS: { label: string, delayMs: number }[] = [
+    { label: 'Slow', delayMs: 2000 },
+    { label: 'Normal', delayMs: 800 },
+    { label: 'Fast', delayMs: 200 },
+    { label: 'Max', delayMs: 0 },
+];
+
+export default function SpectatorControls({ isPaused, canStep, moveDelayMs, onTogglePause, onStep, setMoveDelayMs }: SpectatorControlsProps) {
+    const buttonClasses = "flex-1 flex items-center justify-center gap-2 text-white text-sm font-bold py-2 px-3 rounded-lg transition duration-200 shadow-md disabled:opacity-50";
+
+    return (
+        <div className="p-4 bg-gray-800 rounded-xl shadow-xl border border-teal-500/60">
+            <h3 className="text-xl font-bold mb-3 text-teal-400">AI vs AI</h3>
+
+            <div className="flex gap-2">
+                <button onClick={onTogglePause} className={`${buttonClasses} bg-teal-600 hover:bg-teal-700`}>
+                    {isPaused ? <><Play className="w-4 h-4" /> Resume</> : <><Pause className="w-4 h-4" /> Pause</>}
+                </button>
+                <button onClick={onStep} disabled={!canStep} className={`${buttonClasses} bg-gray-700 hover:bg-gray-600`} title="Play one move while paused">
+                    <StepForward className="w-4 h-4" /> Step
+                </button>
+            </div>
+
+            <p className="flex items-center gap-2 text-sm font-semibold mt-3 mb-1">
+                <Gauge className="w-4 h-4" /> Speed
+            </p>
+            <div className="grid grid-cols-4 gap-1">
+                {SPEEDS.map(({ label, delayMs }) => (
+                    <button
+                        key={label}
+                        onClick={() => setMoveDelayMs(delayMs)}
+                        className={`py-1 rounded-lg text-sm font-semibold transition duration-150 ${moveDelayMs === delayMs ? 'bg-teal-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
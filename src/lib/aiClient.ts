@@ -0,0 +1,117 @@
+import { Color, Difficulty, Move, Position } from '../types';
+import type { PositionEvaluation, SearchLimits } from './engine';
+import type { EngineRequest, EngineResponse } from './engine.worker';
+
+// Main-thread side of the engine worker. The worker is created lazily and handles one request at a
+// time; the rest wait in a queue here. Cancelling a waiting request just drops it, while cancelling
+// the running one replaces the worker (a search can't be interrupted by messages) and moves on to
+// the next. A cancelled request never resolves, and the others are unaffected.
+
+export interface EngineTask<T> {
+    promise: Promise<T>;
+    cancel: () => void;
+}
+
+export type AIMoveRequest = EngineTask<Move | null>;
+
+// Omit applied to each member of the union separately, so the per-kind fields survive
+type RequestBody = EngineRequest extends infer R ? (R extends unknown ? Omit<R, 'id'> : never) : never;
+
+interface QueuedRequest {
+    request: EngineRequest;
+    // Called with null when the worker crashes before answering
+    resolve: (response: EngineResponse | null) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+let running: QueuedRequest | null = null;
+const queue: QueuedRequest[] = [];
+const errorListeners = new Set<(message: string) => void>();
+
+const stopWorker = () => {
+    worker?.terminate();
+    worker = null;
+};
+
+const getWorker = (): Worker => {
+    if (!worker) {
+        worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<EngineResponse>) => {
+            if (running?.request.id !== event.data.id) return;
+            const { resolve } = running;
+            running = null;
+            resolve(event.data);
+            startNext();
+        };
+        worker.onerror = (event) => {
+            errorListeners.forEach(listener => listener(event.message));
+            [running, ...queue].forEach(entry => entry?.resolve(null));
+            running = null;
+            queue.length = 0;
+            stopWorker();
+        };
+    }
+    return worker;
+};
+
+const startNext = () => {
+    if (running || queue.length === 0) return;
+    running = queue.shift()!;
+    getWorker().postMessage(running.request);
+};
+
+const postRequest = (body: RequestBody): EngineTask<EngineResponse | null> => {
+    const id = ++nextRequestId;
+    const promise = new Promise<EngineResponse | null>(resolve => {
+        queue.push({ request: { ...body, id } as EngineRequest, resolve });
+        startNext();
+    });
+
+    const cancel = () => {
+        const index = queue.findIndex(entry => entry.request.id === id);
+        if (index !== -1) {
+            queue.splice(index, 1);
+        } else if (running?.request.id === id) {
+            running = null;
+            stopWorker();
+            startNext();
+        }
+    };
+
+    return { promise, cancel };
+};
+
+// Calls `listener` with the reason whenever the worker crashes. Returns an unsubscribe function.
+export const onEngineError = (listener: (message: string) => void): (() => void) => {
+    errorListeners.add(listener);
+    return () => {
+        errorListeners.delete(listener);
+    };
+};
+
+export const requestAIMove = (position: Position, difficulty: Difficulty, maxTimeMs?: number, seed?: number): AIMoveRequest => {
+    const task = postRequest({ kind: 'move', position, difficulty, maxTimeMs, seed });
+    return {
+        promise: task.promise.then(response => response?.kind === 'move' ? response.move : null),
+        cancel: task.cancel,
+    };
+};
+
+// Asks the AI playing `aiColor` whether it takes a draw in `position`; a lost worker counts as a decline
+export const requestDrawDecision = (position: Position, aiColor: Color, difficulty: Difficulty): EngineTask<boolean> => {
+    const task = postRequest({ kind: 'draw-offer', position, aiColor, difficulty });
+    return {
+        promise: task.promise.then(response => response?.kind === 'draw-offer' && response.accept),
+        cancel: task.cancel,
+    };
+};
+
+// Full-strength evaluation for analysis and hints; null if the worker went away
+export const requestEvaluation = (position: Position, limits?: SearchLimits): EngineTask<PositionEvaluation | null> => {
+    const task = postRequest({ kind: 'evaluate', position, limits });
+    return {
+        promise: task.promise.then(response => response?.kind === 'evaluate' ? response.evaluation : null),
+        cancel: task.cancel,
+    };
+};
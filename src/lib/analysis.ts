@@ -0,0 +1,82 @@
+import { Color, Move } from '../types';
+import { isSameMove } from './rules';
+import { MATE_SCORE, PositionEvaluation } from './engine';
+
+// --- Move Classification ---
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+// Expected score for White on a -1..1 scale. Working in winning chances rather than raw centipawns
+// means dropping 200 centipawns matters when the game is level but hardly at all when it's long decided.
+export const winChance = (score: number): number => 2 / (1 + Math.exp(-0.00368208 * score)) - 1;
+
+// Drop in the mover's winning chances (on the -1..1 scale) at which each label starts
+const THRESHOLDS: { classification: MoveClassification, drop: number }[] = [
+    { classification: 'blunder', drop: 0.3 },
+    { classification: 'mistake', drop: 0.2 },
+    { classification: 'inaccuracy', drop: 0.1 },
+];
+
+const moverChance = (evaluation: PositionEvaluation, mover: Color) =>
+    mover === 'w' ? winChance(evaluation.score) : -winChance(evaluation.score);
+
+// `before` and `after` are the evaluations of the positions on either side of `move`
+export const classifyMove = (move: Move, mover: Color, before: PositionEvaluation, after: PositionEvaluation): MoveClassification => {
+    if (before.bestMove && isSameMove(move, before.bestMove)) return 'best';
+    const drop = moverChance(before, mover) - moverChance(after, mover);
+    return THRESHOLDS.find(threshold => drop >= threshold.drop)?.classification ?? (drop <= 0.02 ? 'best' : 'good');
+};
+
+// --- Accuracy ---
+
+// 100 for a move that keeps the winning chances, falling off steeply as more of them are thrown away
+export const moveAccuracy = (mover: Color, before: PositionEvaluation, after: PositionEvaluation): number => {
+    const drop = Math.max(0, moverChance(before, mover) - moverChance(after, mover)) * 50; // in percentage points
+    return Math.min(100, Math.max(0, 103.1668 * Math.exp(-0.04354 * drop) - 3.1669));
+};
+
+export interface PlayerSummary {
+    accuracy: number | null; // null until one of the player's moves is analysed
+    counts: Record<MoveClassification, number>;
+}
+
+export interface AnalysedMove {
+    mover: Color;
+    classification: MoveClassification;
+    accuracy: number;
+}
+
+export const summarizePlayers = (moves: AnalysedMove[]): Record<Color, PlayerSummary> => {
+    const summarize = (color: Color): PlayerSummary => {
+        const own = moves.filter(move => move.mover === color);
+        const counts: Record<MoveClassification, number> = { best: 0, good: 0, inaccuracy: 0, mistake: 0, blunder: 0 };
+        own.forEach(move => counts[move.classification]++);
+        const accuracy = own.length ? own.reduce((sum, move) => sum + move.accuracy, 0) / own.length : null;
+        return { accuracy, counts };
+    };
+    return { w: summarize('w'), b: summarize('b') };
+};
+
+// --- Display ---
+
+// Moves until mate (positive when White mates), or null for an ordinary score
+export const getMateIn = (score: number): number | null => {
+    if (Math.abs(score) < MATE_SCORE - 1000) return null;
+    const moves = Math.ceil((MATE_SCORE - Math.abs(score)) / 2);
+    return score > 0 ? moves : -moves;
+};
+
+export const formatEvaluation = (score: number): string => {
+    const mateIn = getMateIn(score);
+    if (mateIn !== null) return mateIn === 0 ? '#' : `${mateIn > 0 ? '' : '-'}M${Math.abs(mateIn)}`;
+    const pawns = score / 100;
+    return `${pawns > 0 ? '+' : ''}${pawns.toFixed(2)}`;
+};
+
+export const CLASSIFICATION_SYMBOLS: Record<MoveClassification, string> = {
+    best: '',
+    good: '',
+    inaccuracy: '?!',
+    mistake: '?',
+    blunder: '??',
+};
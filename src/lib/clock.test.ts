@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+    ClockState, TimeControl, TimeSource, checkFlag, createClock, createCustomTimeControl, getRemainingMs, pauseClock, pressClock,
+    resumeClock, stopClock,
+} from './clock';
+
+// A time source the tests move forward by hand
+let time = 0;
+const now: TimeSource = () => time;
+const wait = (ms: number) => {
+    time += ms;
+};
+
+const THREE_TWO: TimeControl = createCustomTimeControl(3, 2, 0);
+const FIVE_DELAY_THREE: TimeControl = createCustomTimeControl(5, 0, 3);
+
+// White and Black each take `ms` over their move
+const playMoves = (clock: ClockState, times: number[]): ClockState =>
+    times.reduce((next, ms, index) => {
+        wait(ms);
+        return pressClock(next, index % 2 === 0 ? 'w' : 'b', now());
+    }, clock);
+
+beforeEach(() => {
+    time = 1_000_000;
+});
+
+describe('chess clock', () => {
+    it("starts on White's first move without charging it", () => {
+        const clock = createClock(THREE_TWO);
+        expect(clock.running).toBeNull();
+        wait(20_000);
+        const started = pressClock(clock, 'w', now());
+        expect(started.running).toBe('b');
+        expect(started.remainingMs).toEqual({ w: 180_000, b: 180_000 });
+        wait(4_000);
+        expect(getRemainingMs(started, 'b', now())).toBe(176_000);
+        expect(getRemainingMs(started, 'w', now())).toBe(180_000);
+    });
+
+    it('adds the increment after every move', () => {
+        const clock = playMoves(createClock(THREE_TWO), [0, 10_000, 5_000]);
+        expect(clock.remainingMs).toEqual({ w: 177_000, b: 172_000 });
+        expect(clock.running).toBe('b');
+    });
+
+    it('gives back time used up to the Bronstein delay', () => {
+        // Black's quick move costs nothing; the slow one is charged beyond the delay only
+        const clock = playMoves(createClock(FIVE_DELAY_THREE), [0, 2_000, 0, 10_000]);
+        expect(clock.remainingMs.b).toBe(300_000 - 7_000);
+    });
+
+    it('pauses and resumes without charging the time in between', () => {
+        const running = playMoves(createClock(THREE_TWO), [0]);
+        wait(30_000);
+        const paused = pauseClock(running, now());
+        expect(paused.running).toBe('b');
+        expect(paused.remainingMs.b).toBe(150_000);
+        wait(3_600_000);
+        expect(getRemainingMs(paused, 'b', now())).toBe(150_000);
+        const resumed = resumeClock(paused, now());
+        wait(10_000);
+        expect(getRemainingMs(resumed, 'b', now())).toBe(140_000);
+        expect(resumeClock(createClock(THREE_TWO), now()).running).toBeNull();
+    });
+
+    it('flags the running side once their time is used up', () => {
+        const running = playMoves(createClock(THREE_TWO), [0]);
+        wait(179_999);
+        expect(checkFlag(running, now())).toBe(running);
+        wait(1);
+        const flagged = checkFlag(running, now());
+        expect(flagged.flagged).toBe('b');
+        expect(flagged.running).toBeNull();
+        expect(flagged.remainingMs.b).toBe(0);
+        expect(resumeClock(flagged, now())).toBe(flagged);
+    });
+
+    it('flags a side that presses the clock after their time ran out', () => {
+        const clock = playMoves(createClock(THREE_TWO), [0, 181_000]);
+        expect(clock.flagged).toBe('b');
+    });
+
+    it('stops both clocks', () => {
+        const running = playMoves(createClock(THREE_TWO), [0]);
+        wait(5_000);
+        const stopped = stopClock(running, now());
+        wait(60_000);
+        expect(stopped.running).toBeNull();
+        expect(getRemainingMs(stopped, 'b', now())).toBe(175_000);
+    });
+});
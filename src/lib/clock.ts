@@ -0,0 +1,136 @@
+import { Color } from '../types';
+import { oppositeColor } from './rules';
+
+// --- Time Controls ---
+
+export interface TimeControl {
+    name: string;
+    baseMs: number;
+    incrementMs: number; // Fischer increment, added after every move
+    delayMs: number; // Bronstein delay, time used up to this amount is given back after every move
+}
+
+const minutes = (m: number) => m * 60 * 1000;
+const seconds = (s: number) => s * 1000;
+
+export const TIME_CONTROL_PRESETS: TimeControl[] = [
+    { name: 'Bullet 1+0', baseMs: minutes(1), incrementMs: 0, delayMs: 0 },
+    { name: 'Bullet 2+1', baseMs: minutes(2), incrementMs: seconds(1), delayMs: 0 },
+    { name: 'Blitz 3+2', baseMs: minutes(3), incrementMs: seconds(2), delayMs: 0 },
+    { name: 'Blitz 5+0', baseMs: minutes(5), incrementMs: 0, delayMs: 0 },
+    { name: 'Rapid 10+0', baseMs: minutes(10), incrementMs: 0, delayMs: 0 },
+    { name: 'Rapid 15+10', baseMs: minutes(15), incrementMs: seconds(10), delayMs: 0 },
+    { name: 'Classical 30+0', baseMs: minutes(30), incrementMs: 0, delayMs: 0 },
+    { name: 'Classical 90+30', baseMs: minutes(90), incrementMs: seconds(30), delayMs: 0 },
+];
+
+export const createCustomTimeControl = (baseMinutes: number, incrementSeconds: number, delaySeconds: number): TimeControl => ({
+    name: `Custom ${baseMinutes}+${incrementSeconds}${delaySeconds ? ` d${delaySeconds}` : ''}`,
+    baseMs: minutes(baseMinutes),
+    incrementMs: seconds(incrementSeconds),
+    delayMs: seconds(delaySeconds),
+});
+
+// --- Clock State ---
+
+// Milliseconds since some fixed point. Injected everywhere the clock reads time, so the clock can
+// be driven by a fake source in tests; the app uses Date.now so online clients agree.
+export type TimeSource = () => number;
+
+// Plain data so it can be stored with an online room. The running side's remaining time is as of
+// `turnStartedAt`; use getRemainingMs for the live value.
+export interface ClockState {
+    control: TimeControl;
+    remainingMs: Record<Color, number>;
+    running: Color | null; // null before the first move and once the game is over
+    turnStartedAt: number | null;
+    flagged: Color | null; // side that ran out of time
+}
+
+export const createClock = (control: TimeControl): ClockState => ({
+    control,
+    remainingMs: { w: control.baseMs, b: control.baseMs },
+    running: null,
+    turnStartedAt: null,
+    flagged: null,
+});
+
+export const getRemainingMs = (clock: ClockState, color: Color, now: number): number => {
+    if (clock.running !== color || clock.turnStartedAt === null) return clock.remainingMs[color];
+    return Math.max(0, clock.remainingMs[color] - (now - clock.turnStartedAt));
+};
+
+// Called after `mover` completes a move: charges the time they used, credits delay and increment,
+// and starts the opponent's clock. The first move of the game only starts the clock.
+export const pressClock = (clock: ClockState, mover: Color, now: number): ClockState => {
+    if (clock.flagged) return clock;
+    const opponent = oppositeColor(mover);
+    if (clock.running !== mover || clock.turnStartedAt === null) {
+        return { ...clock, running: opponent, turnStartedAt: now };
+    }
+
+    const elapsed = now - clock.turnStartedAt;
+    const remaining = clock.remainingMs[mover] - elapsed;
+    if (remaining <= 0) return flagClock(clock, mover);
+
+    const credit = Math.min(elapsed, clock.control.delayMs) + clock.control.incrementMs;
+    return {
+        ...clock,
+        remainingMs: { ...clock.remainingMs, [mover]: remaining + credit },
+        running: opponent,
+        turnStartedAt: now,
+    };
+};
+
+const flagClock = (clock: ClockState, color: Color): ClockState => ({
+    ...clock,
+    remainingMs: { ...clock.remainingMs, [color]: 0 },
+    running: null,
+    turnStartedAt: null,
+    flagged: color,
+});
+
+// Marks the running side as out of time once their time is used up
+export const checkFlag = (clock: ClockState, now: number): ClockState =>
+    clock.running && getRemainingMs(clock, clock.running, now) <= 0 ? flagClock(clock, clock.running) : clock;
+
+// Freezes both clocks, e.g. when the game ends on the board
+export const stopClock = (clock: ClockState, now: number): ClockState => {
+    if (!clock.running) return clock;
+    return {
+        ...clock,
+        remainingMs: { ...clock.remainingMs, [clock.running]: getRemainingMs(clock, clock.running, now) },
+        running: null,
+        turnStartedAt: null,
+    };
+};
+
+// Holds the running side's clock without ending their turn, e.g. while the game is put away
+export const pauseClock = (clock: ClockState, now: number): ClockState => {
+    if (!clock.running || clock.turnStartedAt === null) return clock;
+    return {
+        ...clock,
+        remainingMs: { ...clock.remainingMs, [clock.running]: getRemainingMs(clock, clock.running, now) },
+        turnStartedAt: null,
+    };
+};
+
+// Restarts a paused clock from `now`
+export const resumeClock = (clock: ClockState, now: number): ClockState =>
+    clock.running && clock.turnStartedAt === null && !clock.flagged ? { ...clock, turnStartedAt: now } : clock;
+
+// How long an engine playing `color` may think: a slice of its remaining time plus most of the increment
+export const getThinkingBudgetMs = (clock: ClockState, color: Color, now: number): number => {
+    const remaining = getRemainingMs(clock, color, now);
+    return Math.max(50, Math.min(remaining / 2, remaining / 30 + clock.control.incrementMs * 0.8));
+};
+
+export const formatClock = (ms: number): string => {
+    const totalSeconds = ms / 1000;
+    if (totalSeconds < 10) return totalSeconds.toFixed(1);
+    const total = Math.ceil(totalSeconds);
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = String(total % 60).padStart(2, '0');
+    return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
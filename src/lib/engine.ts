@@ -0,0 +1,381 @@
+import { Color, Difficulty, Move, Position } from '../types';
+import { applyMove, findKing, getPieceType, getPseudoLegalMoves, isInCheck, isSameMove } from './rules';
+import { hashPosition } from './zobrist';
+import { RandomSource } from './random';
+import { HILL_SQUARES, getVariantWin } from './variants';
+
+// --- Difficulty Settings ---
+
+export interface SearchLimits {
+    maxDepth: number;
+    timeMs: number;
+}
+
+export interface DifficultySettings extends SearchLimits {
+    // Probability of deliberately playing a move other than the best one found
+    errorRate: number;
+}
+
+export const DIFFICULTY_SETTINGS: Record<Difficulty, DifficultySettings> = {
+    Beginner: { maxDepth: 1, timeMs: 250, errorRate: 0.4 },
+    Easy: { maxDepth: 2, timeMs: 500, errorRate: 0.15 },
+    Hard: { maxDepth: 4, timeMs: 1500, errorRate: 0.03 },
+    Master: { maxDepth: 64, timeMs: 3000, errorRate: 0 },
+};
+
+// --- Evaluation ---
+
+export const MATE_SCORE = 100000;
+const INFINITY = 1000000;
+
+export const PIECE_VALUES: Record<string, number> = { P: 100, N: 320, B: 330, R: 500, Q: 900, K: 0 };
+
+// Piece-square tables from White's point of view, row 0 = rank 8 (same layout as BoardState)
+const PIECE_SQUARE_TABLES: Record<string, number[][]> = {
+    P: [
+        [0, 0, 0, 0, 0, 0, 0, 0],
+        [50, 50, 50, 50, 50, 50, 50, 50],
+        [10, 10, 20, 30, 30, 20, 10, 10],
+        [5, 5, 10, 25, 25, 10, 5, 5],
+        [0, 0, 0, 20, 20, 0, 0, 0],
+        [5, -5, -10, 0, 0, -10, -5, 5],
+        [5, 10, 10, -20, -20, 10, 10, 5],
+        [0, 0, 0, 0, 0, 0, 0, 0],
+    ],
+    N: [
+        [-50, -40, -30, -30, -30, -30, -40, -50],
+        [-40, -20, 0, 0, 0, 0, -20, -40],
+        [-30, 0, 10, 15, 15, 10, 0, -30],
+        [-30, 5, 15, 20, 20, 15, 5, -30],
+        [-30, 0, 15, 20, 20, 15, 0, -30],
+        [-30, 5, 10, 15, 15, 10, 5, -30],
+        [-40, -20, 0, 5, 5, 0, -20, -40],
+        [-50, -40, -30, -30, -30, -30, -40, -50],
+    ],
+    B: [
+        [-20, -10, -10, -10, -10, -10, -10, -20],
+        [-10, 0, 0, 0, 0, 0, 0, -10],
+        [-10, 0, 5, 10, 10, 5, 0, -10],
+        [-10, 5, 5, 10, 10, 5, 5, -10],
+        [-10, 0, 10, 10, 10, 10, 0, -10],
+        [-10, 10, 10, 10, 10, 10, 10, -10],
+        [-10, 5, 0, 0, 0, 0, 5, -10],
+        [-20, -10, -10, -10, -10, -10, -10, -20],
+    ],
+    R: [
+        [0, 0, 0, 0, 0, 0, 0, 0],
+        [5, 10, 10, 10, 10, 10, 10, 5],
+        [-5, 0, 0, 0, 0, 0, 0, -5],
+        [-5, 0, 0, 0, 0, 0, 0, -5],
+        [-5, 0, 0, 0, 0, 0, 0, -5],
+        [-5, 0, 0, 0, 0, 0, 0, -5],
+        [-5, 0, 0, 0, 0, 0, 0, -5],
+        [0, 0, 0, 5, 5, 0, 0, 0],
+    ],
+    Q: [
+        [-20, -10, -10, -5, -5, -10, -10, -20],
+        [-10, 0, 0, 0, 0, 0, 0, -10],
+        [-10, 0, 5, 5, 5, 5, 0, -10],
+        [-5, 0, 5, 5, 5, 5, 0, -5],
+        [0, 0, 5, 5, 5, 5, 0, -5],
+        [-10, 5, 5, 5, 5, 5, 0, -10],
+        [-10, 0, 5, 0, 0, 0, 0, -10],
+        [-20, -10, -10, -5, -5, -10, -10, -20],
+    ],
+    K: [
+        [-30, -40, -40, -50, -50, -40, -40, -30],
+        [-30, -40, -40, -50, -50, -40, -40, -30],
+        [-30, -40, -40, -50, -50, -40, -40, -30],
+        [-30, -40, -40, -50, -50, -40, -40, -30],
+        [-20, -30, -30, -40, -40, -30, -30, -20],
+        [-10, -20, -20, -20, -20, -20, -20, -10],
+        [20, 20, 0, 0, 0, 0, 20, 20],
+        [20, 30, 10, 0, 0, 10, 30, 20],
+    ],
+};
+
+// King of the Hill: each step nearer the center is worth this much to a king (centipawns)
+const HILL_STEP_BONUS = 40;
+// Three-check: each check given, on top of the material
+const CHECK_BONUS = 250;
+
+// What the variant's extra way of winning is worth to White, from White's point of view
+const evaluateVariant = (position: Position): number => {
+    if (position.variant === 'kingOfTheHill') {
+        const kingBonus = (color: Color) => {
+            const king = findKing(position.board, color);
+            if (!king) return 0;
+            const steps = Math.min(...HILL_SQUARES.map(square => Math.max(Math.abs(square.row - king.row), Math.abs(square.col - king.col))));
+            return (3 - steps) * HILL_STEP_BONUS;
+        };
+        return kingBonus('w') - kingBonus('b');
+    }
+    if (position.checks) return (position.checks.w - position.checks.b) * CHECK_BONUS;
+    return 0;
+};
+
+// Static evaluation in centipawns from the side to move's point of view
+export const evaluate = (position: Position): number => {
+    let score = 0;
+    for (let r = 0; r < 8; r++) {
+        for (let c = 0; c < 8; c++) {
+            const piece = position.board[r][c];
+            if (!piece) continue;
+            const type = piece[1];
+            if (piece[0] === 'w') {
+                score += PIECE_VALUES[type] + PIECE_SQUARE_TABLES[type][r][c];
+            } else {
+                score -= PIECE_VALUES[type] + PIECE_SQUARE_TABLES[type][7 - r][c];
+            }
+        }
+    }
+    if (position.variant) score += evaluateVariant(position);
+    return position.turn === 'w' ? score : -score;
+};
+
+// --- Transposition Table ---
+
+type BoundType = 'exact' | 'lower' | 'upper';
+
+interface TranspositionEntry {
+    depth: number;
+    score: number;
+    bound: BoundType;
+    move: Move | null;
+}
+
+export type TranspositionTable = Map<number, TranspositionEntry>;
+
+const MAX_TABLE_SIZE = 500000;
+
+// Mate scores are stored relative to the node so they stay correct when reached at a different ply
+const toTableScore = (score: number, ply: number) =>
+    score > MATE_SCORE - 1000 ? score + ply : score < -MATE_SCORE + 1000 ? score - ply : score;
+const fromTableScore = (score: number, ply: number) =>
+    score > MATE_SCORE - 1000 ? score - ply : score < -MATE_SCORE + 1000 ? score + ply : score;
+
+// --- Search ---
+
+export interface ScoredMove {
+    move: Move;
+    score: number;
+}
+
+export interface SearchResult {
+    move: Move | null;
+    score: number;
+    depth: number;
+    nodes: number;
+    // Root moves from the deepest completed iteration, best first. Only the best score is exact;
+    // the others are upper bounds, which is enough to rank them.
+    rootMoves: ScoredMove[];
+}
+
+class SearchAborted extends Error {}
+
+const isTactical = (move: Move) => !!move.captured || !!move.promotion;
+
+// MVV-LVA: most valuable victim first, cheapest attacker breaking ties
+const captureOrder = (move: Move) =>
+    (move.captured ? PIECE_VALUES[getPieceType(move.captured)!] * 10 - PIECE_VALUES[getPieceType(move.piece)!] / 10 : 0)
+    + (move.promotion ? PIECE_VALUES[move.promotion] : 0);
+
+export const searchBestMove = (
+    position: Position,
+    limits: SearchLimits,
+    table: TranspositionTable = new Map(),
+): SearchResult => {
+    const deadline = Date.now() + limits.timeMs;
+    const killers: (Move | null)[][] = [];
+    let nodes = 0;
+
+    if (table.size > MAX_TABLE_SIZE) table.clear();
+
+    const checkTime = () => {
+        if ((++nodes & 1023) === 0 && Date.now() > deadline) throw new SearchAborted();
+    };
+
+    const orderMoves = (moves: Move[], ply: number, hashMove: Move | null): Move[] => {
+        const [killerA, killerB] = killers[ply] ?? [];
+        const priority = (move: Move) => {
+            if (hashMove && isSameMove(move, hashMove)) return 1e9;
+            if (isTactical(move)) return 1e6 + captureOrder(move);
+            if ((killerA && isSameMove(move, killerA)) || (killerB && isSameMove(move, killerB))) return 1e5;
+            return 0;
+        };
+        return moves
+            .map(move => ({ move, priority: priority(move) }))
+            .sort((a, b) => b.priority - a.priority)
+            .map(entry => entry.move);
+    };
+
+    const storeKiller = (move: Move, ply: number) => {
+        const current = killers[ply] ?? [null, null];
+        if (current[0] && isSameMove(current[0], move)) return;
+        killers[ply] = [move, current[0]];
+    };
+
+    // Variant wins (a king on the hill, a third check, the horde wiped out) end the game for the side to move
+    const quiescence = (node: Position, alpha: number, beta: number, ply: number): number => {
+        checkTime();
+        if (getVariantWin(node)) return -MATE_SCORE + ply;
+        const standPat = evaluate(node);
+        if (standPat >= beta) return standPat;
+        if (standPat > alpha) alpha = standPat;
+
+        const captures = getPseudoLegalMoves(node)
+            .filter(isTactical)
+            .sort((a, b) => captureOrder(b) - captureOrder(a));
+
+        for (const move of captures) {
+            const next = applyMove(node, move);
+            if (isInCheck(next.board, node.turn)) continue;
+            const score = -quiescence(next, -beta, -alpha, ply + 1);
+            if (score >= beta) return score;
+            if (score > alpha) alpha = score;
+        }
+        return alpha;
+    };
+
+    const negamax = (node: Position, depth: number, alpha: number, beta: number, ply: number): number => {
+        if (depth <= 0) return quiescence(node, alpha, beta, ply);
+        if (getVariantWin(node)) return -MATE_SCORE + ply;
+        checkTime();
+
+        const hash = hashPosition(node);
+        const entry = table.get(hash);
+        if (entry && entry.depth >= depth) {
+            const score = fromTableScore(entry.score, ply);
+            if (entry.bound === 'exact') return score;
+            if (entry.bound === 'lower' && score > alpha) alpha = score;
+            if (entry.bound === 'upper' && score < beta) beta = score;
+            if (alpha >= beta) return score;
+        }
+
+        const originalAlpha = alpha;
+        let bestScore = -INFINITY;
+        let bestMove: Move | null = null;
+        let legalMoves = 0;
+
+        for (const move of orderMoves(getPseudoLegalMoves(node), ply, entry?.move ?? null)) {
+            const next = applyMove(node, move);
+            if (isInCheck(next.board, node.turn)) continue;
+            legalMoves++;
+
+            const score = -negamax(next, depth - 1, -beta, -alpha, ply + 1);
+            if (score > bestScore) {
+                bestScore = score;
+                bestMove = move;
+            }
+            if (score > alpha) alpha = score;
+            if (alpha >= beta) {
+                if (!isTactical(move)) storeKiller(move, ply);
+                break;
+            }
+        }
+
+        if (legalMoves === 0) return isInCheck(node.board, node.turn) ? -MATE_SCORE + ply : 0;
+
+        const bound: BoundType = bestScore <= originalAlpha ? 'upper' : bestScore >= beta ? 'lower' : 'exact';
+        table.set(hash, { depth, score: toTableScore(bestScore, ply), bound, move: bestMove });
+        return bestScore;
+    };
+
+    // A game the variant has already decided has no moves left to search
+    const legalRootMoves = getVariantWin(position) ? [] : getPseudoLegalMoves(position)
+        .filter(move => !isInCheck(applyMove(position, move).board, position.turn));
+    let rootMoves: ScoredMove[] = orderMoves(legalRootMoves, 0, null).map(move => ({ move, score: 0 }));
+
+    let result: SearchResult = { move: rootMoves[0]?.move ?? null, score: 0, depth: 0, nodes: 0, rootMoves };
+    if (rootMoves.length <= 1) return result;
+
+    // Iterative deepening: each completed depth refines the move order for the next one,
+    // and when time runs out we fall back to the last depth that finished.
+    for (let depth = 1; depth <= limits.maxDepth; depth++) {
+        try {
+            const scored: ScoredMove[] = [];
+            let alpha = -INFINITY;
+            for (const { move } of rootMoves) {
+                const score = -negamax(applyMove(position, move), depth - 1, -INFINITY, -alpha, 1);
+                scored.push({ move, score });
+                if (score > alpha) alpha = score;
+            }
+            scored.sort((a, b) => b.score - a.score);
+            rootMoves = scored;
+            result = { move: scored[0].move, score: scored[0].score, depth, nodes, rootMoves: scored };
+            if (Math.abs(scored[0].score) > MATE_SCORE - 1000) break;
+        } catch (error) {
+            if (error instanceof SearchAborted) break;
+            throw error;
+        }
+    }
+
+    return { ...result, nodes };
+};
+
+// --- AI Entry Point ---
+
+export const generateAIMove = (
+    position: Position,
+    difficulty: Difficulty,
+    random: RandomSource = Math.random,
+    table?: TranspositionTable,
+    maxTimeMs?: number, // cap from the AI's own clock in timed games
+): Move | null => {
+    const settings = DIFFICULTY_SETTINGS[difficulty];
+    const timeMs = maxTimeMs === undefined ? settings.timeMs : Math.min(settings.timeMs, maxTimeMs);
+    const { move, rootMoves } = searchBestMove(position, { ...settings, timeMs }, table);
+
+    // Weaker levels sometimes play a different legal move on purpose
+    if (move && rootMoves.length > 1 && random() < settings.errorRate) {
+        const alternatives = rootMoves.slice(1);
+        return alternatives[Math.floor(random() * alternatives.length)].move;
+    }
+    return move;
+};
+
+// --- Draw Offers ---
+
+// The AI takes a draw unless a short search says it is better by more than this (centipawns)
+const DRAW_ACCEPT_MARGIN = 30;
+const DRAW_OFFER_TIME_MS = 500;
+
+// Weaker levels judge the offer with a shallower search, so they misjudge it more often
+export const shouldAcceptDraw = (position: Position, aiColor: Color, difficulty: Difficulty, table?: TranspositionTable): boolean => {
+    const maxDepth = Math.min(DIFFICULTY_SETTINGS[difficulty].maxDepth, 4);
+    const result = searchBestMove(position, { maxDepth, timeMs: DRAW_OFFER_TIME_MS }, table);
+    // With a single legal move there is no search, so fall back to the static evaluation
+    const score = result.depth > 0 ? result.score : evaluate(position);
+    const aiScore = position.turn === aiColor ? score : -score;
+    return aiScore <= DRAW_ACCEPT_MARGIN;
+};
+
+// --- Analysis ---
+
+export interface PositionEvaluation {
+    score: number; // centipawns from White's point of view; mates are near +-MATE_SCORE
+    bestMove: Move | null;
+    depth: number;
+}
+
+export const ANALYSIS_LIMITS: SearchLimits = { maxDepth: 64, timeMs: 400 };
+
+export const evaluatePosition = (position: Position, limits: SearchLimits = ANALYSIS_LIMITS, table?: TranspositionTable): PositionEvaluation => {
+    const fromWhite = (score: number) => position.turn === 'w' ? score : -score;
+    const result = searchBestMove(position, limits, table);
+
+    if (!result.move) {
+        // Game over: mated (or lost by the variant's rules), or a draw by stalemate
+        const isLost = !!getVariantWin(position) || isInCheck(position.board, position.turn);
+        return { score: fromWhite(isLost ? -MATE_SCORE : 0), bestMove: null, depth: 0 };
+    }
+    if (result.depth === 0) {
+        // A single legal move isn't searched, so score the position it leads to instead
+        const next = applyMove(position, result.move);
+        const reply = searchBestMove(next, limits, table);
+        const score = !reply.move ? (getVariantWin(next) || isInCheck(next.board, next.turn) ? MATE_SCORE - 1 : 0)
+            : reply.depth > 0 ? -reply.score : -evaluate(next);
+        return { score: fromWhite(score), bestMove: result.move, depth: reply.depth + 1 };
+    }
+    return { score: fromWhite(result.score), bestMove: result.move, depth: result.depth };
+};
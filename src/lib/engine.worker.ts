@@ -0,0 +1,39 @@
+/// <reference lib="webworker" />
+import { Color, Difficulty, Move, Position } from '../types';
+import { PositionEvaluation, SearchLimits, TranspositionTable, evaluatePosition, generateAIMove, shouldAcceptDraw } from './engine';
+import { createRandom } from './random';
+
+// Runs the search off the main thread. One request is handled at a time; cancelling
+// is done by terminating the worker, since a running search cannot be interrupted by messages.
+
+export type EngineRequest =
+    // With a seed, the AI's random choices (its deliberate mistakes) repeat for the same seed
+    | { id: number, kind: 'move', position: Position, difficulty: Difficulty, maxTimeMs?: number, seed?: number }
+    | { id: number, kind: 'draw-offer', position: Position, aiColor: Color, difficulty: Difficulty }
+    | { id: number, kind: 'evaluate', position: Position, limits?: SearchLimits };
+
+export type EngineResponse =
+    | { id: number, kind: 'move', move: Move | null }
+    | { id: number, kind: 'draw-offer', accept: boolean }
+    | { id: number, kind: 'evaluate', evaluation: PositionEvaluation };
+
+// Kept across requests so consecutive moves of the same game reuse earlier search results. Games of
+// every variant share it: positions hash by variant and Chess960 setup too (see zobrist.ts).
+const table: TranspositionTable = new Map();
+
+const handleRequest = (request: EngineRequest): EngineResponse => {
+    switch (request.kind) {
+        case 'move': {
+            const random = request.seed === undefined ? Math.random : createRandom(request.seed);
+            return { id: request.id, kind: 'move', move: generateAIMove(request.position, request.difficulty, random, table, request.maxTimeMs) };
+        }
+        case 'draw-offer':
+            return { id: request.id, kind: 'draw-offer', accept: shouldAcceptDraw(request.position, request.aiColor, request.difficulty, table) };
+        case 'evaluate':
+            return { id: request.id, kind: 'evaluate', evaluation: evaluatePosition(request.position, request.limits, table) };
+    }
+};
+
+self.onmessage = (event: MessageEvent<EngineRequest>) => {
+    self.postMessage(handleRequest(event.data));
+};
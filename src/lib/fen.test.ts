@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { Position } from '../types';
+import { FenError, INITIAL_FEN, getPositionErrors, parseFen, positionToFen } from './fen';
+import { INITIAL_POSITION } from './rules';
+import { createChess960Position, createStartPosition } from './variants';
+
+// The first error parseFen reports for `fen`
+const errorOf = (fen: string, variant?: Parameters<typeof parseFen>[1]): string => {
+    try {
+        parseFen(fen, variant);
+    } catch (error) {
+        expect(error).toBeInstanceOf(FenError);
+        return (error as Error).message;
+    }
+    throw new Error(`${fen} was accepted`);
+};
+
+describe('FEN round trip', () => {
+    it.each([
+        INITIAL_FEN,
+        'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+        'rnbqkbnr/ppp1pppp/8/8/3pP3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 3',
+        '8/8/8/8/8/8/8/k1K5 w - - 50 75',
+    ])('reads and writes %s unchanged', fen => {
+        expect(positionToFen(parseFen(fen))).toBe(fen);
+    });
+
+    it('reads the start position', () => {
+        expect(parseFen(INITIAL_FEN)).toEqual(INITIAL_POSITION);
+        expect(INITIAL_FEN).toBe('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1');
+    });
+
+    it('fills in missing move counters', () => {
+        expect(positionToFen(parseFen('4k3/8/8/8/8/8/8/4K3 b - -'))).toBe('4k3/8/8/8/8/8/8/4K3 b - - 0 1');
+    });
+
+    it('round trips the start position of every variant', () => {
+        const starts: Position[] = [
+            createStartPosition('kingOfTheHill'), createStartPosition('threeCheck'), createStartPosition('horde'),
+            createChess960Position(0), createChess960Position(518), createChess960Position(959),
+        ];
+        starts.forEach(start => expect(parseFen(positionToFen(start), start.variant)).toEqual(start));
+    });
+});
+
+describe('FEN syntax errors', () => {
+    it.each([
+        ['rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP w KQkq - 0 1', "Piece placement must have 8 ranks, found 7."],
+        ['rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNX w KQkq - 0 1', 'Unknown piece "X" on rank 1.'],
+        ['rnbqkbnr/pppppppp/9/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1', 'Unknown piece "9" on rank 6.'],
+        ['rnbqkbnr/pppppppp/7/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1', "Rank 6 has 7 squares instead of 8."],
+        ['rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR white KQkq - 0 1', 'Side to move must be "w" or "b", found "white".'],
+        ['rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkqK - 0 1', 'Invalid castling field "KQkqK".'],
+        ['rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq e9 0 1', 'Invalid en passant square "e9".'],
+        ['rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - -1 1', 'Invalid halfmove clock "-1".'],
+        ['rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 0', 'Invalid fullmove number "0".'],
+        ['rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq', "FEN must have 4 to 6 space-separated fields."],
+    ])('rejects %s', (fen, message) => {
+        expect(errorOf(fen)).toBe(message);
+    });
+});
+
+describe('impossible positions', () => {
+    it('needs exactly one king per side', () => {
+        expect(errorOf('4k3/8/8/8/8/8/8/3KK3 w - - 0 1')).toBe("White must have exactly one king (found 2).");
+        expect(errorOf('8/8/8/8/8/8/8/4K3 w - - 0 1')).toBe("Black must have exactly one king (found 0).");
+    });
+
+    it('keeps pawns off the first and last ranks', () => {
+        expect(errorOf('4k2P/8/8/8/8/8/8/4K3 b - - 0 1')).toBe("Pawns cannot stand on the first or last rank.");
+        expect(errorOf('4k3/8/8/8/8/8/8/p3K3 w - - 0 1')).toBe("Pawns cannot stand on the first or last rank.");
+    });
+
+    it("doesn't leave the side that just moved in check", () => {
+        expect(errorOf('4k3/8/8/8/8/8/8/4R1K1 w - - 0 1')).toBe("Black is in check but it is White's turn.");
+    });
+
+    it('needs the king and rook at home for each castling right', () => {
+        expect(errorOf('r3k2r/8/8/8/8/8/8/R3K1R1 w KQkq - 0 1')).toBe("Castling rights require the king and rook on their starting squares.");
+        expect(errorOf('r3k2r/8/8/8/8/8/8/R2K3R w KQkq - 0 1')).toBe("Castling rights require the king and rook on their starting squares.");
+    });
+
+    it('needs a pawn that just made a double step behind the en passant square', () => {
+        const afterE4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq';
+        expect(errorOf(`${afterE4} e6 0 1`)).toBe("En passant square e6 does not follow a double pawn push.");
+        expect(errorOf(`${afterE4} d3 0 1`)).toBe("En passant square d3 does not follow a double pawn push.");
+        expect(errorOf('rnbqkbnr/pppppppp/8/8/4P3/8/PPPPPPPP/RNBQKBNR b KQkq e3 0 1')).toBe("En passant square e3 does not follow a double pawn push.");
+    });
+
+    it('lists every error at once', () => {
+        const position = { ...INITIAL_POSITION, board: INITIAL_POSITION.board.map(row => row.map(piece => piece === 'bK' ? null : piece)) };
+        expect(getPositionErrors(position)).toEqual(["Black must have exactly one king (found 0).", "Castling rights require the king and rook on their starting squares."]);
+        expect(getPositionErrors(INITIAL_POSITION)).toEqual([]);
+    });
+});
+
+describe('variant FEN', () => {
+    it('reads Chess960 castling rights by rook file', () => {
+        const position = parseFen('1r4kr/pppppppp/8/8/8/8/PPPPPPPP/1R4KR w HBhb - 0 1', 'chess960');
+        expect(position.castling).toEqual({ wK: true, wQ: true, bK: true, bQ: true });
+        expect(position.castlingFiles).toEqual({ K: 7, Q: 1 });
+        expect(positionToFen(position)).toBe('1r4kr/pppppppp/8/8/8/8/PPPPPPPP/1R4KR w HBhb - 0 1');
+    });
+
+    it('reads KQkq in Chess960 as the outermost rooks', () => {
+        const position = parseFen('rr4kr/pppppppp/8/8/8/8/PPPPPPPP/RR4KR w KQkq - 0 1', 'chess960');
+        expect(position.castlingFiles).toEqual({ K: 7, Q: 0 });
+        expect(positionToFen(position).split(' ')[2]).toBe('HAha');
+    });
+
+    it('rejects Chess960 castling rights without their king or rook', () => {
+        expect(errorOf('1r4kr/pppppppp/8/8/8/8/PPPPPPPP/1R4KR w HAhb - 0 1', 'chess960')).toBe("Both sides must castle with rooks on the same files.");
+        expect(errorOf('1r4kr/pppppppp/8/8/8/8/PPPPPPPP/1R4K1 w K - 0 1', 'chess960')).toBe('Castling right "K" has no rook to castle with.');
+        expect(errorOf('1r4kr/pppppppp/8/8/8/8/PPPPPPKP/1R5R w H - 0 1', 'chess960')).toBe('Castling right "H" needs the White king on its back rank.');
+        expect(errorOf('1r4kr/pppppppp/8/8/8/8/PPPPPPPP/1R4KR w HAhb - 0 1')).toBe('Invalid castling field "HAhb".');
+    });
+
+    it("reads Three-check's remaining checks", () => {
+        const position = parseFen('rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 2+3 0 2', 'threeCheck');
+        expect(position.checks).toEqual({ w: 1, b: 0 });
+        expect(positionToFen(position)).toBe('rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 2+3 0 2');
+        expect(parseFen(INITIAL_FEN, 'threeCheck').checks).toEqual({ w: 0, b: 0 });
+        expect(errorOf(INITIAL_FEN.replace(' - ', ' - 4+3 '), 'threeCheck')).toBe('Invalid remaining checks "4+3".');
+    });
+
+    it('lets the Horde play without a king and with pawns on its first rank', () => {
+        expect(parseFen('4k3/8/8/8/8/8/8/PPPPPPPP w - - 0 1', 'horde').variant).toBe('horde');
+        expect(errorOf('4k3/8/8/8/8/8/8/PPPPPPPP w - - 0 1')).toBe("White must have exactly one king (found 0).");
+        expect(errorOf('4k3/8/8/8/8/8/8/4K3 w - - 0 1', 'horde')).toBe("White has no king in Horde (found 1).");
+    });
+});
@@ -0,0 +1,230 @@
+import { BoardState, CastlingFiles, CastlingRights, Color, Piece, Position, Variant } from '../types';
+import { INITIAL_POSITION, STANDARD_CASTLING_FILES, findKing, getPieceColor, isInCheck, oppositeColor } from './rules';
+import { CHECKS_TO_WIN } from './variants';
+import { nameToSquare, squareToName } from './notation';
+
+// --- Forsyth-Edwards Notation ---
+
+// Variants extend FEN the way other chess software does: Chess960 names the castling rooks by file
+// ("HAha", Shredder-FEN) and Three-check adds the checks each side still needs ("3+3") after the
+// en passant square.
+
+export class FenError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FenError';
+    }
+}
+
+const PIECE_LETTERS = 'PNBRQK';
+const FILES = 'abcdefgh';
+
+const pieceToLetter = (piece: Piece): string => {
+    const letter = piece![1];
+    return getPieceColor(piece) === 'w' ? letter : letter.toLowerCase();
+};
+
+const letterToPiece = (letter: string): Piece | undefined => {
+    const upper = letter.toUpperCase();
+    if (!PIECE_LETTERS.includes(upper)) return undefined;
+    return `${letter === upper ? 'w' : 'b'}${upper}` as Piece;
+};
+
+export const positionToFen = (position: Position): string => {
+    const placement = position.board.map(row => {
+        let rank = '';
+        let empty = 0;
+        for (const piece of row) {
+            if (!piece) {
+                empty++;
+                continue;
+            }
+            if (empty) rank += empty;
+            empty = 0;
+            rank += pieceToLetter(piece);
+        }
+        return empty ? rank + empty : rank;
+    }).join('/');
+
+    const { wK, wQ, bK, bQ } = position.castling;
+    const files = position.castlingFiles ?? STANDARD_CASTLING_FILES;
+    const [kingSide, queenSide] = position.variant === 'chess960' ? [FILES[files.K], FILES[files.Q]] : ['k', 'q'];
+    const castling = `${wK ? kingSide.toUpperCase() : ''}${wQ ? queenSide.toUpperCase() : ''}${bK ? kingSide : ''}${bQ ? queenSide : ''}` || '-';
+    const enPassant = position.enPassant ? squareToName(position.enPassant) : '-';
+    const checks = position.checks ? ` ${CHECKS_TO_WIN - position.checks.w}+${CHECKS_TO_WIN - position.checks.b}` : '';
+
+    return `${placement} ${position.turn} ${castling} ${enPassant}${checks} ${position.halfmoveClock} ${position.fullmoveNumber}`;
+};
+
+export const INITIAL_FEN = positionToFen(INITIAL_POSITION);
+
+const parsePlacement = (placement: string): BoardState => {
+    const ranks = placement.split('/');
+    if (ranks.length !== 8) throw new FenError(`Piece placement must have 8 ranks, found ${ranks.length}.`);
+
+    return ranks.map((rank, index) => {
+        const row: Piece[] = [];
+        for (const char of rank) {
+            if (/[1-8]/.test(char)) {
+                row.push(...Array<Piece>(Number(char)).fill(null));
+            } else {
+                const piece = letterToPiece(char);
+                if (!piece) throw new FenError(`Unknown piece "${char}" on rank ${8 - index}.`);
+                row.push(piece);
+            }
+        }
+        if (row.length !== 8) throw new FenError(`Rank ${8 - index} has ${row.length} squares instead of 8.`);
+        return row;
+    });
+};
+
+const parseCounter = (value: string | undefined, fallback: number, name: string, min: number): number => {
+    if (value === undefined) return fallback;
+    if (!/^\d+$/.test(value) || Number(value) < min) throw new FenError(`Invalid ${name} "${value}".`);
+    return Number(value);
+};
+
+// Chess960 castling: a file letter names the rook, while K and Q mean the outermost rook on that
+// side of the king. Both sides must castle with rooks on the same files, as in every start setup.
+const parseChess960Castling = (board: BoardState, field: string): { castling: CastlingRights, castlingFiles?: CastlingFiles } => {
+    const castling: CastlingRights = { wK: false, wQ: false, bK: false, bQ: false };
+    const found: Partial<CastlingFiles> = {};
+    for (const char of field === '-' ? '' : field) {
+        const color: Color = char === char.toUpperCase() ? 'w' : 'b';
+        const row = color === 'w' ? 7 : 0;
+        const king = findKing(board, color);
+        if (!king || king.row !== row) throw new FenError(`Castling right "${char}" needs the ${colorName(color)} king on its back rank.`);
+        const letter = char.toLowerCase();
+        let col: number;
+        if (letter === 'k' || letter === 'q') {
+            const cols = letter === 'k' ? [7, 6, 5, 4, 3, 2, 1] : [0, 1, 2, 3, 4, 5, 6];
+            col = cols.find(c => (letter === 'k' ? c > king.col : c < king.col) && board[row][c] === `${color}R`) ?? -1;
+            if (col === -1) throw new FenError(`Castling right "${char}" has no rook to castle with.`);
+        } else {
+            col = FILES.indexOf(letter);
+        }
+        const side = col > king.col ? 'K' : 'Q';
+        if (found[side] !== undefined && found[side] !== col) throw new FenError("Both sides must castle with rooks on the same files.");
+        found[side] = col;
+        castling[`${color}${side}`] = true;
+    }
+    return { castling, castlingFiles: { ...STANDARD_CASTLING_FILES, ...found } };
+};
+
+// Parses and validates a FEN string for the given variant. The move counters are optional and
+// default to "0 1"; so are Three-check's remaining checks, which default to "3+3".
+export const parseFen = (fen: string, variant: Variant = 'standard'): Position => {
+    const fields = fen.trim().split(/\s+/);
+    const checksField = variant === 'threeCheck' && /^\d\+\d$/.test(fields[4] ?? '') ? fields.splice(4, 1)[0] : null;
+    if (fields.length < 4 || fields.length > 6) {
+        throw new FenError("FEN must have 4 to 6 space-separated fields.");
+    }
+    const [placement, turn, castlingField, enPassantField, halfmove, fullmove] = fields;
+
+    const board = parsePlacement(placement);
+    if (turn !== 'w' && turn !== 'b') throw new FenError(`Side to move must be "w" or "b", found "${turn}".`);
+    const castlingPattern = variant === 'chess960' ? /^(-|[KQA-H]{0,2}[kqa-h]{0,2})$/ : /^(-|K?Q?k?q?)$/;
+    if (!castlingPattern.test(castlingField) || castlingField === '') {
+        throw new FenError(`Invalid castling field "${castlingField}".`);
+    }
+
+    const enPassant = enPassantField === '-' ? null : nameToSquare(enPassantField);
+    if (enPassantField !== '-' && !enPassant) throw new FenError(`Invalid en passant square "${enPassantField}".`);
+
+    const position: Position = {
+        board,
+        turn,
+        castling: {
+            wK: castlingField.includes('K'),
+            wQ: castlingField.includes('Q'),
+            bK: castlingField.includes('k'),
+            bQ: castlingField.includes('q'),
+        },
+        enPassant,
+        halfmoveClock: parseCounter(halfmove, 0, 'halfmove clock', 0),
+        fullmoveNumber: parseCounter(fullmove, 1, 'fullmove number', 1),
+    };
+    if (variant !== 'standard') position.variant = variant;
+    if (variant === 'chess960') Object.assign(position, parseChess960Castling(board, castlingField));
+    if (variant === 'threeCheck') {
+        const [white, black] = (checksField ?? `${CHECKS_TO_WIN}+${CHECKS_TO_WIN}`).split('+').map(Number);
+        if (white > CHECKS_TO_WIN || black > CHECKS_TO_WIN) throw new FenError(`Invalid remaining checks "${checksField}".`);
+        position.checks = { w: CHECKS_TO_WIN - white, b: CHECKS_TO_WIN - black };
+    }
+
+    const errors = getPositionErrors(position);
+    if (errors.length > 0) throw new FenError(errors[0]);
+    return position;
+};
+
+// --- Position Validation ---
+
+const HOME_ROWS: Record<keyof CastlingRights, number> = { wK: 7, wQ: 7, bK: 0, bQ: 0 };
+
+// Drops castling rights whose king or rook is no longer on its home square. With Chess960 rook files
+// the king may stand anywhere between the rooks; otherwise it must be on the e-file.
+export const restrictCastlingRights = (board: BoardState, castling: CastlingRights, chess960Files?: CastlingFiles): CastlingRights => {
+    const allowed = { ...castling };
+    const files = chess960Files ?? STANDARD_CASTLING_FILES;
+    (Object.keys(HOME_ROWS) as (keyof CastlingRights)[]).forEach(right => {
+        const row = HOME_ROWS[right];
+        const color = right[0];
+        const king = board[row].indexOf(`${color}K` as Piece);
+        const isKingHome = chess960Files ? king > files.Q && king < files.K : king === 4;
+        if (!isKingHome || board[row][files[right[1] as keyof CastlingFiles]] !== `${color}R`) allowed[right] = false;
+    });
+    return allowed;
+};
+
+const countPieces = (board: BoardState, piece: Piece): number =>
+    board.reduce((count, row) => count + row.filter(p => p === piece).length, 0);
+
+const colorName = (color: Color) => color === 'w' ? 'White' : 'Black';
+
+// Everything that makes a position impossible to play from; empty when the position is valid
+export const getPositionErrors = (position: Position): string[] => {
+    const { board, turn, castling, enPassant } = position;
+    const isHorde = position.variant === 'horde';
+    const errors: string[] = [];
+
+    (['w', 'b'] as Color[]).forEach(color => {
+        // The Horde (White) plays without a king
+        const expected = isHorde && color === 'w' ? 0 : 1;
+        const kings = countPieces(board, `${color}K` as Piece);
+        if (kings !== expected) {
+            errors.push(expected === 1
+                ? `${colorName(color)} must have exactly one king (found ${kings}).`
+                : `${colorName(color)} has no king in Horde (found ${kings}).`);
+        }
+    });
+
+    // Horde pawns may also start on White's first rank
+    if (board[0].some(piece => piece?.[1] === 'P') || board[7].some(piece => piece === 'bP' || (piece === 'wP' && !isHorde))) {
+        errors.push("Pawns cannot stand on the first or last rank.");
+    }
+
+    if (errors.length === 0 && isInCheck(board, oppositeColor(turn))) {
+        errors.push(`${colorName(oppositeColor(turn))} is in check but it is ${colorName(turn)}'s turn.`);
+    }
+
+    const restricted = restrictCastlingRights(board, castling, position.variant === 'chess960' ? position.castlingFiles : undefined);
+    if ((Object.keys(castling) as (keyof CastlingRights)[]).some(right => castling[right] && !restricted[right])) {
+        errors.push("Castling rights require the king and rook on their starting squares.");
+    }
+
+    if (enPassant) {
+        // The pawn that just made a double step sits in front of the en passant square
+        const expectedRow = turn === 'w' ? 2 : 5;
+        const pawnRow = turn === 'w' ? 3 : 4;
+        const originRow = turn === 'w' ? 1 : 6;
+        const mover = oppositeColor(turn);
+        if (enPassant.row !== expectedRow
+            || board[pawnRow][enPassant.col] !== `${mover}P`
+            || board[enPassant.row][enPassant.col]
+            || board[originRow][enPassant.col]) {
+            errors.push(`En passant square ${squareToName(enPassant)} does not follow a double pawn push.`);
+        }
+    }
+
+    return errors;
+};
@@ -0,0 +1,251 @@
+import { describe, expect, it } from 'vitest';
+import {
+    GameError, GameEvent, GameLog, GameState, INITIAL_GAME_STATE, INITIAL_RECORDED_GAME, gameReducer, getLiveUci, getMoveSeed, recordEvent,
+    replayGame,
+} from './game';
+import { getGameResult, parsePgn } from './pgn';
+import { moveToUci } from './notation';
+import { positionToFen } from './fen';
+import { getCurrentPosition, getLivePosition } from './moveTree';
+import { TimeControl } from './clock';
+
+// Games from the record books, as PGN, with the position they ended in
+const OPERA_GAME = `[Event "Paris"]
+[White "Paul Morphy"]
+[Black "Duke Karl / Count Isouard"]
+[Result "1-0"]
+
+1. e4 e5 2. Nf3 d6 3. d4 Bg4 4. dxe5 Bxf3 5. Qxf3 dxe5 6. Bc4 Nf6 7. Qb3 Qe7
+8. Nc3 c6 9. Bg5 b5 10. Nxb5 cxb5 11. Bxb5+ Nbd7 12. O-O-O Rd8 13. Rxd7 Rxd7
+14. Rd1 Qe6 15. Bxd7+ Nxd7 16. Qb8+ Nxb8 17. Rd8# 1-0`;
+const OPERA_GAME_FEN = '1n1Rkb1r/p4ppp/4q3/4p1B1/4P3/8/PPP2PPP/2K5 b k - 1 17';
+
+const LEGALL_MATE = `[White "Legall de Kermeur"]
+[Black "Saint Brie"]
+[Result "1-0"]
+
+1. e4 e5 2. Nf3 d6 3. Bc4 Bg4 4. Nc3 g6 5. Nxe5 Bxd1 6. Bxf7+ Ke7 7. Nd5# 1-0`;
+const LEGALL_MATE_FEN = 'rn1q1bnr/ppp1kB1p/3p2p1/3NN3/4P3/8/PPPP1PPP/R1BbK2R b KQ - 2 7';
+
+// Kasparov resigned after White's 19th move
+const DEEP_BLUE_GAME_6 = `[Event "IBM Man-Machine, New York USA"]
+[White "Deep Blue"]
+[Black "Garry Kasparov"]
+[Result "1-0"]
+
+1. e4 c6 2. d4 d5 3. Nc3 dxe4 4. Nxe4 Nd7 5. Ng5 Ngf6 6. Bd3 e6 7. N1f3 h6
+8. Nxe6 Qe7 9. O-O fxe6 10. Bg6+ Kd8 11. Bf4 b5 12. a4 Bb7 13. Re1 Nd5
+14. Bg3 Kc8 15. axb5 cxb5 16. Qd3 Bc6 17. Bf5 exf5 18. Rxe7 Bxe7 19. c4 1-0`;
+const DEEP_BLUE_GAME_6_FEN = 'r1k4r/p2nb1p1/2b4p/1p1n1p2/2PP4/3Q1NB1/1P3PPP/R5K1 b - c3 0 19';
+
+const BLITZ: TimeControl = { name: 'Blitz 3+2', baseMs: 180_000, incrementMs: 2_000, delayMs: 0 };
+
+// A log that starts the PGN's game and plays its moves a second apart
+const pgnToLog = (pgn: string, timeControl: TimeControl | null = null): GameLog => {
+    const game = parsePgn(pgn);
+    return [
+        { type: 'reset', fen: positionToFen(game.start), variant: 'standard', timeControl, seed: 1 },
+        ...game.moves.map((move, index): GameEvent => ({ type: 'move', uci: moveToUci(move), at: (index + 1) * 1000 })),
+    ];
+};
+
+const fenOf = (state: GameState) => positionToFen(getLivePosition(state.history));
+
+const play = (state: GameState, moves: string[], at = 0): GameState =>
+    moves.reduce((next, uci, index) => gameReducer(next, { type: 'move', uci, at: at + index }), state);
+
+describe('replaying real games', () => {
+    it('replays the Opera Game to mate', () => {
+        const state = replayGame(pgnToLog(OPERA_GAME));
+        expect(fenOf(state)).toBe(OPERA_GAME_FEN);
+        expect(state.result).toEqual({ winner: 'w', reason: 'checkmate' });
+    });
+
+    it("replays Légal's mate", () => {
+        const state = replayGame(pgnToLog(LEGALL_MATE));
+        expect(fenOf(state)).toBe(LEGALL_MATE_FEN);
+        expect(state.result).toEqual({ winner: 'w', reason: 'checkmate' });
+    });
+
+    it('replays a game that ended in resignation', () => {
+        const log: GameLog = [...pgnToLog(DEEP_BLUE_GAME_6), { type: 'resign', color: 'b', at: 40_000 }];
+        const state = replayGame(log);
+        expect(fenOf(state)).toBe(DEEP_BLUE_GAME_6_FEN);
+        expect(state.result).toEqual({ winner: 'w', reason: 'resignation' });
+    });
+
+    it('replays the same game from a log that went through JSON', () => {
+        const log = pgnToLog(OPERA_GAME, BLITZ);
+        const original = replayGame(log);
+        const copy = replayGame(JSON.parse(JSON.stringify(log)));
+        expect(fenOf(copy)).toBe(fenOf(original));
+        expect(copy.result).toEqual(original.result);
+        expect(copy.clock).toEqual(original.clock);
+        expect(getMoveSeed(copy)).toBe(getMoveSeed(original));
+    });
+
+    it('loads a game from its moves', () => {
+        const state = gameReducer(INITIAL_GAME_STATE, {
+            type: 'load',
+            fen: positionToFen(parsePgn(LEGALL_MATE).start),
+            variant: 'standard',
+            moves: parsePgn(LEGALL_MATE).moves.map(moveToUci),
+            clock: null,
+            result: null,
+            seed: 3,
+        });
+        expect(fenOf(state)).toBe(LEGALL_MATE_FEN);
+        expect(state.result?.reason).toBe('checkmate');
+    });
+
+    it("keeps an imported game's recorded result unless the position decides it", () => {
+        const load = (pgn: string): GameState => {
+            const game = parsePgn(pgn);
+            return gameReducer(INITIAL_GAME_STATE, {
+                type: 'load',
+                fen: positionToFen(game.start),
+                variant: 'standard',
+                moves: game.moves.map(moveToUci),
+                clock: null,
+                result: getGameResult(game.result, game.tags),
+                seed: 0,
+            });
+        };
+        expect(load(DEEP_BLUE_GAME_6).result).toEqual({ winner: 'w', reason: 'resignation' });
+        expect(load(OPERA_GAME).result).toEqual({ winner: 'w', reason: 'checkmate' });
+        expect(load(DEEP_BLUE_GAME_6.replace('[Result "1-0"]', '[Result "1-0"]\n[Termination "time forfeit"]')).result?.reason).toBe('timeout');
+    });
+
+    it('throws on a load with an illegal move rather than cutting the game short', () => {
+        const event: GameEvent = { type: 'load', fen: positionToFen(parsePgn(OPERA_GAME).start), variant: 'standard', moves: ['e2e4', 'e2e4'], clock: null, result: null, seed: 0 };
+        expect(() => gameReducer(INITIAL_GAME_STATE, event)).toThrow(GameError);
+    });
+});
+
+describe('game events', () => {
+    it('ignores illegal moves and moves after the game ended', () => {
+        expect(gameReducer(INITIAL_GAME_STATE, { type: 'move', uci: 'e2e5', at: 0 })).toBe(INITIAL_GAME_STATE);
+        const mated = replayGame(pgnToLog(OPERA_GAME));
+        expect(gameReducer(mated, { type: 'move', uci: 'e8d8', at: 0 })).toBe(mated);
+    });
+
+    it('takes moves back and plays them again', () => {
+        const state = play(INITIAL_GAME_STATE, ['e2e4', 'e7e5', 'g1f3']);
+        const undone = gameReducer(state, { type: 'undo', plies: 2 });
+        expect(getLiveUci(undone)).toEqual(['e2e4']);
+        const redone = gameReducer(undone, { type: 'redo', plies: 2 });
+        expect(getLiveUci(redone)).toEqual(['e2e4', 'e7e5', 'g1f3']);
+        expect(gameReducer(INITIAL_GAME_STATE, { type: 'undo', plies: 1 })).toBe(INITIAL_GAME_STATE);
+        expect(gameReducer(redone, { type: 'redo', plies: 1 })).toBe(redone);
+    });
+
+    it('redoes the line that was taken back, not the main line', () => {
+        const mainLine = gameReducer(play(INITIAL_GAME_STATE, ['e2e4', 'e7e5']), { type: 'undo', plies: 2 });
+        const variation = play(mainLine, ['d2d4', 'd7d5']);
+        const undone = gameReducer(variation, { type: 'undo', plies: 2 });
+        expect(getLiveUci(gameReducer(undone, { type: 'redo', plies: 2 }))).toEqual(['d2d4', 'd7d5']);
+        // Taking back one move at a time still remembers where the first takeback started
+        const stepwise = gameReducer(gameReducer(variation, { type: 'undo', plies: 1 }), { type: 'undo', plies: 1 });
+        expect(getLiveUci(gameReducer(stepwise, { type: 'redo', plies: 2 }))).toEqual(['d2d4', 'd7d5']);
+    });
+
+    it('branches from an earlier move', () => {
+        const state = play(INITIAL_GAME_STATE, ['e2e4', 'e7e5', 'g1f3']);
+        const firstMoveId = state.history.nodes[0].childIds[0];
+        const viewing = gameReducer(state, { type: 'navigate', nodeId: firstMoveId });
+        expect(positionToFen(getCurrentPosition(viewing.history))).toBe('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1');
+        // Moves are still played at the end of the game until it branches
+        expect(getLiveUci(viewing)).toEqual(['e2e4', 'e7e5', 'g1f3']);
+        const branched = play(gameReducer(viewing, { type: 'branch' }), ['c7c5']);
+        expect(getLiveUci(branched)).toEqual(['e2e4', 'c7c5']);
+        expect(gameReducer(branched, { type: 'branch' })).toBe(branched);
+    });
+
+    it('ends the game on resignation, and a takeback undoes it', () => {
+        const resigned = gameReducer(play(INITIAL_GAME_STATE, ['e2e4']), { type: 'resign', color: 'b', at: 5 });
+        expect(resigned.result).toEqual({ winner: 'w', reason: 'resignation' });
+        expect(gameReducer(resigned, { type: 'resign', color: 'w', at: 6 })).toBe(resigned);
+        expect(gameReducer(resigned, { type: 'undo', plies: 1 }).result).toBeNull();
+    });
+
+    it('keeps a draw offer until it is answered or the opponent moves', () => {
+        const offered = gameReducer(play(INITIAL_GAME_STATE, ['e2e4']), { type: 'offer-draw', color: 'b' });
+        expect(offered.drawOfferedBy).toBe('b');
+        expect(gameReducer(offered, { type: 'answer-draw', accept: true, at: 1 }).result).toEqual({ winner: null, reason: 'agreement' });
+        const declined = gameReducer(offered, { type: 'answer-draw', accept: false, at: 1 });
+        expect(declined.drawOfferedBy).toBeNull();
+        expect(declined.result).toBeNull();
+        // Black's own move leaves the offer open; White moving instead declines it
+        const stillOpen = play(offered, ['e7e5']);
+        expect(stillOpen.drawOfferedBy).toBe('b');
+        expect(play(stillOpen, ['g1f3']).drawOfferedBy).toBeNull();
+        expect(gameReducer(INITIAL_GAME_STATE, { type: 'answer-draw', accept: true, at: 1 })).toBe(INITIAL_GAME_STATE);
+    });
+
+    it('runs the clock and ends the game when a flag falls', () => {
+        const started = gameReducer(INITIAL_GAME_STATE, { type: 'reset', fen: positionToFen(getLivePosition(INITIAL_GAME_STATE.history)), variant: 'standard', timeControl: BLITZ, seed: 0 });
+        const running = play(started, ['e2e4'], 1000);
+        expect(running.clock?.running).toBe('b');
+        // Black's time isn't up yet
+        expect(gameReducer(running, { type: 'timeout', at: 100_000 })).toBe(running);
+        const flagged = gameReducer(running, { type: 'timeout', at: 1000 + BLITZ.baseMs });
+        expect(flagged.result).toEqual({ winner: 'w', reason: 'timeout' });
+        expect(flagged.clock?.running).toBeNull();
+    });
+
+    it('does not play a move made after the flag fell', () => {
+        const started = gameReducer(INITIAL_GAME_STATE, { type: 'reset', fen: positionToFen(getLivePosition(INITIAL_GAME_STATE.history)), variant: 'standard', timeControl: BLITZ, seed: 0 });
+        const running = play(started, ['e2e4'], 0);
+        const late = gameReducer(running, { type: 'move', uci: 'e7e5', at: BLITZ.baseMs + 1 });
+        expect(getLiveUci(late)).toEqual(['e2e4']);
+        expect(late.result).toEqual({ winner: 'w', reason: 'timeout' });
+    });
+
+    it('draws by threefold repetition', () => {
+        const state = play(INITIAL_GAME_STATE, ['g1f3', 'g8f6', 'f3g1', 'f6g8', 'g1f3', 'g8f6', 'f3g1', 'f6g8']);
+        expect(state.result).toEqual({ winner: null, reason: 'threefold-repetition' });
+    });
+
+    it('gives every ply of a game its own AI seed', () => {
+        const state = play(INITIAL_GAME_STATE, ['e2e4']);
+        expect(getMoveSeed(state)).not.toBe(getMoveSeed(INITIAL_GAME_STATE));
+        expect(getMoveSeed(play(INITIAL_GAME_STATE, ['d2d4']))).toBe(getMoveSeed(state));
+    });
+});
+
+describe('recorded games', () => {
+    it('records the events that changed the game, and replays them to the same game', () => {
+        const events: GameLog = [
+            ...pgnToLog(LEGALL_MATE, BLITZ).slice(0, 7),
+            { type: 'move', uci: 'a1a8', at: 8000 }, // illegal, so not recorded
+            { type: 'undo', plies: 2 },
+            { type: 'offer-draw', color: 'w' },
+        ];
+        const recorded = events.reduce(recordEvent, INITIAL_RECORDED_GAME);
+        expect(recorded.log).toHaveLength(events.length - 1);
+        const replayed = replayGame(JSON.parse(JSON.stringify(recorded.log)));
+        expect(fenOf(replayed)).toBe(fenOf(recorded.state));
+        expect(replayed.clock).toEqual(recorded.state.clock);
+        expect(replayed.drawOfferedBy).toBe('w');
+    });
+
+    it('starts a new log with every new game', () => {
+        const played = pgnToLog(OPERA_GAME).reduce(recordEvent, INITIAL_RECORDED_GAME);
+        const reset = pgnToLog(LEGALL_MATE)[0];
+        expect(recordEvent(played, reset).log).toEqual([reset]);
+    });
+
+    it('refuses to replay a log with an event that does not apply', () => {
+        const log: GameLog = [...pgnToLog(LEGALL_MATE), { type: 'move', uci: 'e2e4', at: 0 }];
+        expect(() => replayGame(log)).toThrow(GameError);
+    });
+
+    it("doesn't charge the time spent away from a resumed game", () => {
+        const log = pgnToLog(OPERA_GAME, BLITZ).slice(0, 4);
+        const left = replayGame(log);
+        const resumed = gameReducer(left, { type: 'resume', at: 1_000_000 });
+        expect(resumed.clock?.turnStartedAt).toBe(1_000_000);
+        expect(resumed.clock?.remainingMs).toEqual(left.clock?.remainingMs);
+        expect(gameReducer(INITIAL_GAME_STATE, { type: 'resume', at: 0 })).toBe(INITIAL_GAME_STATE);
+    });
+});
@@ -0,0 +1,227 @@
+import { Color, GameResult, Position, Variant } from '../types';
+import { INITIAL_POSITION, oppositeColor } from './rules';
+import { moveToUci, uciToMove } from './notation';
+import { parseFen } from './fen';
+import { getPositionResult, getTimeoutResult } from './gameResult';
+import { ClockState, TimeControl, checkFlag, createClock, pressClock, resumeClock, stopClock } from './clock';
+import {
+    MoveHistory, branchFromCurrent, createHistory, getLivePosition, getPath, getStartPosition, goToNode, playMove, redo, takeBack,
+} from './moveTree';
+import { RandomSource } from './random';
+
+// --- Game State ---
+
+// Everything about a game that the rules decide, independent of React: the moves (with the move
+// the board shows), the clock and how the game ended. It only ever changes through gameReducer.
+export interface GameState {
+    history: MoveHistory;
+    clock: ClockState | null; // null for untimed games
+    drawOfferedBy: Color | null; // open draw offer, declined by the opponent's next move
+    // Set by a resignation, agreed draw or timeout (or a loaded game's recorded result); every other
+    // ending is read off the position
+    declaredResult: GameResult | null;
+    result: GameResult | null; // the live position's result (mate, repetition...), or else declaredResult
+    seed: number; // the AI's choices in this game are drawn from it, see getMoveSeed
+}
+
+// --- Events ---
+
+// What can happen to a game. Events are plain JSON (moves are UCI, times are timestamps taken
+// when the event happened), so a log of them can be stored or sent and replays the same way.
+export type GameEvent =
+    // A new game from the setup, on the clock when a time control is given
+    | { type: 'reset', fen: string, variant: Variant, timeControl: TimeControl | null, seed: number }
+    // Replaces the whole game, e.g. with a saved game, an imported PGN or an online room's copy
+    | { type: 'load', fen: string, variant: Variant, moves: string[], clock: ClockState | null, result: GameResult | null, seed: number }
+    | { type: 'move', uci: string, at: number }
+    // Takes back moves, and with them a resignation or agreed draw, so play can go on
+    | { type: 'undo', plies: number }
+    | { type: 'redo', plies: number }
+    // Shows another move of the game on the board; a move played there starts a new line
+    | { type: 'navigate', nodeId: number }
+    // Makes the line up to the move on the board the game being played
+    | { type: 'branch' }
+    | { type: 'resign', color: Color, at: number }
+    // Checks the running clock; the game is lost on time if it has run out
+    | { type: 'timeout', at: number }
+    | { type: 'offer-draw', color: Color }
+    | { type: 'answer-draw', accept: boolean, at: number }
+    // Restarts the turn of the side to move at `at`, so time spent away from a saved game isn't charged
+    | { type: 'resume', at: number };
+
+export type GameLog = GameEvent[];
+
+export class GameError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'GameError';
+    }
+}
+
+// --- Reducer ---
+
+const getLine = (history: MoveHistory): Position[] =>
+    [getStartPosition(history), ...getPath(history, history.liveId).map(node => node.position)];
+
+// Recomputes the result after the game changed, stopping the clock once it is over
+const settle = (state: GameState, at: number | null): GameState => {
+    const result = getPositionResult(getLine(state.history)) ?? state.declaredResult;
+    const clock = result && state.clock && at !== null ? stopClock(state.clock, at) : state.clock;
+    return { ...state, result, clock };
+};
+
+// The game from `fen` with `moves` played. Throws a FenError or GameError rather than start a
+// different game than the one described.
+const startGame = (fen: string, variant: Variant, moves: string[]): MoveHistory => {
+    let history = createHistory(parseFen(fen, variant));
+    moves.forEach((uci, index) => {
+        const move = uciToMove(getLivePosition(history), uci);
+        if (!move) throw new GameError(`Move ${index + 1} (${uci}) is illegal.`);
+        history = playMove(history, move);
+    });
+    return history;
+};
+
+export const INITIAL_GAME_STATE: GameState = settle({
+    history: createHistory(INITIAL_POSITION),
+    clock: null,
+    drawOfferedBy: null,
+    declaredResult: null,
+    result: null,
+    seed: 0,
+}, null);
+
+// The game after `event`. Events that don't apply, such as a move after the game ended or an
+// illegal one, leave the state as it was (the same object). A 'reset' or 'load' that can't be
+// read throws instead, so check those before dispatching them from a component.
+export const gameReducer = (state: GameState, event: GameEvent): GameState => {
+    switch (event.type) {
+        case 'reset':
+            return settle({
+                history: startGame(event.fen, event.variant, []),
+                clock: event.timeControl ? createClock(event.timeControl) : null,
+                drawOfferedBy: null,
+                declaredResult: null,
+                result: null,
+                seed: event.seed,
+            }, null);
+
+        case 'load':
+            return settle({
+                history: startGame(event.fen, event.variant, event.moves),
+                clock: event.clock,
+                drawOfferedBy: null,
+                declaredResult: event.result,
+                result: null,
+                seed: event.seed,
+            }, null);
+
+        case 'move': {
+            if (state.result) return state;
+            const position = getLivePosition(state.history);
+            const move = uciToMove(position, event.uci);
+            if (!move) return state;
+            const mover = position.turn;
+            // A move made after the mover's flag fell is not played: the game was already lost on time
+            const flagged = state.clock && checkFlag(state.clock, event.at);
+            if (flagged?.flagged) {
+                return settle({
+                    ...state,
+                    clock: flagged,
+                    drawOfferedBy: null,
+                    declaredResult: getTimeoutResult(position.board, flagged.flagged, position.variant),
+                }, event.at);
+            }
+            return settle({
+                ...state,
+                history: playMove(state.history, move),
+                clock: state.clock && pressClock(state.clock, mover, event.at),
+                drawOfferedBy: state.drawOfferedBy === mover ? mover : null,
+                declaredResult: null,
+            }, event.at);
+        }
+
+        case 'undo': {
+            const history = takeBack(state.history, event.plies);
+            if (history.liveId === state.history.liveId && !state.declaredResult) return state;
+            return settle({ ...state, history, drawOfferedBy: null, declaredResult: null }, null);
+        }
+
+        case 'redo': {
+            const history = redo(state.history, event.plies);
+            return history.liveId === state.history.liveId ? state : settle({ ...state, history }, null);
+        }
+
+        case 'navigate': {
+            const history = goToNode(state.history, event.nodeId);
+            return history.currentId === state.history.currentId ? state : { ...state, history };
+        }
+
+        case 'branch':
+            return state.history.currentId === state.history.liveId ? state : settle({ ...state, history: branchFromCurrent(state.history) }, null);
+
+        case 'resign':
+            if (state.result) return state;
+            return settle({ ...state, drawOfferedBy: null, declaredResult: { winner: oppositeColor(event.color), reason: 'resignation' } }, event.at);
+
+        case 'timeout': {
+            if (state.result || !state.clock) return state;
+            const clock = checkFlag(state.clock, event.at);
+            if (!clock.flagged) return state;
+            const position = getLivePosition(state.history);
+            return settle({ ...state, clock, drawOfferedBy: null, declaredResult: getTimeoutResult(position.board, clock.flagged, position.variant) }, event.at);
+        }
+
+        case 'offer-draw':
+            return state.result || state.drawOfferedBy ? state : { ...state, drawOfferedBy: event.color };
+
+        case 'answer-draw':
+            if (state.result || !state.drawOfferedBy) return state;
+            if (!event.accept) return { ...state, drawOfferedBy: null };
+            return settle({ ...state, drawOfferedBy: null, declaredResult: { winner: null, reason: 'agreement' } }, event.at);
+
+        case 'resume':
+            if (state.result || !state.clock?.running) return state;
+            return { ...state, clock: resumeClock({ ...state.clock, turnStartedAt: null }, event.at) };
+    }
+};
+
+// The game a log describes. A recorded log only holds events that changed the game, so one that
+// doesn't apply means the log is corrupt or belongs to another game: that throws a GameError.
+export const replayGame = (log: GameLog, initial: GameState = INITIAL_GAME_STATE): GameState =>
+    log.reduce((state, event, index) => {
+        const next = gameReducer(state, event);
+        if (next === state) throw new GameError(`Event ${index + 1} (${event.type}) does not apply to the game.`);
+        return next;
+    }, initial);
+
+// --- Recorded Games ---
+
+// A game together with the events that made it. The log is what gets saved and sent: replaying it
+// gives the same game back.
+export interface RecordedGame {
+    state: GameState;
+    log: GameLog; // starts with the 'reset' or 'load' that began the game
+}
+
+export const INITIAL_RECORDED_GAME: RecordedGame = { state: INITIAL_GAME_STATE, log: [] };
+
+// Applies `event` and records it if it changed the game; a 'reset' or 'load' starts a new log
+export const recordEvent = (game: RecordedGame, event: GameEvent): RecordedGame => {
+    const state = gameReducer(game.state, event);
+    if (state === game.state) return game;
+    return { state, log: event.type === 'reset' || event.type === 'load' ? [event] : [...game.log, event] };
+};
+
+// --- Derived Values ---
+
+// The live line as UCI, e.g. for a 'load' event or an external engine
+export const getLiveUci = (state: GameState): string[] =>
+    getPath(state.history, state.history.liveId).map(node => moveToUci(node.move!));
+
+// The seed for the AI's next move. It depends only on the game's seed and the ply, not the position,
+// so the same game and ply always give the same seed and a replayed game gets the same replies.
+export const getMoveSeed = (state: GameState): number =>
+    (state.seed + Math.imul(getPath(state.history, state.history.liveId).length + 1, 0x9E3779B1)) >>> 0;
+
+export const createSeed = (random: RandomSource = Math.random): number => Math.floor(random() * 0x100000000);
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { GameStorageError, SavedGame, restoreSavedGame } from './gameLibrary';
+import { GameLog, INITIAL_RECORDED_GAME, recordEvent } from './game';
+import { positionToFen } from './fen';
+import { INITIAL_POSITION } from './rules';
+import { getLiveMoves, getLivePosition } from './moveTree';
+import { moveToUci } from './notation';
+
+const START_FEN = positionToFen(INITIAL_POSITION);
+const RAPID = { name: 'Rapid 10+0', baseMs: 600_000, incrementMs: 0, delayMs: 0 };
+
+const EVENTS: GameLog = [
+    { type: 'reset', fen: START_FEN, variant: 'standard', timeControl: RAPID, seed: 7 },
+    { type: 'move', uci: 'e2e4', at: 1000 },
+    { type: 'move', uci: 'c7c5', at: 5000 },
+    { type: 'move', uci: 'g1f3', at: 9000 },
+];
+
+const savedGame = (overrides: Partial<SavedGame>): SavedGame => ({
+    id: 'game-1',
+    startedAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:01:00.000Z',
+    mode: 'local',
+    difficulty: 'Easy',
+    opponent: 'Local 2-player',
+    variant: 'standard',
+    startFen: START_FEN,
+    moves: ['e4', 'c5', 'Nf3'],
+    timeControl: RAPID,
+    clock: null,
+    result: null,
+    ...overrides,
+});
+
+describe('restoring saved games', () => {
+    it('replays the saved events and restarts the running clock', () => {
+        const played = EVENTS.reduce(recordEvent, INITIAL_RECORDED_GAME);
+        const restored = restoreSavedGame(savedGame({ events: played.log, clock: played.state.clock }), 60_000);
+        expect(getLiveMoves(restored.state.history).map(moveToUci)).toEqual(['e2e4', 'c7c5', 'g1f3']);
+        expect(restored.state.seed).toBe(7);
+        expect(restored.state.clock?.running).toBe('b');
+        expect(restored.state.clock?.turnStartedAt).toBe(60_000);
+        expect(restored.log).toEqual([...played.log, { type: 'resume', at: 60_000 }]);
+    });
+
+    it('rebuilds games saved before events were kept from their moves', () => {
+        const restored = restoreSavedGame(savedGame({ timeControl: null }), 0);
+        expect(positionToFen(getLivePosition(restored.state.history))).toBe('rnbqkbnr/pp1ppppp/8/2p5/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 1 2');
+        expect(restored.log).toHaveLength(1);
+    });
+
+    it('reports a record that does not replay', () => {
+        const events: GameLog = [...EVENTS, { type: 'move', uci: 'g1f3', at: 10_000 }];
+        expect(() => restoreSavedGame(savedGame({ events }), 0)).toThrow(GameStorageError);
+        expect(() => restoreSavedGame(savedGame({ moves: ['e4', 'e4'] }), 0)).toThrow(GameStorageError);
+    });
+});
@@ -0,0 +1,103 @@
+import { Difficulty, GameMode, GameResult, Move, Players, Variant } from '../types';
+import { applyMove } from './rules';
+import { moveToUci, sanToMove } from './notation';
+import { FenError, parseFen } from './fen';
+import { ClockState, TimeControl } from './clock';
+import { MoveHistory, createHistory, getLiveMoves } from './moveTree';
+import { GameError, GameLog, RecordedGame, recordEvent, replayGame } from './game';
+
+// --- Saved Games ---
+
+// A game as it is stored: the game in progress (for resuming after a reload) and every finished
+// game in the library use the same record. The game's events are what restores it; the moves are
+// also kept as SAN from a FEN start so a record stays readable outside the app.
+export interface SavedGame {
+    id: string;
+    startedAt: string; // ISO timestamps
+    updatedAt: string;
+    mode: GameMode;
+    difficulty: Difficulty;
+    players?: Players; // missing from games saved before color choice existed
+    opponent: string;
+    variant?: Variant; // missing from games saved before variants existed, which are all standard chess
+    startFen: string;
+    moves: string[];
+    timeControl: TimeControl | null;
+    clock: ClockState | null;
+    result: GameResult | null; // null while the game is in progress
+    // Everything that happened in the game, replayed to restore it; missing from games saved before it was kept
+    events?: GameLog;
+}
+
+// Where games are kept. The app only talks to this interface, so the localStorage implementation
+// can be swapped for a remote table without touching the UI.
+export interface GameStorage {
+    loadCurrentGame(): Promise<SavedGame | null>;
+    saveCurrentGame(game: SavedGame): Promise<void>;
+    clearCurrentGame(): Promise<void>;
+    // Finished games, newest first
+    listGames(): Promise<SavedGame[]>;
+    // Adds the game to the library, replacing an earlier copy with the same id
+    saveGame(game: SavedGame): Promise<void>;
+    deleteGame(id: string): Promise<void>;
+}
+
+export class GameStorageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'GameStorageError';
+    }
+}
+
+export const getOpponentName = (mode: GameMode, players: Players): string => {
+    const { humanColor, aiLevels } = players;
+    if (mode === 'ai') return `AI (${aiLevels[humanColor === 'w' ? 'b' : 'w']}), you played ${humanColor === 'w' ? 'White' : 'Black'}`;
+    if (mode === 'spectator') return `AI (${aiLevels.w}) vs AI (${aiLevels.b})`;
+    if (mode === 'multiplayer') return 'Online opponent';
+    return 'Local 2-player';
+};
+
+export const getSavedPlayers = (game: SavedGame): Players =>
+    game.players ?? { humanColor: 'w', aiLevels: { w: game.difficulty, b: game.difficulty } };
+
+// Full moves, counting a lone White or Black move as one
+export const getGameLength = (game: SavedGame): number => Math.ceil(game.moves.length / 2);
+
+// Rebuilds the move tree of a saved game, throwing if the record doesn't replay
+export const restoreHistory = (game: SavedGame): MoveHistory => {
+    let position = parseFen(game.startFen, game.variant);
+    const start = position;
+    const moves: Move[] = game.moves.map((san, index) => {
+        const move = sanToMove(position, san);
+        if (!move) throw new GameStorageError(`Saved game is corrupt: move ${index + 1} (${san}) is illegal.`);
+        position = applyMove(position, move);
+        return move;
+    });
+    return createHistory(start, moves);
+};
+
+// A saved game as it was played, from replaying its events. Games saved before events were kept
+// are rebuilt from their moves. Time spent away from the game isn't charged: a running clock
+// restarts at `now`. Throws a GameStorageError if the record doesn't replay.
+export const restoreSavedGame = (game: SavedGame, now: number): RecordedGame => {
+    const log: GameLog = game.events ?? [{
+        type: 'load',
+        fen: game.startFen,
+        variant: game.variant ?? 'standard',
+        moves: getLiveMoves(restoreHistory(game)).map(moveToUci),
+        clock: game.clock,
+        result: game.result,
+        seed: 0,
+    }];
+    let state;
+    try {
+        state = replayGame(log);
+    } catch (error) {
+        if (error instanceof GameError || error instanceof FenError) throw new GameStorageError(`Saved game is corrupt: ${error.message}`);
+        throw error;
+    }
+    return recordEvent({ state, log }, { type: 'resume', at: now });
+};
+
+export const sortNewestFirst = (games: SavedGame[]): SavedGame[] =>
+    [...games].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
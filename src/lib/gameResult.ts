@@ -0,0 +1,139 @@
+import { BoardState, Color, GameResult, Position, Variant } from '../types';
+import { getGameStatus, getLegalMoves, getPieceColor, getPieceType, oppositeColor } from './rules';
+import { hashPosition } from './zobrist';
+import { getVariant, getVariantWin } from './variants';
+
+// --- Game Endings ---
+
+// 50 moves by each side without a capture or pawn move
+const FIFTY_MOVE_PLIES = 100;
+
+const colorName = (color: Color) => color === 'w' ? 'White' : 'Black';
+
+const squareColor = (row: number, col: number) => (row + col) % 2;
+
+// No sequence of legal moves can lead to mate: bare kings, a single minor piece,
+// or any number of bishops that all stand on squares of the same color
+export const isInsufficientMaterial = (board: BoardState): boolean => {
+    const minors: { type: string, shade: number }[] = [];
+    for (let r = 0; r < 8; r++) {
+        for (let c = 0; c < 8; c++) {
+            const type = getPieceType(board[r][c]);
+            if (!type || type === 'K') continue;
+            if (type !== 'N' && type !== 'B') return false;
+            minors.push({ type, shade: squareColor(r, c) });
+        }
+    }
+    if (minors.length <= 1) return true;
+    return minors.every(piece => piece.type === 'B' && piece.shade === minors[0].shade);
+};
+
+// Whether `color` could still deliver mate with help from the opponent. Decides if running out
+// of time loses or only draws.
+export const canCheckmate = (board: BoardState, color: Color): boolean => {
+    let minors = 0;
+    let opponentPieces = 0;
+    for (const row of board) {
+        for (const piece of row) {
+            const type = getPieceType(piece);
+            if (!type || type === 'K') continue;
+            if (getPieceColor(piece) !== color) opponentPieces++;
+            else if (type === 'N' || type === 'B') minors++;
+            else return true;
+        }
+    }
+    // A lone minor piece can only mate a king that has its own pieces to block it in
+    return minors > 1 || (minors === 1 && opponentPieces > 0);
+};
+
+const hasOnlyKings = (board: BoardState): boolean => board.every(row => row.every(piece => !piece || piece[1] === 'K'));
+
+// In King of the Hill a lone king can still walk to the center and in Horde it can still take the
+// pawns, so neither ever runs out of material; in Three-check any piece but a king can give check
+const isDrawnByMaterial = (position: Position): boolean => {
+    switch (getVariant(position)) {
+        case 'kingOfTheHill':
+        case 'horde':
+            return false;
+        case 'threeCheck':
+            return hasOnlyKings(position.board);
+        default:
+            return isInsufficientMaterial(position.board);
+    }
+};
+
+// Positions count as the same only when the same moves are available, so an en passant square
+// only matters if the capture can actually be made
+const repetitionKey = (position: Position): number => {
+    const canCaptureEnPassant = !!position.enPassant && getLegalMoves(position).some(move => move.enPassant);
+    return hashPosition(canCaptureEnPassant ? position : { ...position, enPassant: null });
+};
+
+export const isThreefoldRepetition = (positions: Position[]): boolean => {
+    if (positions.length < 5) return false;
+    const current = repetitionKey(positions[positions.length - 1]);
+    // Nothing before the last capture or pawn move can repeat
+    const earliest = Math.max(0, positions.length - 1 - positions[positions.length - 1].halfmoveClock);
+    let count = 0;
+    for (let i = positions.length - 1; i >= earliest; i -= 2) {
+        if (repetitionKey(positions[i]) === current) count++;
+    }
+    return count >= 3;
+};
+
+// Result decided by the board alone. `positions` is the game from its start position up to the
+// current one; an empty result means play goes on.
+export const getPositionResult = (positions: Position[]): GameResult | null => {
+    const position = positions[positions.length - 1];
+    const variantWin = getVariantWin(position);
+    if (variantWin) return variantWin;
+    const status = getGameStatus(position);
+    if (status === 'checkmate') return { winner: oppositeColor(position.turn), reason: 'checkmate' };
+    if (status === 'stalemate') return { winner: null, reason: 'stalemate' };
+    if (isDrawnByMaterial(position)) return { winner: null, reason: 'insufficient-material' };
+    if (position.halfmoveClock >= FIFTY_MOVE_PLIES) return { winner: null, reason: 'fifty-move-rule' };
+    if (isThreefoldRepetition(positions)) return { winner: null, reason: 'threefold-repetition' };
+    return null;
+};
+
+export const getTimeoutResult = (board: BoardState, flagged: Color, variant: Variant = 'standard'): GameResult => {
+    const opponent = oppositeColor(flagged);
+    const canStillWin = variant === 'kingOfTheHill' || variant === 'horde'
+        || (variant === 'threeCheck' ? board.some(row => row.some(piece => getPieceColor(piece) === opponent && piece![1] !== 'K')) : canCheckmate(board, opponent));
+    return { winner: canStillWin ? opponent : null, reason: 'timeout' };
+};
+
+// --- Display ---
+
+export const formatScore = (result: GameResult): string =>
+    result.winner === 'w' ? '1-0' : result.winner === 'b' ? '0-1' : '½-½';
+
+export const describeResult = (result: GameResult): string => {
+    const { winner } = result;
+    switch (result.reason) {
+        case 'checkmate':
+            return `${colorName(winner!)} wins by checkmate.`;
+        case 'resignation':
+            return `${colorName(oppositeColor(winner!))} resigned. ${colorName(winner!)} wins.`;
+        case 'timeout':
+            return winner
+                ? `${colorName(oppositeColor(winner))} ran out of time. ${colorName(winner)} wins.`
+                : "Time ran out, but the opponent has no mating material. Draw.";
+        case 'stalemate':
+            return "Draw by stalemate.";
+        case 'threefold-repetition':
+            return "Draw by threefold repetition.";
+        case 'fifty-move-rule':
+            return "Draw by the fifty-move rule.";
+        case 'insufficient-material':
+            return "Draw by insufficient material.";
+        case 'agreement':
+            return "Draw by agreement.";
+        case 'king-of-the-hill':
+            return `${colorName(winner!)}'s king reached the center. ${colorName(winner!)} wins.`;
+        case 'three-check':
+            return `${colorName(winner!)} gave the third check and wins.`;
+        case 'horde-captured':
+            return "Black captured the whole horde and wins.";
+    }
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { GlickoRating, INITIAL_RATING, expectedScore, formatRating, getScore, rateGame, updateRating } from './glicko';
+
+// The worked example from Glickman's paper: a 1500 player beats a 1400 and loses to a 1550 and a 1700
+const EXAMPLE_PLAYER: GlickoRating = { rating: 1500, deviation: 200, volatility: 0.06 };
+const EXAMPLE_GAMES = [
+    { opponent: { rating: 1400, deviation: 30, volatility: 0.06 }, score: 1 },
+    { opponent: { rating: 1550, deviation: 100, volatility: 0.06 }, score: 0 },
+    { opponent: { rating: 1700, deviation: 300, volatility: 0.06 }, score: 0 },
+];
+
+describe('Glicko-2', () => {
+    it("reproduces the example from Glickman's paper", () => {
+        // The paper rounds along the way, so its figures are matched to their last digit or so
+        const after = updateRating(EXAMPLE_PLAYER, EXAMPLE_GAMES, 0.5);
+        expect(after.rating).toBeCloseTo(1464.06, 1);
+        expect(after.deviation).toBeCloseTo(151.52, 2);
+        expect(after.volatility).toBeCloseTo(0.05999, 4);
+    });
+
+    it('only grows the deviation over a period without games', () => {
+        const after = updateRating(EXAMPLE_PLAYER, []);
+        expect(after.rating).toBe(1500);
+        expect(after.deviation).toBeCloseTo(200.27, 2);
+        expect(updateRating(INITIAL_RATING, []).deviation).toBe(350);
+    });
+
+    it('moves both players by the same amount after a game between equals', () => {
+        const won = rateGame({ w: INITIAL_RATING, b: INITIAL_RATING }, 'w');
+        expect(won.w.rating).toBeGreaterThan(1500);
+        expect(won.w.rating - 1500).toBeCloseTo(1500 - won.b.rating, 6);
+
+        const drawn = rateGame({ w: INITIAL_RATING, b: INITIAL_RATING }, null);
+        expect(drawn.w.rating).toBeCloseTo(1500, 6);
+        expect(drawn.w.deviation).toBeLessThan(INITIAL_RATING.deviation);
+    });
+
+    it('scores and formats results', () => {
+        expect([getScore('w', 'w'), getScore('w', 'b'), getScore(null, 'b')]).toEqual([1, 0, 0.5]);
+        expect(expectedScore(INITIAL_RATING, INITIAL_RATING)).toBe(0.5);
+        expect(formatRating(INITIAL_RATING)).toBe('1500?');
+        expect(formatRating({ rating: 1712.6, deviation: 60, volatility: 0.06 })).toBe('1713');
+    });
+});
@@ -0,0 +1,122 @@
+import { Color } from '../types';
+
+// --- Glicko-2 Ratings ---
+
+// Glickman's Glicko-2 system (http://www.glicko.net/glicko/glicko2.pdf). A rating carries its own
+// uncertainty: the deviation shrinks as games are played, and the volatility tracks how erratic a
+// player's results are. Every game is rated on its own, as a rating period of one game.
+
+export interface GlickoRating {
+    rating: number;
+    deviation: number; // RD: about 95% sure the true strength is within rating +- 2 RD
+    volatility: number;
+}
+
+// One game from the rated player's side; score is 1 for a win, 0.5 for a draw and 0 for a loss
+export interface GlickoGame {
+    opponent: GlickoRating;
+    score: number;
+}
+
+export const INITIAL_RATING: GlickoRating = { rating: 1500, deviation: 350, volatility: 0.06 };
+
+// Constrains how fast the volatility changes; Glickman suggests 0.3 to 1.2
+export const DEFAULT_TAU = 0.5;
+
+// Ratings with a deviation above this are shown as provisional
+export const PROVISIONAL_DEVIATION = 110;
+
+const SCALE = 173.7178; // converts between the Glicko and Glicko-2 scales
+const CONVERGENCE = 0.000001;
+const MAX_DEVIATION = INITIAL_RATING.deviation;
+
+const g = (phi: number): number => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+
+const expected = (mu: number, opponentMu: number, opponentPhi: number): number =>
+    1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+
+// Chance of `player` beating `opponent`, counting a draw as half a win
+export const expectedScore = (player: GlickoRating, opponent: GlickoRating): number =>
+    expected((player.rating - 1500) / SCALE, (opponent.rating - 1500) / SCALE, opponent.deviation / SCALE);
+
+export const isProvisional = (rating: GlickoRating): boolean => rating.deviation > PROVISIONAL_DEVIATION;
+
+// Rounded, with a question mark while provisional (e.g. "1500?")
+export const formatRating = (rating: GlickoRating): string =>
+    `${Math.round(rating.rating)}${isProvisional(rating) ? '?' : ''}`;
+
+// New volatility by the Illinois algorithm (step 5 of the paper)
+const updateVolatility = (phi: number, sigma: number, variance: number, delta: number, tau: number): number => {
+    const a = Math.log(sigma * sigma);
+    const f = (x: number) => {
+        const ex = Math.exp(x);
+        const denominator = phi * phi + variance + ex;
+        return (ex * (delta * delta - phi * phi - variance - ex)) / (2 * denominator * denominator) - (x - a) / (tau * tau);
+    };
+
+    let A = a;
+    let B: number;
+    if (delta * delta > phi * phi + variance) {
+        B = Math.log(delta * delta - phi * phi - variance);
+    } else {
+        let k = 1;
+        while (f(a - k * tau) < 0) k++;
+        B = a - k * tau;
+    }
+
+    let fA = f(A);
+    let fB = f(B);
+    while (Math.abs(B - A) > CONVERGENCE) {
+        const C = A + ((A - B) * fA) / (fB - fA);
+        const fC = f(C);
+        if (fC * fB <= 0) {
+            A = B;
+            fA = fB;
+        } else {
+            fA /= 2;
+        }
+        B = C;
+        fB = fC;
+    }
+    return Math.exp(A / 2);
+};
+
+// The player's rating after the given games. Without games only the deviation grows, as the
+// rating becomes less certain over time.
+export const updateRating = (player: GlickoRating, games: GlickoGame[], tau: number = DEFAULT_TAU): GlickoRating => {
+    const mu = (player.rating - 1500) / SCALE;
+    const phi = player.deviation / SCALE;
+
+    if (games.length === 0) {
+        const deviation = Math.sqrt(phi * phi + player.volatility * player.volatility) * SCALE;
+        return { ...player, deviation: Math.min(deviation, MAX_DEVIATION) };
+    }
+
+    const opponents = games.map(({ opponent, score }) => {
+        const opponentMu = (opponent.rating - 1500) / SCALE;
+        const opponentPhi = opponent.deviation / SCALE;
+        return { weight: g(opponentPhi), expectation: expected(mu, opponentMu, opponentPhi), score };
+    });
+    const variance = 1 / opponents.reduce((sum, { weight, expectation }) => sum + weight * weight * expectation * (1 - expectation), 0);
+    const improvement = opponents.reduce((sum, { weight, expectation, score }) => sum + weight * (score - expectation), 0);
+
+    const volatility = updateVolatility(phi, player.volatility, variance, variance * improvement, tau);
+    const prePhi = Math.sqrt(phi * phi + volatility * volatility);
+    const newPhi = 1 / Math.sqrt(1 / (prePhi * prePhi) + 1 / variance);
+    const newMu = mu + newPhi * newPhi * improvement;
+
+    return {
+        rating: newMu * SCALE + 1500,
+        deviation: Math.min(newPhi * SCALE, MAX_DEVIATION),
+        volatility,
+    };
+};
+
+// Score of `color` in a game won by `winner` (null for a draw)
+export const getScore = (winner: Color | null, color: Color): number => winner === null ? 0.5 : winner === color ? 1 : 0;
+
+// Both players' new ratings after a game between them, each judged against the other's old rating
+export const rateGame = (ratings: Record<Color, GlickoRating>, winner: Color | null, tau: number = DEFAULT_TAU): Record<Color, GlickoRating> => ({
+    w: updateRating(ratings.w, [{ opponent: ratings.b, score: getScore(winner, 'w') }], tau),
+    b: updateRating(ratings.b, [{ opponent: ratings.w, score: getScore(winner, 'b') }], tau),
+});
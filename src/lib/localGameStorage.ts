@@ -0,0 +1,51 @@
+import { GameStorage, SavedGame, sortNewestFirst } from './gameLibrary';
+
+// Keeps the game in progress and the library of finished games in localStorage. Unreadable
+// entries (e.g. from an older version) are treated as missing rather than breaking the app.
+
+const CURRENT_GAME_KEY = 'supreme-chess-current-game';
+const LIBRARY_KEY = 'supreme-chess-library';
+
+const read = <T>(key: string, fallback: T): T => {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) as T : fallback;
+    } catch {
+        return fallback;
+    }
+};
+
+const write = (key: string, value: unknown) => localStorage.setItem(key, JSON.stringify(value));
+
+export const createLocalGameStorage = (): GameStorage => {
+    const readLibrary = (): SavedGame[] => {
+        const games = read<unknown>(LIBRARY_KEY, []);
+        return Array.isArray(games) ? games : [];
+    };
+
+    return {
+        async loadCurrentGame() {
+            return read<SavedGame | null>(CURRENT_GAME_KEY, null);
+        },
+
+        async saveCurrentGame(game) {
+            write(CURRENT_GAME_KEY, game);
+        },
+
+        async clearCurrentGame() {
+            localStorage.removeItem(CURRENT_GAME_KEY);
+        },
+
+        async listGames() {
+            return sortNewestFirst(readLibrary());
+        },
+
+        async saveGame(game) {
+            write(LIBRARY_KEY, [...readLibrary().filter(saved => saved.id !== game.id), game]);
+        },
+
+        async deleteGame(id) {
+            write(LIBRARY_KEY, readLibrary().filter(saved => saved.id !== id));
+        },
+    };
+};
@@ -0,0 +1,107 @@
+import { AuthService, AuthUser, PlayerError, PlayerProfile, PlayerStore, RatingChange } from './players';
+
+// In-memory stand-ins for Supabase Auth and the player tables, used when Supabase isn't
+// configured and for exercising rating logic without a network. Everything is forgotten on
+// reload, and every read/write goes through a JSON round trip so callers never share objects.
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+interface LocalAccount {
+    id: string;
+    password: string;
+}
+
+export const createLocalAuth = (): AuthService => {
+    const accounts = new Map<string, LocalAccount>(); // by email
+    const listeners = new Set<(user: AuthUser | null) => void>();
+    let current: AuthUser | null = null;
+
+    const setUser = (user: AuthUser | null) => {
+        current = user;
+        listeners.forEach(listener => listener(user && { ...user }));
+        return user;
+    };
+
+    const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+    return {
+        async getUser() {
+            return current && { ...current };
+        },
+
+        async signInAsGuest() {
+            return setUser({ id: crypto.randomUUID(), email: null, isGuest: true })!;
+        },
+
+        async signInWithEmail(email, password) {
+            const account = accounts.get(normalizeEmail(email));
+            if (!account || account.password !== password) throw new PlayerError("Invalid email or password.");
+            return setUser({ id: account.id, email: normalizeEmail(email), isGuest: false })!;
+        },
+
+        async signUpWithEmail(email, password) {
+            const key = normalizeEmail(email);
+            if (!key.includes('@')) throw new PlayerError("Enter a valid email address.");
+            if (password.length < 6) throw new PlayerError("Passwords need at least 6 characters.");
+            if (accounts.has(key)) throw new PlayerError("An account with this email already exists.");
+            // A guest signing up keeps their id, like linking an identity to an anonymous Supabase user
+            const id = current?.isGuest ? current.id : crypto.randomUUID();
+            accounts.set(key, { id, password });
+            return setUser({ id, email: key, isGuest: false });
+        },
+
+        async signOut() {
+            setUser(null);
+        },
+
+        onChange(listener) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+};
+
+export const createLocalPlayerStore = (): PlayerStore => {
+    const profiles = new Map<string, PlayerProfile>();
+    const ratedGames = new Set<string>();
+    const history: RatingChange[] = [];
+
+    return {
+        async getProfile(id) {
+            const profile = profiles.get(id);
+            return profile ? clone(profile) : null;
+        },
+
+        async saveProfile(profile) {
+            profiles.set(profile.id, clone(profile));
+        },
+
+        async getLeaderboard(pool, limit) {
+            return [...profiles.values()]
+                .filter(profile => profile.games[pool] > 0)
+                .sort((a, b) => b.ratings[pool].rating - a.ratings[pool].rating)
+                .slice(0, limit)
+                .map(clone);
+        },
+
+        async getRatingHistory(playerId, limit) {
+            return [...history]
+                .reverse()
+                .filter(change => change.playerId === playerId)
+                .slice(0, limit)
+                .map(clone);
+        },
+
+        async claimGame(gameId) {
+            if (ratedGames.has(gameId)) return false;
+            ratedGames.add(gameId);
+            return true;
+        },
+
+        async addRatingChanges(changes) {
+            history.push(...clone(changes));
+        },
+    };
+};
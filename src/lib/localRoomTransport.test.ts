@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { LocalRoomTransport, createLocalRoomTransport } from './localRoomTransport';
+import { ConnectionStatus, RoomState, getPlayerColor, getRoomGame } from './rooms';
+import { TimeControl, TimeSource, createCustomTimeControl } from './clock';
+import { uciToMove } from './notation';
+import { getLivePosition } from './moveTree';
+import { createLocalPlayerStore } from './localPlayerStore';
+import { ensureProfile } from './players';
+import { INITIAL_RATING } from './glicko';
+
+// The transport's server clock, moved forward by hand
+let time = 0;
+const now: TimeSource = () => time;
+
+const THREE_TWO: TimeControl = createCustomTimeControl(3, 2, 0);
+
+const getMove = (room: RoomState, uci: string) => uciToMove(getLivePosition(getRoomGame(room).history), uci)!;
+
+// A room where 'alice' created it and 'bob' joined, with the ids of whoever got White and Black
+const startRoom = async (transport: LocalRoomTransport, timeControl: TimeControl | null = null) => {
+    const created = await transport.createRoom('alice', timeControl, 'standard');
+    const room = await transport.joinRoom(created.code.toLowerCase(), 'bob');
+    return { room, white: room.white!, black: room.black! };
+};
+
+let transport: LocalRoomTransport;
+
+beforeEach(() => {
+    time = 1_000_000;
+    transport = createLocalRoomTransport(now);
+});
+
+describe('local room transport', () => {
+    it('seats the creator and the player who joins in opposite colors', async () => {
+        const created = await transport.createRoom('alice', null, 'standard');
+        expect(getPlayerColor(created, 'alice')).not.toBeNull();
+        expect(getPlayerColor(created, 'bob')).toBeNull();
+
+        const joined = await transport.joinRoom(` ${created.code.toLowerCase()} `, 'bob');
+        expect(getPlayerColor(joined, 'bob')).toBe(getPlayerColor(created, 'alice') === 'w' ? 'b' : 'w');
+        expect(joined.version).toBe(created.version + 1);
+
+        // Rejoining (e.g. after a reload) keeps the seat and changes nothing
+        expect(await transport.joinRoom(created.code, 'bob')).toEqual(joined);
+        await expect(transport.joinRoom(created.code, 'carol')).rejects.toThrow("This room already has two players.");
+        await expect(transport.joinRoom('NOROOM', 'carol')).rejects.toThrow("No room found with code NOROOM.");
+    });
+
+    it('plays moves in turn and rejects moves out of turn', async () => {
+        const { room, white, black } = await startRoom(transport);
+        await expect(transport.submitMove(room.code, black, getMove(room, 'e2e4'), room.version)).rejects.toThrow("It's not your turn.");
+        await expect(transport.submitMove(room.code, 'carol', getMove(room, 'e2e4'), room.version)).rejects.toThrow("You are not a player in this room.");
+
+        const afterWhite = await transport.submitMove(room.code, white, getMove(room, 'e2e4'), room.version);
+        await expect(transport.submitMove(room.code, white, getMove(afterWhite, 'e4e5'), afterWhite.version)).rejects.toThrow("It's not your turn.");
+        const afterBlack = await transport.submitMove(room.code, black, getMove(afterWhite, 'e7e5'), afterWhite.version);
+
+        expect(afterBlack.events.map(event => event.type)).toEqual(['move', 'move']);
+        expect(getLivePosition(getRoomGame(afterBlack).history).turn).toBe('w');
+        expect(await transport.fetchRoom(room.code)).toEqual(afterBlack);
+    });
+
+    it('rejects moves before an opponent joins', async () => {
+        const room = await transport.createRoom('alice', null, 'standard');
+        const move = getMove(room, 'e2e4');
+        await expect(transport.submitMove(room.code, 'alice', move, room.version)).rejects.toThrow("Waiting for an opponent to join.");
+    });
+
+    it('rejects writes made against an older version of the room', async () => {
+        const { room, white, black } = await startRoom(transport);
+        const moved = await transport.submitMove(room.code, white, getMove(room, 'd2d4'), room.version);
+        // Black still holds the copy from before White's move
+        await expect(transport.submitAction(room.code, black, 'offer-draw', room.version)).rejects.toThrow("The game changed on the server.");
+        await expect(transport.submitAction(room.code, black, 'offer-draw', moved.version)).resolves.toMatchObject({ version: moved.version + 1 });
+    });
+
+    it('ends the game once a draw offer is accepted', async () => {
+        const { room, white, black } = await startRoom(transport);
+        const offered = await transport.submitAction(room.code, white, 'offer-draw', room.version);
+        expect(getRoomGame(offered).drawOfferedBy).toBe('w');
+        await expect(transport.submitAction(room.code, white, 'accept-draw', offered.version)).rejects.toThrow("There is no draw offer to accept.");
+
+        const drawn = await transport.submitAction(room.code, black, 'accept-draw', offered.version);
+        expect(getRoomGame(drawn).result).toEqual({ winner: null, reason: 'agreement' });
+        await expect(transport.submitMove(room.code, white, getMove(room, 'e2e4'), drawn.version)).rejects.toThrow("The game is over.");
+    });
+
+    it('records a timeout only once the clock on the server has run out', async () => {
+        const { room, white, black } = await startRoom(transport, THREE_TWO);
+        const started = await transport.submitMove(room.code, white, getMove(room, 'e2e4'), room.version);
+        time += 179_000;
+        await expect(transport.submitAction(room.code, white, 'timeout', started.version)).rejects.toThrow("Time hasn't run out yet.");
+
+        time += 1_000;
+        const flagged = await transport.submitAction(room.code, white, 'timeout', started.version);
+        expect(getRoomGame(flagged).result).toEqual({ winner: 'w', reason: 'timeout' });
+
+        // Black's late move can't undo it
+        await expect(transport.submitMove(room.code, black, getMove(started, 'e7e5'), flagged.version)).rejects.toThrow("The game is over.");
+    });
+
+    it('records a move made after the flag fell as a loss on time', async () => {
+        const { room, white, black } = await startRoom(transport, THREE_TWO);
+        const started = await transport.submitMove(room.code, white, getMove(room, 'e2e4'), room.version);
+        time += 200_000;
+        const late = await transport.submitMove(room.code, black, getMove(started, 'e7e5'), started.version);
+        expect(late.events[late.events.length - 1]).toEqual({ type: 'timeout', at: time });
+        expect(getRoomGame(late).result).toEqual({ winner: 'w', reason: 'timeout' });
+    });
+
+    it('rates the game from the stored result once it ends', async () => {
+        const players = createLocalPlayerStore();
+        await ensureProfile(players, { id: 'alice', email: null, isGuest: true });
+        await ensureProfile(players, { id: 'bob', email: null, isGuest: true });
+        transport = createLocalRoomTransport(now, players);
+
+        const { room, white, black } = await startRoom(transport);
+        const moved = await transport.submitMove(room.code, white, getMove(room, 'e2e4'), room.version);
+        expect((await players.getProfile('alice'))!.games.online).toBe(0);
+
+        await transport.submitAction(room.code, black, 'resign', moved.version);
+        expect((await players.getProfile(white))!.ratings.online.rating).toBeGreaterThan(INITIAL_RATING.rating);
+        expect((await players.getProfile(black))!.ratings.online.rating).toBeLessThan(INITIAL_RATING.rating);
+        expect(await players.claimGame(`room-${room.code}`)).toBe(false);
+    });
+
+    it('resyncs subscribers with the server copy after reconnecting', async () => {
+        const { room, white } = await startRoom(transport);
+        const updates: RoomState[] = [];
+        const statuses: ConnectionStatus[] = [];
+        const unsubscribe = transport.subscribe(room.code, next => updates.push(next), status => statuses.push(status));
+        expect(updates).toEqual([room]);
+
+        const moved = await transport.submitMove(room.code, white, getMove(room, 'e2e4'), room.version);
+        expect(updates[updates.length - 1]).toEqual(moved);
+
+        transport.setConnected(false);
+        await expect(transport.submitAction(room.code, white, 'resign', moved.version)).rejects.toThrow("Not connected to the game server.");
+        transport.setConnected(true);
+        expect(statuses).toEqual(['connected', 'reconnecting', 'connected']);
+        expect(updates).toEqual([room, moved, moved]);
+
+        unsubscribe();
+        await transport.submitAction(room.code, white, 'resign', moved.version);
+        expect(updates).toHaveLength(3);
+    });
+});
@@ -0,0 +1,112 @@
+import { TimeSource } from './clock';
+import { PlayerStore } from './players';
+import {
+    ConnectionStatus, RoomError, RoomState, RoomTransport, applyRoomAction, applyRoomMove, createRoomState, generateRoomCode, joinRoomState,
+    normalizeRoomCode, rateRoomGame,
+} from './rooms';
+
+// In-memory stand-in for the Supabase backend. Rooms live in a Map that plays the part of the
+// server, and every read/write goes through a JSON round trip so callers never share objects
+// with it. Used when Supabase isn't configured and for exercising room logic without a network.
+// Given a player store, it rates finished games the way the edge function does.
+
+export interface LocalRoomTransport extends RoomTransport {
+    // Simulates dropping and restoring the realtime connection for every subscriber
+    setConnected(connected: boolean): void;
+}
+
+interface Subscriber {
+    onUpdate: (room: RoomState) => void;
+    onStatus: (status: ConnectionStatus, error?: string) => void;
+}
+
+const clone = (room: RoomState): RoomState => JSON.parse(JSON.stringify(room));
+
+export const createLocalRoomTransport = (now: TimeSource = Date.now, players: PlayerStore | null = null): LocalRoomTransport => {
+    const rooms = new Map<string, RoomState>();
+    const subscribers = new Map<string, Set<Subscriber>>();
+    let connected = true;
+
+    const requireConnection = () => {
+        if (!connected) throw new RoomError("Not connected to the game server.");
+    };
+
+    const broadcast = (room: RoomState) => {
+        if (!connected) return;
+        subscribers.get(room.code)?.forEach(subscriber => subscriber.onUpdate(clone(room)));
+    };
+
+    const save = (room: RoomState): RoomState => {
+        rooms.set(room.code, clone(room));
+        broadcast(room);
+        return clone(room);
+    };
+
+    // Rated before it's published, so both players find their new ratings along with the result
+    const saveFinished = async (room: RoomState): Promise<RoomState> => {
+        if (players) await rateRoomGame(players, room);
+        return save(room);
+    };
+
+    return {
+        async createRoom(playerId, timeControl, variant) {
+            requireConnection();
+            let code = generateRoomCode();
+            while (rooms.has(code)) code = generateRoomCode();
+            return save(createRoomState(code, playerId, timeControl, variant));
+        },
+
+        async joinRoom(code, playerId) {
+            requireConnection();
+            const room = rooms.get(normalizeRoomCode(code));
+            if (!room) throw new RoomError(`No room found with code ${normalizeRoomCode(code)}.`);
+            return save(joinRoomState(room, playerId));
+        },
+
+        async fetchRoom(code) {
+            requireConnection();
+            const room = rooms.get(normalizeRoomCode(code));
+            return room ? clone(room) : null;
+        },
+
+        async submitMove(code, playerId, move, expectedVersion) {
+            requireConnection();
+            const room = rooms.get(normalizeRoomCode(code));
+            if (!room) throw new RoomError("This room no longer exists.");
+            return saveFinished(applyRoomMove(room, playerId, move, expectedVersion, now()));
+        },
+
+        async submitAction(code, playerId, action, expectedVersion) {
+            requireConnection();
+            const room = rooms.get(normalizeRoomCode(code));
+            if (!room) throw new RoomError("This room no longer exists.");
+            return saveFinished(applyRoomAction(room, playerId, action, expectedVersion, now()));
+        },
+
+        subscribe(code, onUpdate, onStatus) {
+            const key = normalizeRoomCode(code);
+            const subscriber: Subscriber = { onUpdate, onStatus };
+            if (!subscribers.has(key)) subscribers.set(key, new Set());
+            subscribers.get(key)!.add(subscriber);
+
+            onStatus(connected ? 'connected' : 'reconnecting');
+            const room = rooms.get(key);
+            if (connected && room) onUpdate(clone(room));
+
+            return () => {
+                subscribers.get(key)?.delete(subscriber);
+            };
+        },
+
+        setConnected(next) {
+            if (connected === next) return;
+            connected = next;
+            subscribers.forEach((set, code) => set.forEach(subscriber => {
+                subscriber.onStatus(connected ? 'connected' : 'reconnecting');
+                // Resync: whatever happened while disconnected is replaced by the server's copy
+                const room = rooms.get(code);
+                if (connected && room) subscriber.onUpdate(clone(room));
+            }));
+        },
+    };
+};
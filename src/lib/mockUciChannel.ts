@@ -0,0 +1,157 @@
+import { Position } from '../types';
+import { INITIAL_POSITION, applyMove, getLegalMoves } from './rules';
+import { moveToUci, uciToMove } from './notation';
+import { parseFen } from './fen';
+import { evaluate } from './engine';
+import { UciChannel } from './uci';
+
+// A scripted stand-in for a UCI engine, for exercising the adapter without a real engine. It
+// answers the handshake, follows "position" commands with the app's own move generator and
+// answers "go" with whatever the script prints. Replies arrive asynchronously, as from a worker.
+
+export interface MockEngineScript {
+    name: string;
+    options: string[]; // "option ..." lines printed during the handshake
+    // The lines printed for a search of `position`, ending with "bestmove ..."
+    search(position: Position): string[];
+}
+
+export interface MockUciChannel extends UciChannel {
+    received: string[]; // every command sent to the engine, in order
+    // Makes the engine fail as if its worker had crashed
+    fail(message: string): void;
+}
+
+// Scores every legal move by the static evaluation of the position it leads to and plays the best,
+// printing one info line per move that improves on the best so far
+export const GREEDY_SCRIPT: MockEngineScript = {
+    name: 'Mock Engine',
+    options: [
+        'option name Skill Level type spin default 20 min 0 max 20',
+        'option name Threads type spin default 1 min 1 max 8',
+        'option name UCI_Chess960 type check default false',
+    ],
+    search(position) {
+        const lines: string[] = [];
+        let best: { uci: string, score: number } | null = null;
+        for (const move of getLegalMoves(position)) {
+            const score = -evaluate(applyMove(position, move));
+            if (best && score <= best.score) continue;
+            best = { uci: moveToUci(move), score };
+            lines.push(`info depth 1 seldepth 1 multipv 1 score cp ${score} nodes ${lines.length + 1} pv ${best.uci}`);
+        }
+        return [...lines, `bestmove ${best ? best.uci : '(none)'}`];
+    },
+};
+
+const DEFAULT_THINK_MS = 300;
+
+export const createMockUciChannel = (script: MockEngineScript = GREEDY_SCRIPT, thinkMs: number = DEFAULT_THINK_MS): MockUciChannel => {
+    const lineListeners = new Set<(line: string) => void>();
+    const errorListeners = new Set<(message: string) => void>();
+    const received: string[] = [];
+    let position: Position = INITIAL_POSITION;
+    let isChess960 = false;
+    let pendingSearch: { timers: ReturnType<typeof setTimeout>[], flush: () => void } | null = null;
+    let closed = false;
+
+    const print = (...lines: string[]) => {
+        setTimeout(() => {
+            if (!closed) lines.forEach(line => lineListeners.forEach(listener => listener(line)));
+        }, 0);
+    };
+
+    // "position startpos|fen <fen> [moves ...]"; an unreadable position leaves the last one in place
+    const setPosition = (args: string[]) => {
+        const movesAt = args.indexOf('moves');
+        const setup = movesAt < 0 ? args : args.slice(0, movesAt);
+        let next = setup[0] === 'startpos' ? INITIAL_POSITION : parseFen(setup.slice(1).join(' '), isChess960 ? 'chess960' : 'standard');
+        for (const uci of movesAt < 0 ? [] : args.slice(movesAt + 1)) {
+            const move = uciToMove(next, uci);
+            if (!move) return;
+            next = applyMove(next, move);
+        }
+        position = next;
+    };
+
+    // The script's lines are spread over the thinking time; "stop" prints the rest at once
+    const startSearch = () => {
+        const lines = script.search(position);
+        let printed = 0;
+        const printNext = () => print(lines[printed++]);
+        const timers = lines.map((_, index) => setTimeout(() => {
+            printNext();
+            if (printed === lines.length) pendingSearch = null;
+        }, ((index + 1) * thinkMs) / lines.length));
+        pendingSearch = {
+            timers,
+            flush: () => {
+                timers.forEach(clearTimeout);
+                while (printed < lines.length) printNext();
+                pendingSearch = null;
+            },
+        };
+    };
+
+    const handle = (command: string) => {
+        const [name, ...args] = command.trim().split(/\s+/);
+        if (name === 'uci') {
+            print(`id name ${script.name}`, 'id author Supreme Chess', ...script.options, 'uciok');
+        } else if (name === 'isready') {
+            print('readyok');
+        } else if (name === 'setoption' && /^name UCI_Chess960 value /i.test(args.join(' '))) {
+            isChess960 = args[args.length - 1] === 'true';
+        } else if (name === 'ucinewgame') {
+            position = INITIAL_POSITION;
+        } else if (name === 'position') {
+            try {
+                setPosition(args);
+            } catch {
+                // Real engines ignore positions they can't read, too
+            }
+        } else if (name === 'go') {
+            pendingSearch?.flush();
+            startSearch();
+        } else if (name === 'stop') {
+            pendingSearch?.flush();
+        } else if (name === 'quit') {
+            closed = true;
+        }
+    };
+
+    return {
+        received,
+
+        send(command) {
+            if (closed) return;
+            received.push(command);
+            handle(command);
+        },
+
+        onLine(listener) {
+            lineListeners.add(listener);
+            return () => {
+                lineListeners.delete(listener);
+            };
+        },
+
+        onError(listener) {
+            errorListeners.add(listener);
+            return () => {
+                errorListeners.delete(listener);
+            };
+        },
+
+        close() {
+            closed = true;
+            pendingSearch?.timers.forEach(clearTimeout);
+            lineListeners.clear();
+            errorListeners.clear();
+        },
+
+        fail(message) {
+            closed = true;
+            errorListeners.forEach(listener => listener(message));
+        },
+    };
+};
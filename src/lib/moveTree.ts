@@ -0,0 +1,153 @@
+import { Move, Position } from '../types';
+import { applyMove, isSameMove } from './rules';
+import { moveToSan } from './notation';
+
+// --- Move Tree ---
+
+// Every position reached in the game is a node; a node's first child continues the main line
+// and any further children are side variations. Nodes are never removed, so stepping back and
+// playing a different move keeps the old line around.
+export interface MoveNode {
+    id: number;
+    parentId: number | null; // null only for the root (the start position)
+    move: Move | null;
+    san: string;
+    position: Position; // position after `move`
+    childIds: number[];
+}
+
+export interface MoveHistory {
+    nodes: MoveNode[]; // indexed by id; nodes[0] is the root
+    currentId: number; // node shown on the board
+    liveId: number; // node new moves are played from
+    redoId: number | null; // where the last takeback started, so redo returns along the same line
+}
+
+export const ROOT_ID = 0;
+
+export const createHistory = (start: Position, moves: Move[] = []): MoveHistory => {
+    const root: MoveNode = { id: ROOT_ID, parentId: null, move: null, san: '', position: start, childIds: [] };
+    return moves.reduce(playMove, { nodes: [root], currentId: ROOT_ID, liveId: ROOT_ID, redoId: null });
+};
+
+// Adds `move` as a child of `parentId`, reusing an existing child for the same move
+const addChild = (history: MoveHistory, parentId: number, move: Move): { history: MoveHistory, nodeId: number } => {
+    const parent = history.nodes[parentId];
+    const existing = parent.childIds.find(id => isSameMove(history.nodes[id].move!, move));
+    if (existing !== undefined) return { history, nodeId: existing };
+
+    const nodeId = history.nodes.length;
+    const node: MoveNode = {
+        id: nodeId,
+        parentId,
+        move,
+        san: moveToSan(parent.position, move),
+        position: applyMove(parent.position, move),
+        childIds: [],
+    };
+    const nodes = [...history.nodes, node];
+    nodes[parentId] = { ...parent, childIds: [...parent.childIds, nodeId] };
+    return { history: { ...history, nodes }, nodeId };
+};
+
+// Plays a move at the live node. The board follows along unless the user is looking at an earlier move.
+export const playMove = (history: MoveHistory, move: Move): MoveHistory => {
+    const { history: next, nodeId } = addChild(history, history.liveId, move);
+    const followLive = history.currentId === history.liveId;
+    return { ...next, liveId: nodeId, currentId: followLive ? nodeId : history.currentId, redoId: keepRedoId(history, nodeId) };
+};
+
+// --- Queries ---
+
+export const getNode = (history: MoveHistory, id: number): MoveNode => history.nodes[id];
+
+export const getCurrentPosition = (history: MoveHistory): Position => history.nodes[history.currentId].position;
+
+export const getLivePosition = (history: MoveHistory): Position => history.nodes[history.liveId].position;
+
+export const getStartPosition = (history: MoveHistory): Position => history.nodes[ROOT_ID].position;
+
+export const isViewingHistory = (history: MoveHistory): boolean => history.currentId !== history.liveId;
+
+// Nodes from the first move up to and including `id`
+export const getPath = (history: MoveHistory, id: number): MoveNode[] => {
+    const path: MoveNode[] = [];
+    for (let node = history.nodes[id]; node.parentId !== null; node = history.nodes[node.parentId]) {
+        path.unshift(node);
+    }
+    return path;
+};
+
+// The moves of the game actually being played (start to live node)
+export const getLiveMoves = (history: MoveHistory): Move[] => getPath(history, history.liveId).map(node => node.move!);
+
+const isAncestor = (history: MoveHistory, ancestorId: number, id: number): boolean => {
+    for (let node: MoveNode | undefined = history.nodes[id]; node; node = node.parentId === null ? undefined : history.nodes[node.parentId]) {
+        if (node.id === ancestorId) return true;
+    }
+    return false;
+};
+
+// The redo target stays while the live node is still on the way to it
+const keepRedoId = (history: MoveHistory, liveId: number): number | null =>
+    history.redoId !== null && isAncestor(history, liveId, history.redoId) ? history.redoId : null;
+
+// Prefers the line leading to the live node, otherwise the main continuation
+const nextNodeId = (history: MoveHistory, id: number): number | null => {
+    const { childIds } = history.nodes[id];
+    return childIds.find(childId => isAncestor(history, childId, history.liveId)) ?? childIds[0] ?? null;
+};
+
+// --- Navigation (changes what is shown, never the game itself) ---
+
+export const goToNode = (history: MoveHistory, id: number): MoveHistory =>
+    id >= 0 && id < history.nodes.length ? { ...history, currentId: id } : history;
+
+export const stepBack = (history: MoveHistory): MoveHistory => {
+    const { parentId } = history.nodes[history.currentId];
+    return parentId === null ? history : { ...history, currentId: parentId };
+};
+
+export const stepForward = (history: MoveHistory): MoveHistory => {
+    const next = nextNodeId(history, history.currentId);
+    return next === null ? history : { ...history, currentId: next };
+};
+
+export const goToStart = (history: MoveHistory): MoveHistory => ({ ...history, currentId: ROOT_ID });
+
+export const goToLive = (history: MoveHistory): MoveHistory => ({ ...history, currentId: history.liveId });
+
+// --- Editing the Game ---
+
+// Continues the game from the position on the board; the next move starts a variation there
+export const branchFromCurrent = (history: MoveHistory): MoveHistory =>
+    ({ ...history, liveId: history.currentId, redoId: keepRedoId(history, history.currentId) });
+
+// Undoes up to `plies` moves of the live line. The moves stay in the tree and can be redone.
+export const takeBack = (history: MoveHistory, plies: number): MoveHistory => {
+    let liveId = history.liveId;
+    for (let i = 0; i < plies; i++) {
+        const { parentId } = history.nodes[liveId];
+        if (parentId === null) break;
+        liveId = parentId;
+    }
+    // A second takeback keeps the target of the first, so redo can restore both
+    const redoId = keepRedoId(history, history.liveId) ?? history.liveId;
+    return { ...history, liveId, currentId: liveId, redoId: liveId === history.liveId ? history.redoId : redoId };
+};
+
+// Replays moves toward where the last takeback started, or along the main line past that point
+export const redo = (history: MoveHistory, plies: number): MoveHistory => {
+    let liveId = history.liveId;
+    for (let i = 0; i < plies; i++) {
+        const { childIds } = history.nodes[liveId];
+        const next = childIds.find(childId => history.redoId !== null && isAncestor(history, childId, history.redoId)) ?? childIds[0];
+        if (next === undefined) break;
+        liveId = next;
+    }
+    return { ...history, liveId, currentId: liveId, redoId: keepRedoId(history, liveId) };
+};
+
+export const canTakeBack = (history: MoveHistory): boolean => history.liveId !== ROOT_ID;
+
+export const canRedo = (history: MoveHistory): boolean => history.nodes[history.liveId].childIds.length > 0;
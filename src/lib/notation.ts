@@ -0,0 +1,124 @@
+import { Move, Piece, Position, Square } from '../types';
+import { applyMove, getLegalMoves, getPieceType, isInCheck, isSameSquare } from './rules';
+
+// --- Square Names ---
+
+const FILES = 'abcdefgh';
+
+// Row 0 is rank 8, column 0 is the a-file
+export const squareToName = (square: Square): string => `${FILES[square.col]}${8 - square.row}`;
+
+export const nameToSquare = (name: string): Square | null => {
+    const match = /^([a-h])([1-8])$/.exec(name);
+    return match ? { row: 8 - Number(match[2]), col: FILES.indexOf(match[1]) } : null;
+};
+
+// --- Standard Algebraic Notation ---
+
+const checkSuffix = (position: Position, move: Move): string => {
+    const next = applyMove(position, move);
+    if (!isInCheck(next.board, next.turn)) return '';
+    return getLegalMoves(next).length === 0 ? '#' : '+';
+};
+
+// SAN without the check suffix; `legalMoves` are all legal moves in the position, used for disambiguation
+const baseSan = (move: Move, legalMoves: Move[]): string => {
+    if (move.castle) return move.castle === 'K' ? 'O-O' : 'O-O-O';
+
+    const type = getPieceType(move.piece);
+    const target = squareToName(move.to);
+    const capture = move.captured ? 'x' : '';
+
+    if (type === 'P') {
+        return (capture ? FILES[move.from.col] + 'x' : '') + target + (move.promotion ? `=${move.promotion}` : '');
+    }
+
+    // Name the origin file, rank or both only when another piece of the same kind could go there too
+    const rivals = legalMoves.filter(m =>
+        m.piece === move.piece && m.to.row === move.to.row && m.to.col === move.to.col
+        && (m.from.row !== move.from.row || m.from.col !== move.from.col));
+    let disambiguation = '';
+    if (rivals.length > 0) {
+        const from = squareToName(move.from);
+        if (rivals.every(m => m.from.col !== move.from.col)) disambiguation = from[0];
+        else if (rivals.every(m => m.from.row !== move.from.row)) disambiguation = from[1];
+        else disambiguation = from;
+    }
+    return type + disambiguation + capture + target;
+};
+
+// Expects a legal move for the side to move in `position`
+export const moveToSan = (position: Position, move: Move): string =>
+    baseSan(move, getLegalMoves(position)) + checkSuffix(position, move);
+
+// Strips check marks, annotations and notation variants so SAN from different sources compares equal
+const normalizeSan = (san: string): string =>
+    san.replace(/[+#!?]+$/, '').replace(/0-0-0/, 'O-O-O').replace(/0-0/, 'O-O');
+
+// Piece letter (none for a pawn), origin file and rank (either, both or neither), capture mark,
+// target square and promotion piece
+const SAN_PATTERN = /^([NBRQK])?([a-h])?([1-8])?x?([a-h][1-8])(?:=?([NBRQ]))?$/;
+
+// Reads SAN by its parts rather than comparing whole strings, so a move that names more of its
+// origin square than it needs to (e.g. "Ng1e2") is still understood. Returns null for a move that
+// is illegal, ambiguous or not SAN at all.
+export const sanToMove = (position: Position, san: string): Move | null => {
+    const text = normalizeSan(san.trim());
+    const legalMoves = getLegalMoves(position);
+    if (text === 'O-O' || text === 'O-O-O') {
+        return legalMoves.find(move => move.castle === (text === 'O-O' ? 'K' : 'Q')) ?? null;
+    }
+
+    const match = SAN_PATTERN.exec(text);
+    if (!match) return null;
+    const [, type = 'P', file, rank, target, promotion] = match;
+    const to = nameToSquare(target);
+    const candidates = legalMoves.filter(move =>
+        !move.castle && getPieceType(move.piece) === type && isSameSquare(move.to, to)
+        && (!file || FILES[move.from.col] === file) && (!rank || 8 - move.from.row === Number(rank))
+        && (move.promotion ?? undefined) === promotion);
+    return candidates.length === 1 ? candidates[0] : null;
+};
+
+// SAN for a whole game, replayed from `start`
+export const movesToSan = (moves: Move[], start: Position): string[] => {
+    const sans: string[] = [];
+    let position = start;
+    for (const move of moves) {
+        sans.push(moveToSan(position, move));
+        position = applyMove(position, move);
+    }
+    return sans;
+};
+
+// --- Coordinate Notation ---
+
+// Origin and target square plus a lowercase promotion piece, e.g. "e2e4" or "e7e8q" (as used by UCI)
+export const moveToUci = (move: Move): string =>
+    squareToName(move.from) + squareToName(move.to) + (move.promotion?.toLowerCase() ?? '');
+
+export const uciToMove = (position: Position, uci: string): Move | null => {
+    const wanted = uci.trim().toLowerCase();
+    return getLegalMoves(position).find(move => moveToUci(move) === wanted) ?? null;
+};
+
+// --- Spoken Descriptions ---
+
+const PIECE_NAMES: Record<string, string> = { P: 'pawn', N: 'knight', B: 'bishop', R: 'rook', Q: 'queen', K: 'king' };
+
+const colorName = (piece: Piece) => piece?.[0] === 'w' ? 'White' : 'Black';
+
+// Plain-English piece name, e.g. "white knight"
+export const describePiece = (piece: Piece): string => `${colorName(piece).toLowerCase()} ${PIECE_NAMES[piece![1]]}`;
+
+// A played move for screen readers, e.g. "White knight g1 to f3, takes black pawn, check".
+// `after` is the position the move led to, which tells whether it gave check or mate.
+export const describeMove = (move: Move, after: Position): string => {
+    const parts = [move.castle
+        ? `${colorName(move.piece)} castles ${move.castle === 'K' ? 'kingside' : 'queenside'}`
+        : `${colorName(move.piece)} ${PIECE_NAMES[move.piece![1]]} ${squareToName(move.from)} to ${squareToName(move.to)}`];
+    if (move.captured) parts.push(`takes ${describePiece(move.captured)}${move.enPassant ? ' en passant' : ''}`);
+    if (move.promotion) parts.push(`promotes to ${PIECE_NAMES[move.promotion]}`);
+    if (isInCheck(after.board, after.turn)) parts.push(getLegalMoves(after).length === 0 ? 'checkmate' : 'check');
+    return parts.join(', ');
+};
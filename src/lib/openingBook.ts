@@ -0,0 +1,151 @@
+import { Difficulty, Move, Position, PromotionPiece } from '../types';
+import { getLegalMoves } from './rules';
+import { POLYGLOT_RANDOM } from './polyglotRandom';
+
+// --- Polyglot Opening Books ---
+
+// A Polyglot book is a list of 16-byte big-endian entries sorted by position key:
+// key (8 bytes), move (2), weight (2) and a learning field (4) that is not used here.
+const ENTRY_SIZE = 16;
+
+export class OpeningBookError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'OpeningBookError';
+    }
+}
+
+export interface OpeningBook {
+    name: string;
+    data: DataView; // the raw entries, searched in place so large books stay cheap
+    size: number; // number of entries
+}
+
+export interface BookMove {
+    move: Move;
+    weight: number;
+}
+
+export const parseOpeningBook = (name: string, buffer: ArrayBuffer): OpeningBook => {
+    if (buffer.byteLength === 0 || buffer.byteLength % ENTRY_SIZE !== 0) {
+        throw new OpeningBookError(`${name} is not a Polyglot book (its size is not a multiple of ${ENTRY_SIZE} bytes).`);
+    }
+    const book = { name, data: new DataView(buffer), size: buffer.byteLength / ENTRY_SIZE };
+    // Checking the start of the file is enough to turn away files that aren't books at all
+    for (let i = 1; i < Math.min(book.size, 1000); i++) {
+        if (entryKey(book, i - 1) > entryKey(book, i)) throw new OpeningBookError(`${name} is not sorted by position key.`);
+    }
+    return book;
+};
+
+export const fetchOpeningBook = async (url: string): Promise<OpeningBook> => {
+    const response = await fetch(url);
+    if (!response.ok) throw new OpeningBookError(`Could not load the opening book (${response.status}).`);
+    return parseOpeningBook(url.split('/').pop()!, await response.arrayBuffer());
+};
+
+// --- Position Keys ---
+
+const PIECE_KINDS = 'PNBRQK';
+
+// Polyglot's hash of a position. Unlike the engine's Zobrist keys these use the numbers fixed by
+// the format, and the en passant file only counts when a pawn can actually take there.
+export const getPolyglotKey = (position: Position): bigint => {
+    const { board, turn, castling, enPassant } = position;
+    let key = 0n;
+    board.forEach((rowPieces, row) => rowPieces.forEach((piece, col) => {
+        if (!piece) return;
+        const kind = PIECE_KINDS.indexOf(piece[1]) * 2 + (piece[0] === 'w' ? 1 : 0);
+        key ^= POLYGLOT_RANDOM[64 * kind + 8 * (7 - row) + col];
+    }));
+
+    if (castling.wK) key ^= POLYGLOT_RANDOM[768];
+    if (castling.wQ) key ^= POLYGLOT_RANDOM[769];
+    if (castling.bK) key ^= POLYGLOT_RANDOM[770];
+    if (castling.bQ) key ^= POLYGLOT_RANDOM[771];
+
+    if (enPassant) {
+        const pawnRow = turn === 'w' ? 3 : 4; // where the pawn that just moved two squares stands
+        const canCapture = [enPassant.col - 1, enPassant.col + 1]
+            .some(col => col >= 0 && col < 8 && board[pawnRow][col] === `${turn}P`);
+        if (canCapture) key ^= POLYGLOT_RANDOM[772 + enPassant.col];
+    }
+
+    if (turn === 'w') key ^= POLYGLOT_RANDOM[780];
+    return key;
+};
+
+// --- Lookup ---
+
+const entryKey = (book: OpeningBook, index: number): bigint => book.data.getBigUint64(index * ENTRY_SIZE);
+
+const PROMOTIONS: (PromotionPiece | undefined)[] = [undefined, 'N', 'B', 'R', 'Q'];
+
+// Book moves are packed as to-file, to-rank, from-file, from-rank and promotion, three bits each.
+// Castling is written as the king taking its own rook; illegal entries (hash collisions) are dropped.
+const decodeMove = (position: Position, encoded: number): Move | null => {
+    const from = { row: 7 - ((encoded >> 9) & 7), col: (encoded >> 6) & 7 };
+    const to = { row: 7 - ((encoded >> 3) & 7), col: encoded & 7 };
+    const promotion = PROMOTIONS[(encoded >> 12) & 7];
+
+    const piece = position.board[from.row][from.col];
+    if (piece?.[1] === 'K' && position.board[to.row][to.col] === `${piece[0]}R`) {
+        to.col = to.col > from.col ? 6 : 2;
+    }
+    return getLegalMoves(position).find(move =>
+        move.from.row === from.row && move.from.col === from.col
+        && move.to.row === to.row && move.to.col === to.col
+        && move.promotion === promotion) ?? null;
+};
+
+export const getBookMoves = (book: OpeningBook, position: Position): BookMove[] => {
+    const key = getPolyglotKey(position);
+    // First entry with this key (entries are sorted, so all of them follow it)
+    let low = 0;
+    let high = book.size;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (entryKey(book, mid) < key) low = mid + 1;
+        else high = mid;
+    }
+
+    const moves: BookMove[] = [];
+    for (let index = low; index < book.size && entryKey(book, index) === key; index++) {
+        const offset = index * ENTRY_SIZE;
+        const move = decodeMove(position, book.data.getUint16(offset + 8));
+        const weight = book.data.getUint16(offset + 10);
+        if (move && weight > 0) moves.push({ move, weight });
+    }
+    return moves;
+};
+
+// --- Choosing a Book Move ---
+
+// How many plies of the game the AI plays from the book; stronger levels know their openings deeper
+export const BOOK_PLIES: Record<Difficulty, number> = {
+    Beginner: 2,
+    Easy: 6,
+    Hard: 12,
+    Master: 24,
+};
+
+// Plies played since the standard start, also for games set up from a FEN
+const getPly = (position: Position): number => (position.fullmoveNumber - 1) * 2 + (position.turn === 'b' ? 1 : 0);
+
+// Picks among the book moves in proportion to their weights, or null once out of book
+export const chooseBookMove = (
+    book: OpeningBook,
+    position: Position,
+    difficulty: Difficulty,
+    random: () => number = Math.random,
+): Move | null => {
+    if (getPly(position) >= BOOK_PLIES[difficulty]) return null;
+    const moves = getBookMoves(book, position);
+    const total = moves.reduce((sum, { weight }) => sum + weight, 0);
+    let pick = random() * total;
+    for (const { move, weight } of moves) {
+        pick -= weight;
+        if (pick < 0) return move;
+    }
+    return null;
+};
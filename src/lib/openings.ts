@@ -0,0 +1,187 @@
+import { Position } from '../types';
+import { INITIAL_POSITION, applyMove } from './rules';
+import { sanToMove } from './notation';
+import { positionToFen } from './fen';
+
+// --- Opening Names ---
+
+export interface Opening {
+    eco: string; // Encyclopaedia of Chess Openings code, e.g. "C60"
+    name: string;
+    moves: string; // main line in SAN from the standard start
+}
+
+// A selection of named lines; more specific lines simply add more moves to a shorter one
+export const OPENINGS: Opening[] = [
+    { eco: 'A00', name: 'Polish Opening', moves: 'b4' },
+    { eco: 'A00', name: 'Grob Opening', moves: 'g4' },
+    { eco: 'A00', name: 'Van Geet Opening', moves: 'Nc3' },
+    { eco: 'A01', name: 'Nimzo-Larsen Attack', moves: 'b3' },
+    { eco: 'A02', name: "Bird's Opening", moves: 'f4' },
+    { eco: 'A03', name: "Bird's Opening: Dutch Variation", moves: 'f4 d5' },
+    { eco: 'A04', name: 'Zukertort Opening', moves: 'Nf3' },
+    { eco: 'A05', name: 'Zukertort Opening: Symmetrical', moves: 'Nf3 Nf6' },
+    { eco: 'A06', name: 'Zukertort Opening: Queen Pawn Defense', moves: 'Nf3 d5' },
+    { eco: 'A07', name: "King's Indian Attack", moves: 'Nf3 d5 g3' },
+    { eco: 'A10', name: 'English Opening', moves: 'c4' },
+    { eco: 'A13', name: 'English Opening: Agincourt Defense', moves: 'c4 e6' },
+    { eco: 'A15', name: 'English Opening: Anglo-Indian Defense', moves: 'c4 Nf6' },
+    { eco: 'A20', name: "English Opening: King's English", moves: 'c4 e5' },
+    { eco: 'A30', name: 'English Opening: Symmetrical', moves: 'c4 c5' },
+    { eco: 'A40', name: "Queen's Pawn Game", moves: 'd4' },
+    { eco: 'A41', name: "Queen's Pawn Game: Modern Defense", moves: 'd4 d6' },
+    { eco: 'A43', name: 'Old Benoni Defense', moves: 'd4 c5' },
+    { eco: 'A45', name: 'Indian Defense', moves: 'd4 Nf6' },
+    { eco: 'A45', name: 'Trompowsky Attack', moves: 'd4 Nf6 Bg5' },
+    { eco: 'A46', name: 'Indian Defense: Knights Variation', moves: 'd4 Nf6 Nf3' },
+    { eco: 'A48', name: 'London System', moves: 'd4 Nf6 Nf3 g6 Bf4' },
+    { eco: 'A51', name: 'Budapest Gambit', moves: 'd4 Nf6 c4 e5' },
+    { eco: 'A56', name: 'Benoni Defense', moves: 'd4 Nf6 c4 c5' },
+    { eco: 'A57', name: 'Benko Gambit', moves: 'd4 Nf6 c4 c5 d5 b5' },
+    { eco: 'A60', name: 'Modern Benoni', moves: 'd4 Nf6 c4 c5 d5 e6' },
+    { eco: 'A80', name: 'Dutch Defense', moves: 'd4 f5' },
+    { eco: 'A84', name: 'Dutch Defense', moves: 'd4 f5 c4' },
+    { eco: 'B00', name: "King's Pawn Game", moves: 'e4' },
+    { eco: 'B00', name: 'Nimzowitsch Defense', moves: 'e4 Nc6' },
+    { eco: 'B00', name: 'Owen Defense', moves: 'e4 b6' },
+    { eco: 'B01', name: 'Scandinavian Defense', moves: 'e4 d5' },
+    { eco: 'B01', name: 'Scandinavian Defense: Main Line', moves: 'e4 d5 exd5 Qxd5 Nc3 Qa5' },
+    { eco: 'B01', name: 'Scandinavian Defense: Modern Variation', moves: 'e4 d5 exd5 Nf6' },
+    { eco: 'B02', name: "Alekhine's Defense", moves: 'e4 Nf6' },
+    { eco: 'B03', name: "Alekhine's Defense: Four Pawns Attack", moves: 'e4 Nf6 e5 Nd5 d4 d6 c4 Nb6 f4' },
+    { eco: 'B06', name: 'Modern Defense', moves: 'e4 g6' },
+    { eco: 'B07', name: 'Pirc Defense', moves: 'e4 d6 d4 Nf6 Nc3 g6' },
+    { eco: 'B10', name: 'Caro-Kann Defense', moves: 'e4 c6' },
+    { eco: 'B12', name: 'Caro-Kann Defense: Advance Variation', moves: 'e4 c6 d4 d5 e5' },
+    { eco: 'B13', name: 'Caro-Kann Defense: Exchange Variation', moves: 'e4 c6 d4 d5 exd5 cxd5' },
+    { eco: 'B14', name: 'Caro-Kann Defense: Panov Attack', moves: 'e4 c6 d4 d5 exd5 cxd5 c4 Nf6 Nc3 e6' },
+    { eco: 'B18', name: 'Caro-Kann Defense: Classical Variation', moves: 'e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5' },
+    { eco: 'B20', name: 'Sicilian Defense', moves: 'e4 c5' },
+    { eco: 'B21', name: 'Sicilian Defense: Smith-Morra Gambit', moves: 'e4 c5 d4 cxd4 c3' },
+    { eco: 'B22', name: 'Sicilian Defense: Alapin Variation', moves: 'e4 c5 c3' },
+    { eco: 'B23', name: 'Sicilian Defense: Closed', moves: 'e4 c5 Nc3' },
+    { eco: 'B27', name: 'Sicilian Defense: Hyperaccelerated Dragon', moves: 'e4 c5 Nf3 g6' },
+    { eco: 'B30', name: 'Sicilian Defense: Old Sicilian', moves: 'e4 c5 Nf3 Nc6' },
+    { eco: 'B31', name: 'Sicilian Defense: Rossolimo Variation', moves: 'e4 c5 Nf3 Nc6 Bb5' },
+    { eco: 'B33', name: 'Sicilian Defense: Open', moves: 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4' },
+    { eco: 'B33', name: 'Sicilian Defense: Sveshnikov Variation', moves: 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3 e5' },
+    { eco: 'B35', name: 'Sicilian Defense: Accelerated Dragon', moves: 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 g6' },
+    { eco: 'B40', name: 'Sicilian Defense: French Variation', moves: 'e4 c5 Nf3 e6' },
+    { eco: 'B44', name: 'Sicilian Defense: Taimanov Variation', moves: 'e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6' },
+    { eco: 'B41', name: 'Sicilian Defense: Kan Variation', moves: 'e4 c5 Nf3 e6 d4 cxd4 Nxd4 a6' },
+    { eco: 'B50', name: 'Sicilian Defense: Modern Variations', moves: 'e4 c5 Nf3 d6' },
+    { eco: 'B51', name: 'Sicilian Defense: Moscow Variation', moves: 'e4 c5 Nf3 d6 Bb5+' },
+    { eco: 'B54', name: 'Sicilian Defense: Open', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4' },
+    { eco: 'B56', name: 'Sicilian Defense: Classical Variation', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3' },
+    { eco: 'B70', name: 'Sicilian Defense: Dragon Variation', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6' },
+    { eco: 'B80', name: 'Sicilian Defense: Scheveningen Variation', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 e6' },
+    { eco: 'B90', name: 'Sicilian Defense: Najdorf Variation', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6' },
+    { eco: 'C00', name: 'French Defense', moves: 'e4 e6' },
+    { eco: 'C01', name: 'French Defense: Exchange Variation', moves: 'e4 e6 d4 d5 exd5' },
+    { eco: 'C02', name: 'French Defense: Advance Variation', moves: 'e4 e6 d4 d5 e5' },
+    { eco: 'C03', name: 'French Defense: Tarrasch Variation', moves: 'e4 e6 d4 d5 Nd2' },
+    { eco: 'C10', name: 'French Defense: Paulsen Variation', moves: 'e4 e6 d4 d5 Nc3' },
+    { eco: 'C11', name: 'French Defense: Classical Variation', moves: 'e4 e6 d4 d5 Nc3 Nf6' },
+    { eco: 'C15', name: 'French Defense: Winawer Variation', moves: 'e4 e6 d4 d5 Nc3 Bb4' },
+    { eco: 'C20', name: "King's Pawn Game", moves: 'e4 e5' },
+    { eco: 'C23', name: "Bishop's Opening", moves: 'e4 e5 Bc4' },
+    { eco: 'C25', name: 'Vienna Game', moves: 'e4 e5 Nc3' },
+    { eco: 'C30', name: "King's Gambit", moves: 'e4 e5 f4' },
+    { eco: 'C33', name: "King's Gambit Accepted", moves: 'e4 e5 f4 exf4' },
+    { eco: 'C30', name: "King's Gambit Declined", moves: 'e4 e5 f4 Bc5' },
+    { eco: 'C40', name: "King's Knight Opening", moves: 'e4 e5 Nf3' },
+    { eco: 'C40', name: 'Latvian Gambit', moves: 'e4 e5 Nf3 f5' },
+    { eco: 'C41', name: 'Philidor Defense', moves: 'e4 e5 Nf3 d6' },
+    { eco: 'C42', name: 'Petrov Defense', moves: 'e4 e5 Nf3 Nf6' },
+    { eco: 'C44', name: "King's Knight Opening: Normal Variation", moves: 'e4 e5 Nf3 Nc6' },
+    { eco: 'C44', name: 'Ponziani Opening', moves: 'e4 e5 Nf3 Nc6 c3' },
+    { eco: 'C45', name: 'Scotch Game', moves: 'e4 e5 Nf3 Nc6 d4 exd4 Nxd4' },
+    { eco: 'C46', name: 'Three Knights Opening', moves: 'e4 e5 Nf3 Nc6 Nc3' },
+    { eco: 'C47', name: 'Four Knights Game', moves: 'e4 e5 Nf3 Nc6 Nc3 Nf6' },
+    { eco: 'C50', name: 'Italian Game', moves: 'e4 e5 Nf3 Nc6 Bc4' },
+    { eco: 'C50', name: 'Italian Game: Giuoco Piano', moves: 'e4 e5 Nf3 Nc6 Bc4 Bc5' },
+    { eco: 'C51', name: 'Italian Game: Evans Gambit', moves: 'e4 e5 Nf3 Nc6 Bc4 Bc5 b4' },
+    { eco: 'C53', name: 'Italian Game: Classical Variation', moves: 'e4 e5 Nf3 Nc6 Bc4 Bc5 c3' },
+    { eco: 'C55', name: 'Italian Game: Two Knights Defense', moves: 'e4 e5 Nf3 Nc6 Bc4 Nf6' },
+    { eco: 'C57', name: 'Italian Game: Two Knights Defense, Fried Liver Attack', moves: 'e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5 Nxd5 Nxf7' },
+    { eco: 'C60', name: 'Ruy Lopez', moves: 'e4 e5 Nf3 Nc6 Bb5' },
+    { eco: 'C62', name: 'Ruy Lopez: Steinitz Defense', moves: 'e4 e5 Nf3 Nc6 Bb5 d6' },
+    { eco: 'C65', name: 'Ruy Lopez: Berlin Defense', moves: 'e4 e5 Nf3 Nc6 Bb5 Nf6' },
+    { eco: 'C67', name: 'Ruy Lopez: Berlin Defense, Rio de Janeiro Variation', moves: 'e4 e5 Nf3 Nc6 Bb5 Nf6 O-O Nxe4' },
+    { eco: 'C68', name: 'Ruy Lopez: Exchange Variation', moves: 'e4 e5 Nf3 Nc6 Bb5 a6 Bxc6' },
+    { eco: 'C70', name: 'Ruy Lopez: Morphy Defense', moves: 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4' },
+    { eco: 'C78', name: 'Ruy Lopez: Morphy Defense, Normal Variation', moves: 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O' },
+    { eco: 'C84', name: 'Ruy Lopez: Closed', moves: 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7' },
+    { eco: 'C88', name: 'Ruy Lopez: Closed', moves: 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3' },
+    { eco: 'C89', name: 'Ruy Lopez: Marshall Attack', moves: 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 O-O c3 d5' },
+    { eco: 'D00', name: "Queen's Pawn Game", moves: 'd4 d5' },
+    { eco: 'D00', name: 'Queen\'s Pawn Game: Accelerated London System', moves: 'd4 d5 Bf4' },
+    { eco: 'D02', name: "Queen's Pawn Game: Zukertort Variation", moves: 'd4 d5 Nf3' },
+    { eco: 'D02', name: 'London System', moves: 'd4 d5 Nf3 Nf6 Bf4' },
+    { eco: 'D06', name: "Queen's Gambit", moves: 'd4 d5 c4' },
+    { eco: 'D07', name: "Queen's Gambit Declined: Chigorin Defense", moves: 'd4 d5 c4 Nc6' },
+    { eco: 'D08', name: "Queen's Gambit Declined: Albin Countergambit", moves: 'd4 d5 c4 e5' },
+    { eco: 'D10', name: 'Slav Defense', moves: 'd4 d5 c4 c6' },
+    { eco: 'D11', name: 'Slav Defense: Modern Line', moves: 'd4 d5 c4 c6 Nf3' },
+    { eco: 'D15', name: 'Slav Defense: Three Knights Variation', moves: 'd4 d5 c4 c6 Nf3 Nf6 Nc3' },
+    { eco: 'D20', name: "Queen's Gambit Accepted", moves: 'd4 d5 c4 dxc4' },
+    { eco: 'D30', name: "Queen's Gambit Declined", moves: 'd4 d5 c4 e6' },
+    { eco: 'D31', name: "Queen's Gambit Declined: Queen's Knight Variation", moves: 'd4 d5 c4 e6 Nc3' },
+    { eco: 'D32', name: 'Tarrasch Defense', moves: 'd4 d5 c4 e6 Nc3 c5' },
+    { eco: 'D35', name: "Queen's Gambit Declined: Normal Defense", moves: 'd4 d5 c4 e6 Nc3 Nf6' },
+    { eco: 'D43', name: 'Semi-Slav Defense', moves: 'd4 d5 c4 e6 Nc3 Nf6 Nf3 c6' },
+    { eco: 'D70', name: 'Neo-Grünfeld Defense', moves: 'd4 Nf6 c4 g6 f3 d5' },
+    { eco: 'D80', name: 'Grünfeld Defense', moves: 'd4 Nf6 c4 g6 Nc3 d5' },
+    { eco: 'D85', name: 'Grünfeld Defense: Exchange Variation', moves: 'd4 Nf6 c4 g6 Nc3 d5 cxd5 Nxd5' },
+    { eco: 'E00', name: 'Indian Defense: East Indian', moves: 'd4 Nf6 c4 e6' },
+    { eco: 'E00', name: 'Catalan Opening', moves: 'd4 Nf6 c4 e6 g3' },
+    { eco: 'E10', name: 'Indian Defense: Anti-Nimzo-Indian', moves: 'd4 Nf6 c4 e6 Nf3' },
+    { eco: 'E11', name: 'Bogo-Indian Defense', moves: 'd4 Nf6 c4 e6 Nf3 Bb4+' },
+    { eco: 'E12', name: "Queen's Indian Defense", moves: 'd4 Nf6 c4 e6 Nf3 b6' },
+    { eco: 'E20', name: 'Nimzo-Indian Defense', moves: 'd4 Nf6 c4 e6 Nc3 Bb4' },
+    { eco: 'E32', name: 'Nimzo-Indian Defense: Classical Variation', moves: 'd4 Nf6 c4 e6 Nc3 Bb4 Qc2' },
+    { eco: 'E41', name: 'Nimzo-Indian Defense: Hübner Variation', moves: 'd4 Nf6 c4 e6 Nc3 Bb4 e3 c5' },
+    { eco: 'E60', name: "King's Indian Defense", moves: 'd4 Nf6 c4 g6' },
+    { eco: 'E61', name: "King's Indian Defense", moves: 'd4 Nf6 c4 g6 Nc3 Bg7' },
+    { eco: 'E70', name: "King's Indian Defense: Normal Variation", moves: 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6' },
+    { eco: 'E76', name: "King's Indian Defense: Four Pawns Attack", moves: 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f4' },
+    { eco: 'E80', name: "King's Indian Defense: Sämisch Variation", moves: 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f3' },
+    { eco: 'E90', name: "King's Indian Defense: Normal Variation", moves: 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3' },
+    { eco: 'E97', name: "King's Indian Defense: Orthodox Variation", moves: 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 O-O Nc6' },
+];
+
+// --- Lookup ---
+
+// Placement, side to move, castling and en passant: the parts of a FEN that make two positions the same
+const positionKey = (position: Position): string => positionToFen(position).split(' ').slice(0, 4).join(' ');
+
+// Built on first use by replaying every line; a position reached by several lines keeps the longest one
+let openingIndex: Map<string, Opening> | null = null;
+
+const getOpeningIndex = (): Map<string, Opening> => {
+    if (openingIndex) return openingIndex;
+    openingIndex = new Map();
+    for (const opening of OPENINGS) {
+        let position = INITIAL_POSITION;
+        for (const san of opening.moves.split(' ')) {
+            const move = sanToMove(position, san);
+            if (!move) throw new Error(`Opening table: illegal move ${san} in "${opening.name}".`);
+            position = applyMove(position, move);
+        }
+        const key = positionKey(position);
+        const known = openingIndex.get(key);
+        if (!known || known.moves.length < opening.moves.length) openingIndex.set(key, opening);
+    }
+    return openingIndex;
+};
+
+// The most specific named opening among `positions` (a game from its start), so the name
+// stays once the game leaves the table. Transpositions into a named line are recognised too.
+export const findOpening = (positions: Position[]): Opening | null => {
+    const index = getOpeningIndex();
+    for (let i = positions.length - 1; i >= 0; i--) {
+        const opening = index.get(positionKey(positions[i]));
+        if (opening) return opening;
+    }
+    return null;
+};
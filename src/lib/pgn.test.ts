@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { PgnError, exportPgn, parsePgn } from './pgn';
+import { moveToSan, moveToUci, sanToMove, uciToMove } from './notation';
+import { parseFen } from './fen';
+import { INITIAL_POSITION } from './rules';
+
+// SAN of the move given as UCI in the position
+const sanOf = (fen: string, uci: string) => {
+    const position = parseFen(fen);
+    return moveToSan(position, uciToMove(position, uci)!);
+};
+
+// UCI of the move given as SAN, or null if it isn't read as a move
+const uciOf = (fen: string, san: string) => {
+    const move = sanToMove(parseFen(fen), san);
+    return move && moveToUci(move);
+};
+
+const INITIAL_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+// Knights on b1 and f3 can both go to d2
+const TWO_KNIGHTS = '4k3/8/8/8/8/5N2/8/1N2K3 w - - 0 1';
+// Rooks on a1 and a5 can both go to a3
+const TWO_ROOKS = '4k3/8/8/R7/8/8/8/R3K3 w - - 0 1';
+// Queens on a1, a3 and c1 can all go to b2
+const THREE_QUEENS = '6k1/8/8/8/8/Q7/8/Q1Q4K w - - 0 1';
+const PROMOTION = '5r2/4P1k1/8/8/8/8/8/4K3 w - - 0 1';
+const BACK_RANK = '6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1';
+const AFTER_D4_D5 = 'rnbqkbnr/ppp1pppp/8/3p4/3P4/8/PPP1PPPP/RNBQKBNR w KQkq - 0 2';
+
+describe('standard algebraic notation', () => {
+    it('names the origin only as far as needed to tell pieces apart', () => {
+        expect(sanOf(TWO_KNIGHTS, 'b1d2')).toBe('Nbd2');
+        expect(sanOf(TWO_KNIGHTS, 'f3e5')).toBe('Ne5');
+        expect(sanOf(TWO_ROOKS, 'a1a3')).toBe('R1a3');
+        expect(sanOf(THREE_QUEENS, 'a1b2')).toBe('Qa1b2');
+        expect(sanOf(THREE_QUEENS, 'a3b2')).toBe('Q3b2');
+        expect(sanOf(THREE_QUEENS, 'c1b2')).toBe('Qcb2');
+    });
+
+    it('writes promotions, checks, mates and castling', () => {
+        expect(sanOf(PROMOTION, 'e7e8q')).toBe('e8=Q');
+        expect(sanOf(PROMOTION, 'e7e8n')).toBe('e8=N+');
+        expect(sanOf(PROMOTION, 'e7f8q')).toBe('exf8=Q+');
+        expect(sanOf(BACK_RANK, 'a1a8')).toBe('Ra8#');
+        expect(sanOf('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1', 'e1g1')).toBe('O-O');
+    });
+
+    it('reads SAN back into the same moves', () => {
+        expect(uciOf(TWO_KNIGHTS, 'Nbd2')).toBe('b1d2');
+        expect(uciOf(THREE_QUEENS, 'Qa1b2')).toBe('a1b2');
+        expect(uciOf(PROMOTION, 'exf8=Q+')).toBe('e7f8q');
+        expect(uciOf(PROMOTION, 'e8N')).toBe('e7e8n');
+        expect(uciOf(BACK_RANK, 'Ra8#!')).toBe('a1a8');
+        expect(uciOf('r3k2r/8/8/8/8/8/8/R3K2R b KQkq - 0 1', '0-0-0')).toBe('e8c8');
+    });
+
+    it('reads moves that name more of the origin than they need to', () => {
+        expect(uciOf(INITIAL_FEN, 'Ng1f3')).toBe('g1f3');
+        expect(uciOf(AFTER_D4_D5, 'Nbd2')).toBe('b1d2');
+        expect(uciOf(AFTER_D4_D5, 'N1d2')).toBe('b1d2');
+        expect(uciOf(TWO_ROOKS, 'Ra1a3')).toBe('a1a3');
+    });
+
+    it('rejects moves that are illegal or ambiguous', () => {
+        expect(uciOf(TWO_KNIGHTS, 'Nd2')).toBeNull();
+        expect(uciOf(THREE_QUEENS, 'Qab2')).toBeNull();
+        expect(uciOf(INITIAL_FEN, 'Nf6')).toBeNull();
+        expect(uciOf(INITIAL_FEN, 'e5')).toBeNull();
+        expect(uciOf(PROMOTION, 'e8')).toBeNull();
+        expect(uciOf(INITIAL_FEN, 'O-O')).toBeNull();
+    });
+});
+
+const SCHOLARS_MATE = `[Event "Casual Game"]
+[White "Alice"]
+[Black "Bob"]
+[Result "1-0"]
+
+1. e4 e5 2. Bc4 Nc6 3. Qh5 Nf6?? {Misses the threat} 4. Qxf7# 1-0`;
+
+const DRAWN_GAME = `[Event "Casual Game"]
+[Result "1/2-1/2"]
+
+1. d4 d5 (1... Nf6 2. c4) 2. c4 1/2-1/2`;
+
+describe('PGN import', () => {
+    it('reads the tags, moves and result', () => {
+        const game = parsePgn(SCHOLARS_MATE);
+        expect(game.tags).toMatchObject({ White: 'Alice', Black: 'Bob', Result: '1-0' });
+        expect(game.moves.map(moveToUci)).toEqual(['e2e4', 'e7e5', 'f1c4', 'b8c6', 'd1h5', 'g8f6', 'h5f7']);
+        expect(game.result).toBe('1-0');
+    });
+
+    it('reads back what it exports', () => {
+        const game = parsePgn(SCHOLARS_MATE);
+        expect(parsePgn(exportPgn(game))).toEqual(game);
+    });
+
+    it('reads only the first game of a file with several', () => {
+        const game = parsePgn(`${SCHOLARS_MATE}\n\n${DRAWN_GAME}\n`);
+        expect(game.tags.Black).toBe('Bob');
+        expect(game.moves).toHaveLength(7);
+        expect(game.result).toBe('1-0');
+        expect(parsePgn(`${DRAWN_GAME}\n\n${SCHOLARS_MATE}`).moves.map(moveToUci)).toEqual(['d2d4', 'd7d5', 'c2c4']);
+    });
+
+    it('reads games that start from a FEN', () => {
+        const game = parsePgn(`[SetUp "1"]\n[FEN "${BACK_RANK}"]\n\n1. Ra8# 1-0`);
+        expect(game.start).toEqual(parseFen(BACK_RANK));
+        expect(game.moves.map(moveToUci)).toEqual(['a1a8']);
+    });
+
+    it('reports malformed tags', () => {
+        expect(() => parsePgn('[Event "Paris"]\n[White Morphy]\n\n1. e4 *')).toThrow(new PgnError("Malformed tag on line 2: [White Morphy]"));
+        expect(() => parsePgn('[Result "2-0"]\n\n1. e4 *')).toThrow('Invalid Result tag "2-0".');
+        expect(() => parsePgn('[SetUp "1"]\n\n1. e4 *')).toThrow("SetUp tag is present but the FEN tag is missing.");
+    });
+
+    it('reports illegal moves with their move number and side', () => {
+        expect(() => parsePgn('1. e4 e5 2. Ke3 *')).toThrow(new PgnError('Illegal or unrecognized move "Ke3" at move 2 (White).'));
+        expect(() => parsePgn('1. e4 e5 2. Nf3 Nf3 *')).toThrow('Illegal or unrecognized move "Nf3" at move 2 (Black).');
+        expect(() => parsePgn(`[FEN "${TWO_KNIGHTS}"]\n\n1. Nd2 *`)).toThrow('Illegal or unrecognized move "Nd2" at move 1 (White).');
+    });
+
+    it('reports a result that contradicts the Result tag', () => {
+        expect(() => parsePgn('[Result "0-1"]\n\n1. e4 1-0')).toThrow('Result tag "0-1" does not match the game result "1-0".');
+    });
+
+    it('starts from the initial position without a FEN tag', () => {
+        expect(parsePgn('*').start).toEqual(INITIAL_POSITION);
+    });
+});
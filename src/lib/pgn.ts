@@ -0,0 +1,226 @@
+import { Color, GameMode, GameResult, Move, Players, Position } from '../types';
+import { applyMove } from './rules';
+import { movesToSan, sanToMove } from './notation';
+import { FenError, parseFen, positionToFen } from './fen';
+import { VARIANTS, createStartPosition, findVariant, getVariant } from './variants';
+
+// --- Types ---
+
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export type PgnTags = Record<string, string>;
+
+export interface PgnGame {
+    tags: PgnTags;
+    start: Position;
+    moves: Move[];
+    result: PgnResult;
+}
+
+export class PgnError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PgnError';
+    }
+}
+
+// The Seven Tag Roster, in the order the PGN standard requires them
+const SEVEN_TAG_ROSTER = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'];
+
+const RESULTS: PgnResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+
+// --- Export ---
+
+const aiName = (players: Players, color: Color) => `Supreme Chess AI (${players.aiLevels[color]})`;
+
+export const getPgnPlayers = (mode: GameMode, players: Players): { white: string, black: string } => {
+    if (mode === 'ai') {
+        return players.humanColor === 'w'
+            ? { white: 'Player', black: aiName(players, 'b') }
+            : { white: aiName(players, 'w'), black: 'Player' };
+    }
+    if (mode === 'spectator') return { white: aiName(players, 'w'), black: aiName(players, 'b') };
+    if (mode === 'multiplayer') return { white: 'Online Player (White)', black: 'Online Player (Black)' };
+    return { white: 'White Player', black: 'Black Player' };
+};
+
+const EVENT_NAMES: Record<GameMode, string> = {
+    local: 'Casual Game',
+    ai: 'Game vs AI',
+    multiplayer: 'Online Game',
+    spectator: 'AI vs AI',
+    puzzle: 'Puzzle',
+};
+
+export const getPgnResult = (result: GameResult | null): PgnResult => {
+    if (!result) return '*';
+    return result.winner === 'w' ? '1-0' : result.winner === 'b' ? '0-1' : '1/2-1/2';
+};
+
+// The result a PGN records. PGN only stores the score, so the reason comes from the Termination tag
+// if it says the game was lost on time, and is otherwise taken to be a resignation or an agreed draw.
+// A result the final position decides on its own (e.g. checkmate) takes precedence when the game is loaded.
+export const getGameResult = (result: PgnResult, tags: PgnTags): GameResult | null => {
+    if (result === '*') return null;
+    const winner = result === '1-0' ? 'w' : result === '0-1' ? 'b' : null;
+    if (tags.Termination?.toLowerCase() === 'time forfeit') return { winner, reason: 'timeout' };
+    return { winner, reason: winner ? 'resignation' : 'agreement' };
+};
+
+const formatPgnDate = (date: Date): string =>
+    `${date.getFullYear()}.${String(date.getMonth() + 1).padStart(2, '0')}.${String(date.getDate()).padStart(2, '0')}`;
+
+export const createPgnTags = (mode: GameMode, players: Players, result: PgnResult, date: Date = new Date()): PgnTags => {
+    const { white, black } = getPgnPlayers(mode, players);
+    return {
+        Event: EVENT_NAMES[mode],
+        Site: 'Supreme Chess',
+        Date: formatPgnDate(date),
+        Round: '-',
+        White: white,
+        Black: black,
+        Result: result,
+    };
+};
+
+const escapeTagValue = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+// Wraps movetext at 80 columns as recommended for PGN export format
+const wrapMovetext = (tokens: string[]): string => {
+    const lines: string[] = [];
+    let line = '';
+    for (const token of tokens) {
+        if (line && line.length + token.length + 1 > 80) {
+            lines.push(line);
+            line = token;
+        } else {
+            line = line ? `${line} ${token}` : token;
+        }
+    }
+    if (line) lines.push(line);
+    return lines.join('\n');
+};
+
+export const exportPgn = (game: PgnGame): string => {
+    const tags: PgnTags = { ...game.tags, Result: game.result };
+    const variant = getVariant(game.start);
+    if (variant !== 'standard') tags.Variant = VARIANTS[variant].name;
+    // Games that don't begin from the variant's usual position carry it in the SetUp/FEN tag pair;
+    // a Chess960 setup is always written out
+    const startFen = positionToFen(game.start);
+    if (variant === 'chess960' || startFen !== positionToFen(createStartPosition(variant))) {
+        tags.SetUp = '1';
+        tags.FEN = startFen;
+    }
+
+    const tagNames = [...SEVEN_TAG_ROSTER, ...Object.keys(tags).filter(name => !SEVEN_TAG_ROSTER.includes(name))];
+    const header = tagNames
+        .filter(name => tags[name] !== undefined)
+        .map(name => `[${name} "${escapeTagValue(tags[name])}"]`)
+        .join('\n');
+
+    const tokens: string[] = [];
+    // Plies are counted from White's first move so a game starting with Black gets "n..." first
+    const plyOffset = game.start.turn === 'b' ? 1 : 0;
+    movesToSan(game.moves, game.start).forEach((san, index) => {
+        const ply = index + plyOffset;
+        const moveNumber = game.start.fullmoveNumber + Math.floor(ply / 2);
+        if (ply % 2 === 0) tokens.push(`${moveNumber}.`);
+        else if (index === 0) tokens.push(`${moveNumber}...`);
+        tokens.push(san);
+    });
+    tokens.push(game.result);
+
+    return `${header}\n\n${wrapMovetext(tokens)}\n`;
+};
+
+// --- Import ---
+
+const TAG_PATTERN = /^\[([A-Za-z0-9_]+)\s+"((?:[^"\\]|\\.)*)"\]$/;
+
+const parseTags = (lines: string[]): PgnTags => {
+    const tags: PgnTags = {};
+    lines.forEach((line, index) => {
+        const match = TAG_PATTERN.exec(line);
+        if (!match) throw new PgnError(`Malformed tag on line ${index + 1}: ${line}`);
+        tags[match[1]] = match[2].replace(/\\(.)/g, '$1');
+    });
+    if (tags.Result !== undefined && !RESULTS.includes(tags.Result as PgnResult)) {
+        throw new PgnError(`Invalid Result tag "${tags.Result}". Expected one of ${RESULTS.join(', ')}.`);
+    }
+    return tags;
+};
+
+// Removes comments, variations and NAGs, leaving move numbers, SAN tokens and the result
+const stripMovetext = (movetext: string): string => {
+    let text = movetext.replace(/\{[^}]*\}/g, ' ').replace(/;[^\n]*/g, ' ').replace(/\$\d+/g, ' ');
+    // Variations can nest, so peel them from the inside out
+    let previous: string;
+    do {
+        previous = text;
+        text = text.replace(/\([^()]*\)/g, ' ');
+    } while (text !== previous);
+    if (/[()]/.test(text)) throw new PgnError("Unbalanced parentheses in the move text.");
+    return text;
+};
+
+// Parses the first game in a PGN file
+export const parsePgn = (text: string): PgnGame => {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const firstMoveLine = lines.findIndex(line => line.trim() && !line.trim().startsWith('['));
+    const tagLines = (firstMoveLine === -1 ? lines : lines.slice(0, firstMoveLine)).map(line => line.trim()).filter(Boolean);
+    const tags = parseTags(tagLines);
+
+    const variant = tags.Variant ? findVariant(tags.Variant) : 'standard';
+    if (!variant) throw new PgnError(`Unsupported variant "${tags.Variant}".`);
+
+    let start: Position;
+    if (tags.FEN) {
+        try {
+            start = parseFen(tags.FEN, variant);
+        } catch (error) {
+            throw new PgnError(`Invalid FEN tag: ${error instanceof FenError ? error.message : String(error)}`);
+        }
+    } else if (tags.SetUp === '1') {
+        throw new PgnError("SetUp tag is present but the FEN tag is missing.");
+    } else if (variant === 'chess960') {
+        throw new PgnError("A Chess960 game needs a FEN tag with its starting setup.");
+    } else {
+        start = createStartPosition(variant);
+    }
+
+    // The movetext ends where the next game's tags begin; later games in the file are ignored
+    const nextGameLine = lines.findIndex((line, index) => index > firstMoveLine && TAG_PATTERN.test(line.trim()));
+    const movetext = firstMoveLine === -1 ? '' : lines.slice(firstMoveLine, nextGameLine === -1 ? undefined : nextGameLine).join(' ');
+    const tokens = stripMovetext(movetext).split(/\s+/).filter(Boolean);
+
+    const moves: Move[] = [];
+    let position = start;
+    let result: PgnResult = '*';
+
+    for (let i = 0; i < tokens.length; i++) {
+        // Move numbers may be glued to the move ("1.e4") or stand alone ("1." / "1...")
+        const token = tokens[i].replace(/^\d+\.+/, '');
+        if (!token) continue;
+        if (RESULTS.includes(token as PgnResult)) {
+            result = token as PgnResult;
+            if (i !== tokens.length - 1) throw new PgnError(`Unexpected text after the result "${token}".`);
+            break;
+        }
+
+        const move = sanToMove(position, token);
+        if (!move) {
+            const moveNumber = position.fullmoveNumber;
+            const side = position.turn === 'w' ? 'White' : 'Black';
+            throw new PgnError(`Illegal or unrecognized move "${token}" at move ${moveNumber} (${side}).`);
+        }
+        moves.push(move);
+        position = applyMove(position, move);
+    }
+
+    if (tags.Result && tags.Result !== result && result !== '*') {
+        throw new PgnError(`Result tag "${tags.Result}" does not match the game result "${result}".`);
+    }
+
+    return { tags, start, moves, result: result === '*' ? (tags.Result as PgnResult) ?? '*' : result };
+};
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AuthUser, PlayerStore, ensureProfile, getAIRating, recordAIGame, recordOnlineGame } from './players';
+import { createLocalPlayerStore } from './localPlayerStore';
+import { INITIAL_RATING, rateGame, updateRating } from './glicko';
+
+const ALICE: AuthUser = { id: 'alice', email: 'alice@example.com', isGuest: false };
+const BOB: AuthUser = { id: 'bob', email: null, isGuest: true };
+
+let store: PlayerStore;
+
+beforeEach(async () => {
+    store = createLocalPlayerStore();
+    await ensureProfile(store, ALICE);
+    await ensureProfile(store, BOB);
+});
+
+describe('online games', () => {
+    it("rates both players and records each one's change", async () => {
+        const changes = await recordOnlineGame(store, 'room-ABC', { w: 'alice', b: 'bob' }, 'b');
+        const expected = rateGame({ w: INITIAL_RATING, b: INITIAL_RATING }, 'b');
+
+        const [alice, bob] = [await store.getProfile('alice'), await store.getProfile('bob')];
+        expect(alice!.ratings.online).toEqual(expected.w);
+        expect(bob!.ratings.online).toEqual(expected.b);
+        expect(alice!.games).toEqual({ online: 1, ai: 0 });
+        expect(changes!.map(change => [change.playerId, change.score, change.opponent])).toEqual([['alice', 0, 'Guest BOB'], ['bob', 1, 'alice']]);
+        expect(await store.getRatingHistory('bob', 10)).toEqual([changes![1]]);
+        expect((await store.getLeaderboard('online', 10)).map(profile => profile.id)).toEqual(['bob', 'alice']);
+    });
+
+    it('rates a draw between equals without moving either rating', async () => {
+        const changes = await recordOnlineGame(store, 'room-DRAW', { w: 'alice', b: 'bob' }, null);
+        expect(changes!.map(change => change.score)).toEqual([0.5, 0.5]);
+        expect((await store.getProfile('alice'))!.ratings.online.rating).toBeCloseTo(1500, 6);
+        expect((await store.getProfile('bob'))!.ratings.online.deviation).toBeLessThan(INITIAL_RATING.deviation);
+    });
+
+    it('rates each game only once', async () => {
+        await recordOnlineGame(store, 'room-ABC', { w: 'alice', b: 'bob' }, 'w');
+        const alice = await store.getProfile('alice');
+        expect(await recordOnlineGame(store, 'room-ABC', { w: 'alice', b: 'bob' }, 'w')).toBeNull();
+        expect(await store.getProfile('alice')).toEqual(alice);
+    });
+
+    it("leaves games unrated when a player has no profile or plays themselves", async () => {
+        expect(await recordOnlineGame(store, 'room-ANON', { w: 'alice', b: 'anonymous' }, 'w')).toBeNull();
+        expect(await recordOnlineGame(store, 'room-SELF', { w: 'alice', b: 'alice' }, 'w')).toBeNull();
+        expect((await store.getProfile('alice'))!.games.online).toBe(0);
+        // Neither attempt used up the game id
+        expect(await store.claimGame('room-ANON')).toBe(true);
+    });
+});
+
+describe('games against the AI', () => {
+    it("moves only the human's AI rating, against the level's fixed rating", async () => {
+        const change = await recordAIGame(store, 'ai-1', 'alice', 'b', 'Hard', 'b');
+        const expected = updateRating(INITIAL_RATING, [{ opponent: getAIRating('Hard'), score: 1 }]);
+
+        const alice = await store.getProfile('alice');
+        expect(alice!.ratings.ai).toEqual(expected);
+        expect(alice!.ratings.online).toEqual(INITIAL_RATING);
+        expect(alice!.games).toEqual({ online: 0, ai: 1 });
+        expect(change).toMatchObject({ playerId: 'alice', pool: 'ai', opponent: 'AI (Hard)', score: 1 });
+    });
+
+    it('rates draws and losses', async () => {
+        const draw = await recordAIGame(store, 'ai-draw', 'alice', 'w', 'Easy', null);
+        const loss = await recordAIGame(store, 'ai-loss', 'bob', 'w', 'Easy', 'b');
+        expect(draw!.score).toBe(0.5);
+        // A draw against a weaker level still costs rating points
+        expect(draw!.after.rating).toBeLessThan(1500);
+        expect(loss!.score).toBe(0);
+        expect(loss!.after.rating).toBeLessThan(draw!.after.rating);
+    });
+
+    it('rates each game once and only for players with a profile', async () => {
+        await recordAIGame(store, 'ai-1', 'alice', 'w', 'Beginner', 'w');
+        expect(await recordAIGame(store, 'ai-1', 'alice', 'w', 'Beginner', 'w')).toBeNull();
+        expect((await store.getProfile('alice'))!.games.ai).toBe(1);
+        await expect(recordAIGame(store, 'ai-2', 'anonymous', 'w', 'Beginner', 'w')).rejects.toThrow("Sign in to play rated games.");
+    });
+});
@@ -0,0 +1,219 @@
+import { Color, Difficulty } from '../types';
+import { GlickoRating, INITIAL_RATING, getScore, rateGame, updateRating } from './glicko';
+
+// --- Accounts ---
+
+export interface AuthUser {
+    id: string;
+    email: string | null; // null for guests
+    isGuest: boolean;
+}
+
+// Signing in and out. The app only talks to this interface, so Supabase Auth can be swapped for
+// the in-memory fake in localPlayerStore.ts.
+export interface AuthService {
+    getUser(): Promise<AuthUser | null>;
+    signInAsGuest(): Promise<AuthUser>;
+    signInWithEmail(email: string, password: string): Promise<AuthUser>;
+    // Null when the account still has to be confirmed from the email sent to it
+    signUpWithEmail(email: string, password: string): Promise<AuthUser | null>;
+    signOut(): Promise<void>;
+    // Calls the listener after every sign-in and sign-out. Returns an unsubscribe function.
+    onChange(listener: (user: AuthUser | null) => void): () => void;
+}
+
+export class PlayerError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PlayerError';
+    }
+}
+
+// --- Profiles ---
+
+// Online games and games against the AI are rated separately, so beating the AI can't inflate
+// the rating other players are matched against
+export type RatingPool = 'online' | 'ai';
+
+export const RATING_POOLS: RatingPool[] = ['online', 'ai'];
+
+export interface PlayerProfile {
+    id: string; // the account's user id
+    displayName: string;
+    isGuest: boolean;
+    ratings: Record<RatingPool, GlickoRating>;
+    games: Record<RatingPool, number>; // rated games played
+    createdAt: string;
+}
+
+// One player's rating before and after one rated game
+export interface RatingChange {
+    playerId: string;
+    pool: RatingPool;
+    gameId: string;
+    opponent: string; // display name, or the AI's level
+    score: number; // 1, 0.5 or 0
+    before: GlickoRating;
+    after: GlickoRating;
+    recordedAt: string;
+}
+
+// Where profiles and ratings are kept: Supabase tables, or the in-memory fake in localPlayerStore.ts
+export interface PlayerStore {
+    getProfile(id: string): Promise<PlayerProfile | null>;
+    saveProfile(profile: PlayerProfile): Promise<void>;
+    // Highest rated first, leaving out players without a rated game in the pool
+    getLeaderboard(pool: RatingPool, limit: number): Promise<PlayerProfile[]>;
+    // Newest first, both pools
+    getRatingHistory(playerId: string, limit: number): Promise<RatingChange[]>;
+    // Marks a game as rated. False if it already was, so a game can never be rated twice,
+    // even when both players' clients report it.
+    claimGame(gameId: string): Promise<boolean>;
+    addRatingChanges(changes: RatingChange[]): Promise<void>;
+}
+
+export const MAX_DISPLAY_NAME_LENGTH = 24;
+
+const getDefaultName = (user: AuthUser): string =>
+    user.email ? user.email.split('@')[0].slice(0, MAX_DISPLAY_NAME_LENGTH) : `Guest ${user.id.slice(0, 4).toUpperCase()}`;
+
+export const createProfile = (user: AuthUser, now: Date = new Date()): PlayerProfile => ({
+    id: user.id,
+    displayName: getDefaultName(user),
+    isGuest: user.isGuest,
+    ratings: { online: INITIAL_RATING, ai: INITIAL_RATING },
+    games: { online: 0, ai: 0 },
+    createdAt: now.toISOString(),
+});
+
+// The user's profile, created on their first sign-in
+export const ensureProfile = async (store: PlayerStore, user: AuthUser): Promise<PlayerProfile> => {
+    const existing = await store.getProfile(user.id);
+    if (existing) {
+        // A guest who upgraded to an email account keeps their profile
+        if (existing.isGuest === user.isGuest) return existing;
+        const upgraded = { ...existing, isGuest: user.isGuest };
+        await store.saveProfile(upgraded);
+        return upgraded;
+    }
+    const profile = createProfile(user);
+    await store.saveProfile(profile);
+    return profile;
+};
+
+export const renameProfile = (profile: PlayerProfile, name: string): PlayerProfile => {
+    const displayName = name.trim().replace(/\s+/g, ' ');
+    if (!displayName) throw new PlayerError("The name can't be empty.");
+    if (displayName.length > MAX_DISPLAY_NAME_LENGTH) throw new PlayerError(`Names are at most ${MAX_DISPLAY_NAME_LENGTH} characters.`);
+    return { ...profile, displayName };
+};
+
+// --- AI Opponents ---
+
+// Each level plays as a fixed, well-established rating; only the human's rating moves
+export const AI_RATINGS: Record<Difficulty, number> = {
+    Beginner: 800,
+    Easy: 1200,
+    Hard: 1600,
+    Master: 2000,
+};
+
+const AI_DEVIATION = 50;
+
+export const getAIRating = (difficulty: Difficulty): GlickoRating =>
+    ({ rating: AI_RATINGS[difficulty], deviation: AI_DEVIATION, volatility: INITIAL_RATING.volatility });
+
+// --- Rating Games ---
+
+const applyChange = (profile: PlayerProfile, pool: RatingPool, after: GlickoRating): PlayerProfile => ({
+    ...profile,
+    ratings: { ...profile.ratings, [pool]: after },
+    games: { ...profile.games, [pool]: profile.games[pool] + 1 },
+});
+
+// Both players' profiles and rating changes after an online game won by `winner` (null for a draw)
+export const applyRatedGame = (
+    gameId: string,
+    profiles: Record<Color, PlayerProfile>,
+    winner: Color | null,
+    now: Date = new Date(),
+): { profiles: Record<Color, PlayerProfile>, changes: RatingChange[] } => {
+    const after = rateGame({ w: profiles.w.ratings.online, b: profiles.b.ratings.online }, winner);
+    const change = (color: Color, opponent: Color): RatingChange => ({
+        playerId: profiles[color].id,
+        pool: 'online',
+        gameId,
+        opponent: profiles[opponent].displayName,
+        score: getScore(winner, color),
+        before: profiles[color].ratings.online,
+        after: after[color],
+        recordedAt: now.toISOString(),
+    });
+    return {
+        profiles: { w: applyChange(profiles.w, 'online', after.w), b: applyChange(profiles.b, 'online', after.b) },
+        changes: [change('w', 'b'), change('b', 'w')],
+    };
+};
+
+// The player's profile and rating change after a game against the AI at `difficulty`
+export const applyAIGame = (
+    gameId: string,
+    profile: PlayerProfile,
+    humanColor: Color,
+    difficulty: Difficulty,
+    winner: Color | null,
+    now: Date = new Date(),
+): { profile: PlayerProfile, change: RatingChange } => {
+    const score = getScore(winner, humanColor);
+    const after = updateRating(profile.ratings.ai, [{ opponent: getAIRating(difficulty), score }]);
+    return {
+        profile: applyChange(profile, 'ai', after),
+        change: {
+            playerId: profile.id,
+            pool: 'ai',
+            gameId,
+            opponent: `AI (${difficulty})`,
+            score,
+            before: profile.ratings.ai,
+            after,
+            recordedAt: now.toISOString(),
+        },
+    };
+};
+
+// Rates a finished online game between two players with profiles. Resolves to null if the game
+// was already rated, or if either player has no profile (e.g. never signed in).
+export const recordOnlineGame = async (
+    store: PlayerStore,
+    gameId: string,
+    playerIds: Record<Color, string>,
+    winner: Color | null,
+): Promise<RatingChange[] | null> => {
+    const [white, black] = await Promise.all([store.getProfile(playerIds.w), store.getProfile(playerIds.b)]);
+    if (!white || !black || white.id === black.id) return null;
+    if (!await store.claimGame(gameId)) return null;
+
+    const { profiles, changes } = applyRatedGame(gameId, { w: white, b: black }, winner);
+    await Promise.all([store.saveProfile(profiles.w), store.saveProfile(profiles.b)]);
+    await store.addRatingChanges(changes);
+    return changes;
+};
+
+// Rates a finished game against the AI; resolves to null if it was already rated
+export const recordAIGame = async (
+    store: PlayerStore,
+    gameId: string,
+    playerId: string,
+    humanColor: Color,
+    difficulty: Difficulty,
+    winner: Color | null,
+): Promise<RatingChange | null> => {
+    const profile = await store.getProfile(playerId);
+    if (!profile) throw new PlayerError("Sign in to play rated games.");
+    if (!await store.claimGame(gameId)) return null;
+
+    const { profile: updated, change } = applyAIGame(gameId, profile, humanColor, difficulty, winner);
+    await store.saveProfile(updated);
+    await store.addRatingChanges([change]);
+    return change;
+};
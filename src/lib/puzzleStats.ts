@@ -0,0 +1,60 @@
+import { Puzzle } from './puzzles';
+
+// --- Puzzle Rating and Progress ---
+
+export interface PuzzleStats {
+    rating: number;
+    attempts: number;
+    solved: number;
+    streak: number; // puzzles solved in a row
+    bestStreak: number;
+    seenIds: string[]; // puzzles already attempted, so new ones are served first
+}
+
+export const INITIAL_PUZZLE_STATS: PuzzleStats = { rating: 1500, attempts: 0, solved: 0, streak: 0, bestStreak: 0, seenIds: [] };
+
+// Elo-style update against the puzzle's rating, with larger swings for the first few attempts.
+// Only the first attempt at a puzzle counts; replaying one already seen is practice.
+export const recordPuzzleResult = (stats: PuzzleStats, puzzle: Puzzle, solved: boolean): PuzzleStats => {
+    if (stats.seenIds.includes(puzzle.id)) return stats;
+    const expected = 1 / (1 + 10 ** ((puzzle.rating - stats.rating) / 400));
+    const k = stats.attempts < 20 ? 40 : 20;
+    const streak = solved ? stats.streak + 1 : 0;
+    return {
+        rating: Math.round(stats.rating + k * ((solved ? 1 : 0) - expected)),
+        attempts: stats.attempts + 1,
+        solved: stats.solved + (solved ? 1 : 0),
+        streak,
+        bestStreak: Math.max(stats.bestStreak, streak),
+        seenIds: [...stats.seenIds, puzzle.id],
+    };
+};
+
+// Share of attempts solved, 0..1, or null before the first attempt
+export const getSolveRate = (stats: PuzzleStats): number | null => stats.attempts ? stats.solved / stats.attempts : null;
+
+// A random one of the unseen puzzles closest to the player's rating; once all are seen, any puzzle but `currentId`
+export const pickNextPuzzle = (puzzles: Puzzle[], stats: PuzzleStats, currentId?: string, random: () => number = Math.random): Puzzle | null => {
+    const unseen = puzzles.filter(puzzle => !stats.seenIds.includes(puzzle.id));
+    const pool = unseen.length > 0 ? unseen : puzzles.filter(puzzle => puzzle.id !== currentId);
+    const candidates = [...(pool.length > 0 ? pool : puzzles)]
+        .sort((a, b) => Math.abs(a.rating - stats.rating) - Math.abs(b.rating - stats.rating))
+        .slice(0, 3);
+    return candidates[Math.floor(random() * candidates.length)] ?? null;
+};
+
+// --- Local Storage ---
+
+const STATS_KEY = 'supreme-chess-puzzle-stats';
+
+// Unreadable stats start over rather than breaking the trainer
+export const loadPuzzleStats = (): PuzzleStats => {
+    try {
+        const raw = localStorage.getItem(STATS_KEY);
+        return raw ? { ...INITIAL_PUZZLE_STATS, ...JSON.parse(raw) } : INITIAL_PUZZLE_STATS;
+    } catch {
+        return INITIAL_PUZZLE_STATS;
+    }
+};
+
+export const savePuzzleStats = (stats: PuzzleStats) => localStorage.setItem(STATS_KEY, JSON.stringify(stats));
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import {
+    Puzzle, PuzzleError, advancePuzzle, forfeitPuzzle, getPuzzleStart, getSolutionMove, isOpponentToMove, judgePuzzleMove, parsePuzzleCsv,
+    parsePuzzleJson, parsePuzzleSet, playSolutionMove, startPuzzle,
+} from './puzzles';
+import { INITIAL_PUZZLE_STATS, recordPuzzleResult } from './puzzleStats';
+import { Move, Position } from '../types';
+import { applyMove } from './rules';
+import { uciToMove } from './notation';
+
+// Back-rank mate in one
+const MATE_FEN = '6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1';
+
+describe('puzzle CSV files', () => {
+    it('reads quoted fields holding commas, quotes and line breaks', () => {
+        const csv = [
+            'id,fen,solution,themes,rating',
+            `"back, rank",${MATE_FEN},a1a8,"mateIn1 ""classic""",900`,
+            '',
+            `"two`,
+            `lines",${MATE_FEN},a1a8,mateIn1,1000`,
+        ].join('\r\n');
+        const puzzles = parsePuzzleCsv(csv);
+        expect(puzzles.map(puzzle => puzzle.id)).toEqual(['back, rank', 'two\r\nlines']);
+        expect(puzzles[0]).toMatchObject({ fen: MATE_FEN, solution: ['a1a8'], themes: ['mateIn1', '"classic"'], rating: 900 });
+    });
+
+    it('takes the columns in any order', () => {
+        const [puzzle] = parsePuzzleCsv(`Rating,Solution,FEN\n1200,a1a8,${MATE_FEN}`);
+        expect(puzzle).toEqual({ id: MATE_FEN, fen: MATE_FEN, solution: ['a1a8'], themes: [], rating: 1200 });
+    });
+
+    it('reports malformed rows with their line', () => {
+        const header = 'id,fen,solution,rating\n';
+        expect(() => parsePuzzleCsv(`${header}p1,${MATE_FEN},a1a8`)).toThrow("Line 2: expected 4 fields but found 3.");
+        expect(() => parsePuzzleCsv(`${header}\np1,${MATE_FEN},a1a8,900,extra`)).toThrow("Line 3: expected 4 fields but found 5.");
+        expect(() => parsePuzzleCsv(`${header}"p1,${MATE_FEN},a1a8,900`)).toThrow("Line 2: a quoted field is never closed.");
+        expect(() => parsePuzzleCsv(`${header}"p1"x,${MATE_FEN},a1a8,900`)).toThrow("Line 2: text after a closing quote.");
+        expect(() => parsePuzzleCsv(`${header}p"1,${MATE_FEN},a1a8,900`)).toThrow("Line 2: a quote inside an unquoted field.");
+        expect(() => parsePuzzleCsv(`${header}p1,${MATE_FEN},a1a2 g8h8,900`)).toThrow('Line 2: the solution must be an odd number');
+    });
+
+    it('rejects missing and non-numeric ratings', () => {
+        const header = 'id,fen,solution,rating\n';
+        expect(() => parsePuzzleCsv(`${header}p1,${MATE_FEN},a1a8,`)).toThrow("Line 2: missing rating.");
+        expect(() => parsePuzzleCsv(`${header}p1,${MATE_FEN},a1a8," "`)).toThrow("Line 2: missing rating.");
+        expect(() => parsePuzzleCsv(`${header}p1,${MATE_FEN},a1a8,easy`)).toThrow('Line 2: invalid rating "easy".');
+        expect(() => parsePuzzleJson(JSON.stringify([{ fen: MATE_FEN, solution: 'a1a8', rating: null }]))).toThrow("Puzzle 1: missing rating.");
+        expect(() => parsePuzzleJson(JSON.stringify([{ fen: MATE_FEN, solution: 'a1a8', rating: [900] }]))).toThrow('Puzzle 1: invalid rating "900".');
+        expect(parsePuzzleJson(JSON.stringify([{ fen: MATE_FEN, solution: 'a1a8', rating: 0 }]))[0].rating).toBe(0);
+    });
+
+    it('rejects files without puzzles', () => {
+        expect(() => parsePuzzleCsv('\n\n')).toThrow("The puzzle file is empty.");
+        expect(() => parsePuzzleCsv('id,rating\np1,900')).toThrow(PuzzleError);
+        expect(() => parsePuzzleSet('set.csv', 'fen,solution\n')).toThrow("set.csv contains no puzzles.");
+    });
+});
+
+// The king steps aside so the rook can mate: 1. Kc7 Ka7 2. Ra1#
+const LADDER: Puzzle = { id: 'ladder', fen: 'k7/8/2K5/8/8/8/8/1R6 w - - 0 1', solution: ['c6c7', 'a8a7', 'b1a1'], themes: [], rating: 1500 };
+
+const move = (position: Position, uci: string): Move => uciToMove(position, uci)!;
+
+describe('solving puzzles', () => {
+    it('plays through the solution with the opponent replying', () => {
+        let session = startPuzzle(LADDER);
+        let position = getPuzzleStart(LADDER);
+        expect(isOpponentToMove(session)).toBe(false);
+
+        expect(judgePuzzleMove(session, position, move(position, 'c6c7'))).toBe('correct');
+        session = advancePuzzle(session, 'correct');
+        position = applyMove(position, move(position, 'c6c7'));
+        expect(isOpponentToMove(session)).toBe(true);
+
+        const reply = getSolutionMove(session, position)!;
+        session = playSolutionMove(session);
+        position = applyMove(position, reply);
+        expect(isOpponentToMove(session)).toBe(false);
+
+        expect(judgePuzzleMove(session, position, move(position, 'b1a1'))).toBe('solved');
+        session = advancePuzzle(session, 'solved');
+        expect(session).toMatchObject({ ply: 3, isComplete: true, result: 'solved' });
+        expect(getSolutionMove(session, position)).toBeNull();
+    });
+
+    it('accepts any move that mates, not only the expected one', () => {
+        const puzzle: Puzzle = { id: 'two rooks', fen: '6k1/5ppp/8/8/8/8/8/RR4K1 w - - 0 1', solution: ['a1a8'], themes: [], rating: 900 };
+        const session = startPuzzle(puzzle);
+        const position = getPuzzleStart(puzzle);
+        expect(judgePuzzleMove(session, position, move(position, 'b1b8'))).toBe('solved');
+        expect(judgePuzzleMove(session, position, move(position, 'a1a7'))).toBe('wrong');
+    });
+
+    it('counts a wrong first try as failed even once the puzzle is finished', () => {
+        const position = getPuzzleStart(LADDER);
+        let session = startPuzzle(LADDER);
+        expect(judgePuzzleMove(session, position, move(position, 'b1b2'))).toBe('wrong');
+        session = advancePuzzle(session, 'wrong');
+        expect(session).toMatchObject({ ply: 0, isComplete: false, result: 'failed' });
+
+        session = advancePuzzle(playSolutionMove(advancePuzzle(session, 'correct')), 'solved');
+        expect(session).toMatchObject({ isComplete: true, result: 'failed' });
+    });
+
+    it('gives the puzzle up on a hint, unless it was already settled', () => {
+        expect(forfeitPuzzle(startPuzzle(LADDER)).result).toBe('failed');
+        const solved = advancePuzzle(startPuzzle({ ...LADDER, solution: ['c6c7'] }), 'solved');
+        expect(forfeitPuzzle(solved).result).toBe('solved');
+    });
+});
+
+describe('puzzle stats', () => {
+    const puzzle = (id: string, rating = 1500): Puzzle => ({ ...LADDER, id, rating });
+
+    it('moves the rating by how expected the result was', () => {
+        const solved = recordPuzzleResult(INITIAL_PUZZLE_STATS, puzzle('even'), true);
+        expect(solved.rating).toBe(1520);
+        const upset = recordPuzzleResult(INITIAL_PUZZLE_STATS, puzzle('hard', 2300), true);
+        expect(upset.rating).toBeGreaterThan(1535);
+        const failedEasy = recordPuzzleResult(INITIAL_PUZZLE_STATS, puzzle('easy', 700), false);
+        expect(failedEasy.rating).toBeLessThan(1465);
+    });
+
+    it('keeps the current and best streaks', () => {
+        const results: [string, boolean][] = [['p1', true], ['p2', true], ['p3', false], ['p4', true]];
+        const stats = results.reduce((current, [id, solved]) => recordPuzzleResult(current, puzzle(id), solved), INITIAL_PUZZLE_STATS);
+        expect(stats).toMatchObject({ attempts: 4, solved: 3, streak: 1, bestStreak: 2, seenIds: ['p1', 'p2', 'p3', 'p4'] });
+    });
+
+    it('ignores another attempt at a puzzle already seen', () => {
+        const stats = recordPuzzleResult(INITIAL_PUZZLE_STATS, puzzle('p1'), false);
+        expect(recordPuzzleResult(stats, puzzle('p1'), true)).toBe(stats);
+    });
+});
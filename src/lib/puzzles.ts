@@ -0,0 +1,209 @@
+import { Move, Position } from '../types';
+import { applyMove, getGameStatus } from './rules';
+import { moveToUci, uciToMove } from './notation';
+import { FenError, parseFen } from './fen';
+
+// --- Puzzle Sets ---
+
+export interface Puzzle {
+    id: string;
+    fen: string; // position the solver moves in
+    solution: string[]; // UCI moves: the solver's moves alternating with the opponent's forced replies
+    themes: string[];
+    rating: number;
+}
+
+export class PuzzleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PuzzleError';
+    }
+}
+
+// Checks a raw puzzle record, including that every solution move is legal in turn
+const toPuzzle = (raw: Record<string, unknown>, where: string): Puzzle => {
+    const { id, fen, solution, themes = [], rating } = raw;
+    if (typeof fen !== 'string') throw new PuzzleError(`${where}: missing start FEN.`);
+    const moves = typeof solution === 'string' ? solution.split(/\s+/).filter(Boolean) : solution;
+    if (!Array.isArray(moves) || moves.length % 2 === 0 || moves.some(move => typeof move !== 'string')) {
+        throw new PuzzleError(`${where}: the solution must be an odd number of moves, ending with the solver's.`);
+    }
+    const tags = typeof themes === 'string' ? themes.split(/\s+/).filter(Boolean) : themes;
+    if (!Array.isArray(tags)) throw new PuzzleError(`${where}: themes must be a list.`);
+    // Number() would read an empty field or null as 0
+    if (rating === undefined || rating === null || (typeof rating === 'string' && !rating.trim())) {
+        throw new PuzzleError(`${where}: missing rating.`);
+    }
+    if ((typeof rating !== 'number' && typeof rating !== 'string') || !Number.isFinite(Number(rating))) {
+        throw new PuzzleError(`${where}: invalid rating "${String(rating)}".`);
+    }
+
+    let position: Position;
+    try {
+        position = parseFen(fen);
+    } catch (error) {
+        throw new PuzzleError(`${where}: ${error instanceof FenError ? error.message : String(error)}`);
+    }
+    for (const uci of moves as string[]) {
+        const move = uciToMove(position, uci);
+        if (!move) throw new PuzzleError(`${where}: illegal solution move "${uci}".`);
+        position = applyMove(position, move);
+    }
+
+    return {
+        id: id === undefined ? fen : String(id),
+        fen,
+        solution: moves as string[],
+        themes: tags.map(String),
+        rating: Number(rating),
+    };
+};
+
+// A JSON array of { id, fen, solution, themes, rating }; solution and themes may be lists or space-separated
+export const parsePuzzleJson = (text: string): Puzzle[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new PuzzleError("The puzzle file is not valid JSON.");
+    }
+    if (!Array.isArray(data)) throw new PuzzleError("The puzzle file must contain a list of puzzles.");
+    return data.map((raw, index) => toPuzzle(raw ?? {}, `Puzzle ${index + 1}`));
+};
+
+interface CsvRecord {
+    line: number; // where the record starts, for error messages
+    fields: string[];
+}
+
+// Splits CSV text into records as RFC 4180 describes: a field in double quotes may hold commas,
+// line breaks and doubled quotes. Blank lines are skipped; a misplaced or unclosed quote is reported.
+const parseCsvRecords = (text: string): CsvRecord[] => {
+    const records: CsvRecord[] = [];
+    let fields: string[] = [];
+    let field = '';
+    let line = 1;
+    let recordLine = 1;
+    let state: 'unquoted' | 'quoted' | 'closed' = 'unquoted';
+
+    const endField = () => {
+        fields.push(field);
+        field = '';
+        state = 'unquoted';
+    };
+    const endRecord = () => {
+        endField();
+        if (fields.some(value => value.trim())) records.push({ line: recordLine, fields });
+        fields = [];
+        recordLine = line;
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (state === 'quoted') {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                state = 'closed';
+            } else {
+                if (char === '\n') line++;
+                field += char;
+            }
+        } else if (char === ',') {
+            endField();
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            line++;
+            endRecord();
+        } else if (char === '"') {
+            if (state === 'closed' || field.trim()) throw new PuzzleError(`Line ${line}: a quote inside an unquoted field.`);
+            field = '';
+            state = 'quoted';
+        } else if (state === 'closed') {
+            if (char.trim()) throw new PuzzleError(`Line ${line}: text after a closing quote.`);
+        } else {
+            field += char;
+        }
+    }
+    if (state === 'quoted') throw new PuzzleError(`Line ${recordLine}: a quoted field is never closed.`);
+    endRecord();
+    return records;
+};
+
+// Comma-separated with a header row naming the columns id, fen, solution, themes and rating (in any
+// order). Fields may be quoted; a row with the wrong number of fields is reported with its line.
+export const parsePuzzleCsv = (text: string): Puzzle[] => {
+    const [header, ...rows] = parseCsvRecords(text);
+    if (!header) throw new PuzzleError("The puzzle file is empty.");
+    const columns = header.fields.map(name => name.trim().toLowerCase());
+    if (!columns.includes('fen') || !columns.includes('solution')) {
+        throw new PuzzleError('The CSV header must name at least the "fen" and "solution" columns.');
+    }
+    return rows.map(({ line, fields }) => {
+        if (fields.length !== columns.length) {
+            throw new PuzzleError(`Line ${line}: expected ${columns.length} fields but found ${fields.length}.`);
+        }
+        const raw = Object.fromEntries(columns.map((column, i) => [column, fields[i].trim()]));
+        return toPuzzle(raw, `Line ${line}`);
+    });
+};
+
+export const parsePuzzleSet = (fileName: string, text: string): Puzzle[] => {
+    const puzzles = fileName.toLowerCase().endsWith('.csv') ? parsePuzzleCsv(text) : parsePuzzleJson(text);
+    if (puzzles.length === 0) throw new PuzzleError(`${fileName} contains no puzzles.`);
+    return puzzles;
+};
+
+export const fetchPuzzleSet = async (url: string): Promise<Puzzle[]> => {
+    const response = await fetch(url);
+    if (!response.ok) throw new PuzzleError(`Could not load the puzzles (${response.status}).`);
+    return parsePuzzleSet(url, await response.text());
+};
+
+// --- Solving ---
+
+// One attempt at a puzzle. Only the first try counts: a wrong move, a hint or looking at the
+// solution settles the result as failed, even if the puzzle is finished afterwards.
+export interface PuzzleSession {
+    puzzle: Puzzle;
+    ply: number; // solution moves played so far
+    isComplete: boolean;
+    result: 'solved' | 'failed' | null;
+}
+
+export type PuzzleVerdict = 'correct' | 'solved' | 'wrong';
+
+export const startPuzzle = (puzzle: Puzzle): PuzzleSession => ({ puzzle, ply: 0, isComplete: false, result: null });
+
+export const getPuzzleStart = (puzzle: Puzzle): Position => parseFen(puzzle.fen);
+
+// The next solution move in `position`, whoever is to play it
+export const getSolutionMove = (session: PuzzleSession, position: Position): Move | null =>
+    session.isComplete ? null : uciToMove(position, session.puzzle.solution[session.ply]);
+
+// The opponent's replies are played by the trainer, never by the user
+export const isOpponentToMove = (session: PuzzleSession): boolean => !session.isComplete && session.ply % 2 === 1;
+
+// The expected move is right; so is any other move that mates on the spot
+export const judgePuzzleMove = (session: PuzzleSession, position: Position, move: Move): PuzzleVerdict => {
+    const { solution } = session.puzzle;
+    if (moveToUci(move) === solution[session.ply]) return session.ply === solution.length - 1 ? 'solved' : 'correct';
+    return getGameStatus(applyMove(position, move)) === 'checkmate' ? 'solved' : 'wrong';
+};
+
+export const advancePuzzle = (session: PuzzleSession, verdict: PuzzleVerdict): PuzzleSession => {
+    if (verdict === 'wrong') return { ...session, result: session.result ?? 'failed' };
+    if (verdict === 'solved') return { ...session, ply: session.ply + 1, isComplete: true, result: session.result ?? 'solved' };
+    return { ...session, ply: session.ply + 1 };
+};
+
+// Records the next solution move as played: an opponent reply, or a step of the shown solution
+export const playSolutionMove = (session: PuzzleSession): PuzzleSession => ({
+    ...session,
+    ply: session.ply + 1,
+    isComplete: session.ply + 1 >= session.puzzle.solution.length,
+});
+
+// A hint or the shown solution gives the puzzle up
+export const forfeitPuzzle = (session: PuzzleSession): PuzzleSession => ({ ...session, result: session.result ?? 'failed' });
@@ -0,0 +1,15 @@
+// Small seedable PRNG (mulberry32). Used wherever results must be reproducible from a seed,
+// e.g. Zobrist keys and the AI's deliberate mistakes.
+
+export type RandomSource = () => number;
+
+export const createRandom = (seed: number): RandomSource => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
@@ -0,0 +1,177 @@
+import { Color, Move, Variant } from '../types';
+import { oppositeColor } from './rules';
+import { RandomSource } from './random';
+import { TimeControl, checkFlag } from './clock';
+import { moveToUci } from './notation';
+import { positionToFen } from './fen';
+import { createStartPosition } from './variants';
+import { GameEvent, GameLog, GameState, createSeed, gameReducer, replayGame } from './game';
+import { getLivePosition } from './moveTree';
+import { PlayerStore, RatingChange, recordOnlineGame } from './players';
+
+// --- Room Model ---
+
+// The shared copy of an online game. Whatever the transport's server holds is authoritative;
+// clients only ever render the latest RoomState they received from it.
+export interface RoomState {
+    code: string;
+    white: string | null; // player ids
+    black: string | null;
+    // The game's setup, which together make the 'reset' event that starts it
+    variant: Variant;
+    startFen: string;
+    timeControl: TimeControl | null; // null for untimed games
+    seed: number;
+    // Every event the server accepted since, played through the same reducer as local games
+    events: GameLog;
+    version: number; // bumped on every change, used to reject writes based on a stale copy
+}
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'offline';
+
+// A 'timeout' claims the win once the opponent's time has run out on the server's clock
+export type RoomAction = 'resign' | 'offer-draw' | 'accept-draw' | 'decline-draw' | 'timeout';
+
+export interface RoomTransport {
+    createRoom(playerId: string, timeControl: TimeControl | null, variant: Variant): Promise<RoomState>;
+    joinRoom(code: string, playerId: string): Promise<RoomState>;
+    fetchRoom(code: string): Promise<RoomState | null>;
+    // Validates the move against the server's copy and returns the updated room
+    submitMove(code: string, playerId: string, move: Move, expectedVersion: number): Promise<RoomState>;
+    // Resigning, draw offers and timeouts, validated the same way as moves
+    submitAction(code: string, playerId: string, action: RoomAction, expectedVersion: number): Promise<RoomState>;
+    // Calls onUpdate with the server's copy whenever it changes and again after every (re)connect.
+    // onStatus also reports a failed resync (and reports again without the error once one works).
+    // Returns an unsubscribe function.
+    subscribe(code: string, onUpdate: (room: RoomState) => void, onStatus: (status: ConnectionStatus, error?: string) => void): () => void;
+}
+
+export class RoomError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RoomError';
+    }
+}
+
+// --- Room Logic (shared by every transport) ---
+
+// No 0/O or 1/I so codes can be read out loud
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+
+export const normalizeRoomCode = (code: string): string => code.trim().toUpperCase();
+
+export const generateRoomCode = (random: RandomSource = Math.random): string =>
+    Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[Math.floor(random() * CODE_ALPHABET.length)]).join('');
+
+export const createRoomState = (
+    code: string,
+    playerId: string,
+    timeControl: TimeControl | null,
+    variant: Variant,
+    random: RandomSource = Math.random,
+): RoomState => {
+    const creatorColor: Color = random() < 0.5 ? 'w' : 'b';
+    return {
+        code,
+        white: creatorColor === 'w' ? playerId : null,
+        black: creatorColor === 'b' ? playerId : null,
+        variant,
+        startFen: positionToFen(createStartPosition(variant, random)),
+        timeControl,
+        seed: createSeed(random),
+        events: [],
+        version: 0,
+    };
+};
+
+export const getPlayerColor = (room: RoomState, playerId: string): Color | null =>
+    room.white === playerId ? 'w' : room.black === playerId ? 'b' : null;
+
+export const isRoomFull = (room: RoomState): boolean => !!room.white && !!room.black;
+
+// Seats the player in the free color. Rejoining with the same id (e.g. after a reload) keeps the old seat.
+export const joinRoomState = (room: RoomState, playerId: string): RoomState => {
+    if (getPlayerColor(room, playerId)) return room;
+    if (!room.white) return { ...room, white: playerId, version: room.version + 1 };
+    if (!room.black) return { ...room, black: playerId, version: room.version + 1 };
+    throw new RoomError("This room already has two players.");
+};
+
+// The room's whole game as a log, which clients replay to show it
+export const getRoomLog = (room: RoomState): GameLog => [
+    { type: 'reset', fen: room.startFen, variant: room.variant, timeControl: room.timeControl, seed: room.seed },
+    ...room.events,
+];
+
+export const getRoomGame = (room: RoomState): GameState => replayGame(getRoomLog(room));
+
+// Checks shared by moves and actions; returns the acting player's color
+const requireActivePlayer = (room: RoomState, game: GameState, playerId: string, expectedVersion: number): Color => {
+    const color = getPlayerColor(room, playerId);
+    if (!color) throw new RoomError("You are not a player in this room.");
+    if (!isRoomFull(room)) throw new RoomError("Waiting for an opponent to join.");
+    if (room.version !== expectedVersion) throw new RoomError("The game changed on the server. Resyncing...");
+    if (game.result) throw new RoomError("The game is over.");
+    return color;
+};
+
+// Records `event`, or the timeout instead if the running side's time ran out before it arrived.
+// `error` explains an event the game doesn't accept.
+const appendEvent = (room: RoomState, game: GameState, event: GameEvent, error: string): RoomState => {
+    const at = 'at' in event ? event.at : null;
+    const recorded: GameEvent = at !== null && game.clock && checkFlag(game.clock, at).flagged ? { type: 'timeout', at } : event;
+    if (gameReducer(game, recorded) === game) throw new RoomError(error);
+    return { ...room, events: [...room.events, recorded], version: room.version + 1 };
+};
+
+// `now` is the time the server received the move; it drives the room's clock
+export const applyRoomMove = (room: RoomState, playerId: string, move: Move, expectedVersion: number, now: number): RoomState => {
+    const game = getRoomGame(room);
+    const color = requireActivePlayer(room, game, playerId, expectedVersion);
+    if (getLivePosition(game.history).turn !== color) throw new RoomError("It's not your turn.");
+    return appendEvent(room, game, { type: 'move', uci: moveToUci(move), at: now }, "Illegal move.");
+};
+
+export const applyRoomAction = (room: RoomState, playerId: string, action: RoomAction, expectedVersion: number, now: number): RoomState => {
+    const game = getRoomGame(room);
+    const color = requireActivePlayer(room, game, playerId, expectedVersion);
+    const opponent = oppositeColor(color);
+
+    switch (action) {
+        case 'resign':
+            return appendEvent(room, game, { type: 'resign', color, at: now }, "The game is over.");
+        case 'offer-draw':
+            // Offering back while the opponent's offer is open agrees to it
+            if (game.drawOfferedBy === opponent) return appendEvent(room, game, { type: 'answer-draw', accept: true, at: now }, "The game is over.");
+            return appendEvent(room, game, { type: 'offer-draw', color }, "You already offered a draw.");
+        case 'accept-draw':
+        case 'decline-draw':
+            if (game.drawOfferedBy !== opponent) throw new RoomError(`There is no draw offer to ${action === 'accept-draw' ? 'accept' : 'decline'}.`);
+            return appendEvent(room, game, { type: 'answer-draw', accept: action === 'accept-draw', at: now }, "The game is over.");
+        case 'timeout':
+            return appendEvent(room, game, { type: 'timeout', at: now }, "Time hasn't run out yet.");
+    }
+};
+
+// The server rates the game once a write ends it, from the result in the stored room.
+// Resolves to null while the game goes on, and if it can't be rated or already was.
+export const rateRoomGame = async (store: PlayerStore, room: RoomState): Promise<RatingChange[] | null> => {
+    const { result } = getRoomGame(room);
+    if (!result || !room.white || !room.black) return null;
+    return recordOnlineGame(store, `room-${room.code}`, { w: room.white, b: room.black }, result.winner);
+};
+
+// --- Player Identity ---
+
+const PLAYER_ID_KEY = 'supreme-chess-player-id';
+
+// Anonymous id that survives reloads, so a player who reconnects gets their seat back
+export const getPlayerId = (): string => {
+    let id = localStorage.getItem(PLAYER_ID_KEY);
+    if (!id) {
+        id = crypto.randomUUID();
+        localStorage.setItem(PLAYER_ID_KEY, id);
+    }
+    return id;
+};
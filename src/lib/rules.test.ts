@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { Position } from '../types';
+import { INITIAL_POSITION, applyMove, getGameStatus, getLegalMoves, getLegalMovesFrom } from './rules';
+import { moveToUci, nameToSquare, uciToMove } from './notation';
+import { parseFen, positionToFen } from './fen';
+import { createStartPosition } from './variants';
+
+// Counts the leaf nodes of the move tree `depth` plies deep, the standard check of a move generator
+const perft = (position: Position, depth: number): number =>
+    depth === 0 ? 1 : getLegalMoves(position).reduce((count, move) => count + perft(applyMove(position, move), depth - 1), 0);
+
+const legalUcis = (position: Position, from?: string): string[] =>
+    (from ? getLegalMovesFrom(position, nameToSquare(from)!) : getLegalMoves(position)).map(moveToUci).sort();
+
+const play = (position: Position, uci: string): Position => {
+    const move = uciToMove(position, uci);
+    expect(move, `${uci} should be legal`).not.toBeNull();
+    return applyMove(position, move!);
+};
+
+describe('move generation', () => {
+    // Known counts from the Chess Programming Wiki's perft results
+    it.each([
+        ['the start position', INITIAL_POSITION, [20, 400, 8902]],
+        ['Kiwipete', parseFen('r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1'), [48, 2039, 97862]],
+        ['a rook and pawn ending with en passant pins', parseFen('8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1'), [14, 191, 2812]],
+        ['a position full of promotions', parseFen('r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1'), [6, 264, 9467]],
+        ['a position with a promotion that gives check', parseFen('rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8'), [44, 1486]],
+    ])('counts the moves from %s', (_, position, counts) => {
+        counts.forEach((count, index) => expect(perft(position, index + 1)).toBe(count));
+    });
+
+    it("doesn't castle out of, through or into check", () => {
+        const attackedF1 = parseFen('r3k2r/8/8/8/8/8/5r2/R3K2R w KQkq - 0 1');
+        expect(legalUcis(attackedF1, 'e1')).not.toContain('e1g1');
+        expect(legalUcis(attackedF1, 'e1')).toContain('e1c1');
+
+        // The rook may cross an attacked square; only the king's path counts
+        const attackedB1 = parseFen('1r2k2r/8/8/8/8/8/8/R3K2R w KQk - 0 1');
+        expect(legalUcis(attackedB1, 'e1')).toContain('e1c1');
+
+        const inCheck = parseFen('r3k2r/8/8/8/8/8/4r3/R3K2R w KQkq - 0 1');
+        expect(legalUcis(inCheck, 'e1').filter(uci => uci === 'e1g1' || uci === 'e1c1')).toEqual([]);
+    });
+
+    it('moves the rook when castling and forfeits the rights', () => {
+        const castled = play(parseFen('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1'), 'e1g1');
+        expect(positionToFen(castled)).toBe('r3k2r/8/8/8/8/8/8/R4RK1 b kq - 1 1');
+        const rookMoved = play(castled, 'a8b8');
+        expect(positionToFen(rookMoved)).toBe('1r2k2r/8/8/8/8/8/8/R4RK1 w k - 2 2');
+    });
+
+    it('allows en passant only right after the double step, and not out of a pin', () => {
+        const afterDoubleStep = parseFen('4k3/2p5/8/1P6/8/8/8/4K3 b - - 0 1');
+        const open = play(afterDoubleStep, 'c7c5');
+        expect(legalUcis(open, 'b5')).toEqual(['b5b6', 'b5c6']);
+        const closed = play(play(open, 'e1d1'), 'e8d8');
+        expect(legalUcis(closed, 'b5')).toEqual(['b5b6']);
+
+        // Taking would leave the king and rook facing each other along the fifth rank
+        const pinned = parseFen('8/8/8/KPp4r/8/8/8/4k3 w - c6 0 1');
+        expect(legalUcis(pinned, 'b5')).toEqual(['b5b6']);
+
+        const taken = play(open, 'b5c6');
+        expect(positionToFen(taken)).toBe('4k3/8/2P5/8/8/8/8/4K3 b - - 0 2');
+    });
+
+    it('promotes to any piece, also when capturing', () => {
+        const position = parseFen('1n2k3/P7/8/8/8/8/8/4K3 w - - 0 1');
+        expect(legalUcis(position, 'a7')).toEqual(['a7a8b', 'a7a8n', 'a7a8q', 'a7a8r', 'a7b8b', 'a7b8n', 'a7b8q', 'a7b8r']);
+        expect(positionToFen(play(position, 'a7b8n'))).toBe('1N2k3/8/8/8/8/8/8/4K3 b - - 0 1');
+    });
+
+    it('tells checkmate from stalemate', () => {
+        expect(getGameStatus(parseFen('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1'))).toBe('active');
+        expect(getGameStatus(parseFen('R5k1/5ppp/8/8/8/8/8/6K1 b - - 1 1'))).toBe('checkmate');
+        expect(getGameStatus(parseFen('7k/5Q2/8/8/8/8/8/6K1 b - - 0 1'))).toBe('stalemate');
+    });
+});
+
+describe('Chess960 castling', () => {
+    // King on g1 with rooks on b1 and h1
+    const SETUP = '1r4kr/pppppppp/8/8/8/8/PPPPPPPP/1R4KR w BHbh - 0 1';
+
+    it('counts the moves of a Chess960 position', () => {
+        // From the Chess960 perft list
+        const position = parseFen('bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9', 'chess960');
+        [21, 528, 12189].forEach((count, index) => expect(perft(position, index + 1)).toBe(count));
+    });
+
+    it('castles as the king taking its own rook, on either side', () => {
+        const position = parseFen(SETUP, 'chess960');
+        expect(legalUcis(position, 'g1')).toEqual(['g1b1', 'g1f1', 'g1h1']);
+        // Kingside the king stays on g1 and the rook lands next to it
+        expect(positionToFen(play(position, 'g1h1'))).toBe('1r4kr/pppppppp/8/8/8/8/PPPPPPPP/1R3RK1 b hb - 1 1');
+        expect(positionToFen(play(position, 'g1b1'))).toBe('1r4kr/pppppppp/8/8/8/8/PPPPPPPP/2KR3R b hb - 1 1');
+    });
+
+    it("doesn't castle over a piece between the king and rook", () => {
+        const blocked = parseFen('1r4kr/pppppppp/8/8/8/8/PPPPPPPP/1R2B1KR w BHbh - 0 1', 'chess960');
+        expect(legalUcis(blocked, 'g1')).toEqual(['g1f1', 'g1h1']);
+    });
+});
+
+describe('Horde', () => {
+    it('lets pawns on the first rank make a double step, which gives no en passant square', () => {
+        const position = parseFen('4k3/8/8/8/8/8/1P6/P7 w - - 0 1', 'horde');
+        expect(legalUcis(position)).toEqual(['a1a2', 'a1a3', 'b2b3', 'b2b4']);
+        expect(play(position, 'a1a3').enPassant).toBeNull();
+        expect(positionToFen(play(position, 'b2b4')).split(' ')[3]).toBe('b3');
+    });
+
+    it('starts with the pawns on the first rank blocked', () => {
+        expect(perft(createStartPosition('horde'), 1)).toBe(8);
+    });
+});
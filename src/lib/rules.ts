@@ -0,0 +1,346 @@
+import { BoardState, CastlingFiles, CastlingRights, Color, GameStatus, Move, Piece, Position, PromotionPiece, Square } from '../types';
+
+// --- Board Constants ---
+
+export const INITIAL_BOARD: BoardState = [
+    ['bR', 'bN', 'bB', 'bQ', 'bK', 'bB', 'bN', 'bR'],
+    ['bP', 'bP', 'bP', 'bP', 'bP', 'bP', 'bP', 'bP'],
+    [null, null, null, null, null, null, null, null],
+    [null, null, null, null, null, null, null, null],
+    [null, null, null, null, null, null, null, null],
+    [null, null, null, null, null, null, null, null],
+    ['wP', 'wP', 'wP', 'wP', 'wP', 'wP', 'wP', 'wP'],
+    ['wR', 'wN', 'wB', 'wQ', 'wK', 'wB', 'wN', 'wR'],
+];
+
+export const INITIAL_CASTLING: CastlingRights = { wK: true, wQ: true, bK: true, bQ: true };
+
+export const INITIAL_POSITION: Position = {
+    board: INITIAL_BOARD,
+    turn: 'w',
+    castling: INITIAL_CASTLING,
+    enPassant: null,
+    halfmoveClock: 0,
+    fullmoveNumber: 1,
+};
+
+export const EMPTY_BOARD: BoardState = Array.from({ length: 8 }, () => Array<Piece>(8).fill(null));
+
+export const STANDARD_CASTLING_FILES: CastlingFiles = { K: 7, Q: 0 };
+
+// Where the king and rook land: the g- and f-files kingside, the c- and d-files queenside, also in Chess960
+const CASTLING_TARGETS = { K: { king: 6, rook: 5 }, Q: { king: 2, rook: 3 } };
+
+export const PROMOTION_PIECES: PromotionPiece[] = ['Q', 'R', 'B', 'N'];
+
+const KNIGHT_OFFSETS = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+const KING_OFFSETS = [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]];
+const BISHOP_DIRECTIONS = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+const ROOK_DIRECTIONS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+const QUEEN_DIRECTIONS = [...BISHOP_DIRECTIONS, ...ROOK_DIRECTIONS];
+
+// --- Helpers ---
+
+export const getPieceColor = (piece: Piece): Color | null => piece ? piece[0] as Color : null;
+
+export const getPieceType = (piece: Piece): string | null => piece ? piece[1] : null;
+
+export const oppositeColor = (color: Color): Color => color === 'w' ? 'b' : 'w';
+
+export const isSameSquare = (a: Square | null, b: Square | null): boolean =>
+    !!a && !!b && a.row === b.row && a.col === b.col;
+
+export const isSameMove = (a: Move, b: Move): boolean =>
+    isSameSquare(a.from, b.from) && isSameSquare(a.to, b.to) && (a.promotion ?? null) === (b.promotion ?? null);
+
+const inBounds = (row: number, col: number): boolean => row >= 0 && row < 8 && col >= 0 && col < 8;
+
+// Row the pieces of a color start on (rank 1 for White, rank 8 for Black)
+const backRank = (color: Color): number => color === 'w' ? 7 : 0;
+
+// Columns from a to b, both included, in either order
+const columnsBetween = (a: number, b: number): number[] =>
+    Array.from({ length: Math.abs(b - a) + 1 }, (_, i) => Math.min(a, b) + i);
+
+export const findKing = (board: BoardState, color: Color): Square | null => {
+    for (let r = 0; r < 8; r++) {
+        for (let c = 0; c < 8; c++) {
+            if (board[r][c] === `${color}K`) return { row: r, col: c };
+        }
+    }
+    return null;
+};
+
+// --- Attack Detection ---
+
+export const isSquareAttacked = (board: BoardState, square: Square, by: Color): boolean => {
+    const { row, col } = square;
+
+    // Pawns attack diagonally forward, so look one row "behind" the square from the attacker's view
+    const pawnRow = by === 'w' ? row + 1 : row - 1;
+    for (const dc of [-1, 1]) {
+        if (inBounds(pawnRow, col + dc) && board[pawnRow][col + dc] === `${by}P`) return true;
+    }
+
+    for (const [dr, dc] of KNIGHT_OFFSETS) {
+        const r = row + dr, c = col + dc;
+        if (inBounds(r, c) && board[r][c] === `${by}N`) return true;
+    }
+
+    for (const [dr, dc] of KING_OFFSETS) {
+        const r = row + dr, c = col + dc;
+        if (inBounds(r, c) && board[r][c] === `${by}K`) return true;
+    }
+
+    const slidesTo = (directions: number[][], types: string[]): boolean => {
+        for (const [dr, dc] of directions) {
+            let r = row + dr, c = col + dc;
+            while (inBounds(r, c)) {
+                const piece = board[r][c];
+                if (piece) {
+                    if (getPieceColor(piece) === by && types.includes(piece[1])) return true;
+                    break;
+                }
+                r += dr;
+                c += dc;
+            }
+        }
+        return false;
+    };
+
+    return slidesTo(BISHOP_DIRECTIONS, ['B', 'Q']) || slidesTo(ROOK_DIRECTIONS, ['R', 'Q']);
+};
+
+export const isInCheck = (board: BoardState, color: Color): boolean => {
+    const king = findKing(board, color);
+    return !!king && isSquareAttacked(board, king, oppositeColor(color));
+};
+
+// --- Move Generation ---
+
+const addPawnMove = (moves: Move[], move: Move, promotionRow: number) => {
+    if (move.to.row === promotionRow) {
+        PROMOTION_PIECES.forEach(promotion => moves.push({ ...move, promotion }));
+    } else {
+        moves.push(move);
+    }
+};
+
+const generatePawnMoves = (position: Position, from: Square, moves: Move[]) => {
+    const { board } = position;
+    const piece = board[from.row][from.col];
+    const color = getPieceColor(piece)!;
+    const dir = color === 'w' ? -1 : 1;
+    const startRow = color === 'w' ? 6 : 1;
+    const promotionRow = color === 'w' ? 0 : 7;
+
+    const oneStep = from.row + dir;
+    if (inBounds(oneStep, from.col) && !board[oneStep][from.col]) {
+        addPawnMove(moves, { from, to: { row: oneStep, col: from.col }, piece }, promotionRow);
+        const twoStep = from.row + 2 * dir;
+        // Horde pawns may also make a double step from the first rank
+        const canDoubleStep = from.row === startRow || (position.variant === 'horde' && from.row === backRank(color));
+        if (canDoubleStep && !board[twoStep][from.col]) {
+            moves.push({ from, to: { row: twoStep, col: from.col }, piece });
+        }
+    }
+
+    for (const dc of [-1, 1]) {
+        const to = { row: oneStep, col: from.col + dc };
+        if (!inBounds(to.row, to.col)) continue;
+        const target = board[to.row][to.col];
+        if (target && getPieceColor(target) !== color) {
+            addPawnMove(moves, { from, to, piece, captured: target }, promotionRow);
+        } else if (!target && isSameSquare(position.enPassant, to)) {
+            moves.push({ from, to, piece, captured: board[from.row][to.col], enPassant: true });
+        }
+    }
+};
+
+const generateStepMoves = (board: BoardState, from: Square, offsets: number[][], moves: Move[]) => {
+    const piece = board[from.row][from.col];
+    const color = getPieceColor(piece);
+    for (const [dr, dc] of offsets) {
+        const to = { row: from.row + dr, col: from.col + dc };
+        if (!inBounds(to.row, to.col)) continue;
+        const target = board[to.row][to.col];
+        if (getPieceColor(target) === color) continue;
+        moves.push(target ? { from, to, piece, captured: target } : { from, to, piece });
+    }
+};
+
+const generateSlidingMoves = (board: BoardState, from: Square, directions: number[][], moves: Move[]) => {
+    const piece = board[from.row][from.col];
+    const color = getPieceColor(piece);
+    for (const [dr, dc] of directions) {
+        let r = from.row + dr, c = from.col + dc;
+        while (inBounds(r, c)) {
+            const target = board[r][c];
+            if (target) {
+                if (getPieceColor(target) !== color) moves.push({ from, to: { row: r, col: c }, piece, captured: target });
+                break;
+            }
+            moves.push({ from, to: { row: r, col: c }, piece });
+            r += dr;
+            c += dc;
+        }
+    }
+};
+
+const generateCastlingMoves = (position: Position, from: Square, moves: Move[]) => {
+    const { board, castling } = position;
+    const piece = board[from.row][from.col];
+    const color = getPieceColor(piece)!;
+    const row = backRank(color);
+    if (from.row !== row) return;
+
+    const enemy = oppositeColor(color);
+    if (isSquareAttacked(board, from, enemy)) return;
+    const files = position.castlingFiles ?? STANDARD_CASTLING_FILES;
+
+    (['K', 'Q'] as const).forEach(side => {
+        const rookCol = files[side];
+        if (!castling[`${color}${side}`] || board[row][rookCol] !== `${color}R`) return;
+        const { king: kingTo, rook: rookTo } = CASTLING_TARGETS[side];
+
+        // Every square the king or rook crosses must be empty apart from the two of them
+        const crossed = columnsBetween(Math.min(from.col, rookCol, kingTo, rookTo), Math.max(from.col, rookCol, kingTo, rookTo));
+        if (crossed.some(col => col !== from.col && col !== rookCol && board[row][col])) return;
+
+        // The king may not pass through or land on an attacked square. Attacks are judged without the
+        // castling pieces, since in Chess960 either may shield a square the king moves to.
+        const cleared = board.map(rank => [...rank]);
+        cleared[row][from.col] = null;
+        cleared[row][rookCol] = null;
+        if (columnsBetween(from.col, kingTo).some(col => isSquareAttacked(cleared, { row, col }, enemy))) return;
+
+        // Chess960 castling is entered as the king taking its own rook, as the king may not move at all
+        const to = position.variant === 'chess960' ? { row, col: rookCol } : { row, col: kingTo };
+        moves.push({ from, to, piece, castle: side });
+    });
+};
+
+// Moves that follow each piece's movement pattern, without checking whether they expose the own king
+const generatePseudoLegalMovesFrom = (position: Position, from: Square): Move[] => {
+    const { board } = position;
+    const moves: Move[] = [];
+    switch (getPieceType(board[from.row][from.col])) {
+        case 'P': generatePawnMoves(position, from, moves); break;
+        case 'N': generateStepMoves(board, from, KNIGHT_OFFSETS, moves); break;
+        case 'B': generateSlidingMoves(board, from, BISHOP_DIRECTIONS, moves); break;
+        case 'R': generateSlidingMoves(board, from, ROOK_DIRECTIONS, moves); break;
+        case 'Q': generateSlidingMoves(board, from, QUEEN_DIRECTIONS, moves); break;
+        case 'K':
+            generateStepMoves(board, from, KING_OFFSETS, moves);
+            generateCastlingMoves(position, from, moves);
+            break;
+    }
+    return moves;
+};
+
+// All pseudo-legal moves for the side to move. The engine filters these lazily as it searches,
+// which is much cheaper than validating every move up front.
+export const getPseudoLegalMoves = (position: Position): Move[] => {
+    const moves: Move[] = [];
+    for (let r = 0; r < 8; r++) {
+        for (let c = 0; c < 8; c++) {
+            if (getPieceColor(position.board[r][c]) === position.turn) {
+                moves.push(...generatePseudoLegalMovesFrom(position, { row: r, col: c }));
+            }
+        }
+    }
+    return moves;
+};
+
+export const getLegalMovesFrom = (position: Position, from: Square): Move[] => {
+    const piece = position.board[from.row][from.col];
+    if (getPieceColor(piece) !== position.turn) return [];
+    return generatePseudoLegalMovesFrom(position, from)
+        .filter(move => !isInCheck(applyMove(position, move).board, position.turn));
+};
+
+export const getLegalMoves = (position: Position): Move[] => {
+    const moves: Move[] = [];
+    for (let r = 0; r < 8; r++) {
+        for (let c = 0; c < 8; c++) {
+            if (getPieceColor(position.board[r][c]) === position.turn) {
+                moves.push(...getLegalMovesFrom(position, { row: r, col: c }));
+            }
+        }
+    }
+    return moves;
+};
+
+// --- Applying Moves ---
+
+const updateCastlingRights = (castling: CastlingRights, move: Move, files: CastlingFiles): CastlingRights => {
+    const next = { ...castling };
+    const color = getPieceColor(move.piece)!;
+    if (getPieceType(move.piece) === 'K') {
+        next[`${color}K`] = false;
+        next[`${color}Q`] = false;
+    }
+    const touch = (square: Square) => {
+        if (square.row === 7 && square.col === files.K) next.wK = false;
+        if (square.row === 7 && square.col === files.Q) next.wQ = false;
+        if (square.row === 0 && square.col === files.K) next.bK = false;
+        if (square.row === 0 && square.col === files.Q) next.bQ = false;
+    };
+    // Moving the king, moving a rook from its home square or capturing on a rook home square forfeits the right
+    touch(move.from);
+    touch(move.to);
+    return next;
+};
+
+// Returns the position after the move; does not check legality
+export const applyMove = (position: Position, move: Move): Position => {
+    const board = position.board.map(row => [...row]);
+    const { from, to } = move;
+    const piece = board[from.row][from.col];
+    const color = getPieceColor(piece)!;
+    const files = position.castlingFiles ?? STANDARD_CASTLING_FILES;
+
+    board[from.row][from.col] = null;
+    if (move.enPassant) board[from.row][to.col] = null;
+    if (move.castle) {
+        // In Chess960 the king and rook may land on each other's squares, so both are lifted first
+        const { king: kingTo, rook: rookTo } = CASTLING_TARGETS[move.castle];
+        board[from.row][files[move.castle]] = null;
+        board[from.row][rookTo] = `${color}R`;
+        board[from.row][kingTo] = piece;
+    } else {
+        board[to.row][to.col] = move.promotion ? `${color}${move.promotion}` as Piece : piece;
+    }
+
+    const isPawnMove = getPieceType(piece) === 'P';
+    // A Horde pawn's double step from the first rank can't be taken en passant
+    const isDoublePush = isPawnMove && Math.abs(to.row - from.row) === 2 && from.row !== backRank(color);
+
+    const next: Position = {
+        ...position,
+        board,
+        turn: oppositeColor(position.turn),
+        castling: updateCastlingRights(position.castling, move, files),
+        enPassant: isDoublePush ? { row: (from.row + to.row) / 2, col: from.col } : null,
+        halfmoveClock: isPawnMove || move.captured ? 0 : position.halfmoveClock + 1,
+        fullmoveNumber: position.turn === 'b' ? position.fullmoveNumber + 1 : position.fullmoveNumber,
+    };
+    if (position.checks && isInCheck(board, next.turn)) {
+        next.checks = { ...position.checks, [color]: position.checks[color] + 1 };
+    }
+    return next;
+};
+
+export const replayMoves = (moves: Move[], start: Position = INITIAL_POSITION): Position => {
+    let position = start;
+    for (const move of moves) position = applyMove(position, move);
+    return position;
+};
+
+// --- Game Status ---
+
+export const getGameStatus = (position: Position): GameStatus => {
+    const inCheck = isInCheck(position.board, position.turn);
+    if (getLegalMoves(position).length === 0) return inCheck ? 'checkmate' : 'stalemate';
+    return inCheck ? 'check' : 'active';
+};
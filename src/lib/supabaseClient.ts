@@ -8,5 +8,5 @@ const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || "YOUR_ANON_KEY
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
-// For multiplayer functionality, we would typically use supabase.from('games').on('...') for real-time updates.
-// Since this is a complex engine implementation, the real-time listening setup is omitted but the client is initialized.
+// Without real credentials online rooms fall back to the in-memory transport (see localRoomTransport.ts)
+export const isSupabaseConfigured = !!import.meta.env.VITE_SUPABASE_URL && !!import.meta.env.VITE_SUPABASE_ANON_KEY;
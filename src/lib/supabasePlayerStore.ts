@@ -0,0 +1,234 @@
+import { SupabaseClient, User } from '@supabase/supabase-js';
+import { AuthService, AuthUser, PlayerError, PlayerProfile, PlayerStore, RatingChange, RatingPool } from './players';
+import { GlickoRating } from './glicko';
+
+// Accounts are Supabase Auth users (anonymous sign-in must be enabled for guests). Profiles and
+// ratings live in three tables:
+//
+//   create table player_profiles (
+//       id uuid primary key references auth.users,
+//       display_name text not null,
+//       is_guest boolean not null default true,
+//       online_rating double precision not null,
+//       online_deviation double precision not null,
+//       online_volatility double precision not null,
+//       online_games integer not null default 0,
+//       ai_rating double precision not null,
+//       ai_deviation double precision not null,
+//       ai_volatility double precision not null,
+//       ai_games integer not null default 0,
+//       created_at timestamptz not null default now()
+//   );
+//
+//   create table rating_history (
+//       id bigint generated always as identity primary key,
+//       player_id uuid not null references player_profiles,
+//       pool text not null,
+//       game_id text not null,
+//       opponent text not null,
+//       score real not null,
+//       before jsonb not null,
+//       after jsonb not null,
+//       recorded_at timestamptz not null default now()
+//   );
+//
+//   create table rated_games (
+//       game_id text primary key,
+//       rated_at timestamptz not null default now()
+//   );
+//
+// The rating columns are flat so the leaderboard can order by them. A game is claimed by inserting
+// its id into rated_games; the primary key makes the second claim fail.
+//
+// Players may only write their own rows. Online games are rated by the `rooms` edge function with
+// the service role, so clients can't claim them or add online rating changes:
+//
+//   alter table player_profiles enable row level security;
+//   create policy "Profiles are public" on player_profiles for select using (true);
+//   create policy "Players create their profile" on player_profiles for insert with check (auth.uid() = id);
+//   create policy "Players update their profile" on player_profiles for update using (auth.uid() = id);
+//
+//   alter table rating_history enable row level security;
+//   create policy "History is public" on rating_history for select using (true);
+//   create policy "Players record their AI games" on rating_history for insert
+//       with check (auth.uid() = player_id and pool = 'ai');
+//
+//   alter table rated_games enable row level security;
+//   create policy "Players claim AI games" on rated_games for insert with check (game_id not like 'room-%');
+
+const PROFILES_TABLE = 'player_profiles';
+const HISTORY_TABLE = 'rating_history';
+const RATED_GAMES_TABLE = 'rated_games';
+
+interface ProfileRow {
+    id: string;
+    display_name: string;
+    is_guest: boolean;
+    online_rating: number;
+    online_deviation: number;
+    online_volatility: number;
+    online_games: number;
+    ai_rating: number;
+    ai_deviation: number;
+    ai_volatility: number;
+    ai_games: number;
+    created_at: string;
+}
+
+interface HistoryRow {
+    player_id: string;
+    pool: RatingPool;
+    game_id: string;
+    opponent: string;
+    score: number;
+    before: GlickoRating;
+    after: GlickoRating;
+    recorded_at: string;
+}
+
+const fromProfileRow = (row: ProfileRow): PlayerProfile => ({
+    id: row.id,
+    displayName: row.display_name,
+    isGuest: row.is_guest,
+    ratings: {
+        online: { rating: row.online_rating, deviation: row.online_deviation, volatility: row.online_volatility },
+        ai: { rating: row.ai_rating, deviation: row.ai_deviation, volatility: row.ai_volatility },
+    },
+    games: { online: row.online_games, ai: row.ai_games },
+    createdAt: row.created_at,
+});
+
+const toProfileRow = (profile: PlayerProfile): ProfileRow => ({
+    id: profile.id,
+    display_name: profile.displayName,
+    is_guest: profile.isGuest,
+    online_rating: profile.ratings.online.rating,
+    online_deviation: profile.ratings.online.deviation,
+    online_volatility: profile.ratings.online.volatility,
+    online_games: profile.games.online,
+    ai_rating: profile.ratings.ai.rating,
+    ai_deviation: profile.ratings.ai.deviation,
+    ai_volatility: profile.ratings.ai.volatility,
+    ai_games: profile.games.ai,
+    created_at: profile.createdAt,
+});
+
+const fromHistoryRow = (row: HistoryRow): RatingChange => ({
+    playerId: row.player_id,
+    pool: row.pool,
+    gameId: row.game_id,
+    opponent: row.opponent,
+    score: row.score,
+    before: row.before,
+    after: row.after,
+    recordedAt: row.recorded_at,
+});
+
+const toHistoryRow = (change: RatingChange): HistoryRow => ({
+    player_id: change.playerId,
+    pool: change.pool,
+    game_id: change.gameId,
+    opponent: change.opponent,
+    score: change.score,
+    before: change.before,
+    after: change.after,
+    recorded_at: change.recordedAt,
+});
+
+const toAuthUser = (user: User): AuthUser => ({
+    id: user.id,
+    email: user.email || null,
+    isGuest: user.is_anonymous ?? false,
+});
+
+export const createSupabaseAuth = (supabase: SupabaseClient): AuthService => ({
+    async getUser() {
+        const { data, error } = await supabase.auth.getSession();
+        if (error) throw new PlayerError(`Could not check the session: ${error.message}`);
+        return data.session ? toAuthUser(data.session.user) : null;
+    },
+
+    async signInAsGuest() {
+        const { data, error } = await supabase.auth.signInAnonymously();
+        if (error || !data.user) throw new PlayerError(`Could not sign in as a guest: ${error?.message ?? 'no user returned'}`);
+        return toAuthUser(data.user);
+    },
+
+    async signInWithEmail(email, password) {
+        const { data, error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+        if (error) throw new PlayerError(error.message);
+        return toAuthUser(data.user);
+    },
+
+    async signUpWithEmail(email, password) {
+        // A guest's account is linked to the email instead, keeping its id and with it the profile
+        const { data: current } = await supabase.auth.getSession();
+        if (current.session?.user.is_anonymous) {
+            const { error } = await supabase.auth.updateUser({ email: email.trim(), password });
+            if (error) throw new PlayerError(error.message);
+            return null;
+        }
+
+        const { data, error } = await supabase.auth.signUp({ email: email.trim(), password });
+        if (error) throw new PlayerError(error.message);
+        // Without a session the account waits for the link in the confirmation email
+        return data.session && data.user ? toAuthUser(data.user) : null;
+    },
+
+    async signOut() {
+        const { error } = await supabase.auth.signOut();
+        if (error) throw new PlayerError(`Could not sign out: ${error.message}`);
+    },
+
+    onChange(listener) {
+        const { data } = supabase.auth.onAuthStateChange((_event, session) => listener(session ? toAuthUser(session.user) : null));
+        return () => data.subscription.unsubscribe();
+    },
+});
+
+export const createSupabasePlayerStore = (supabase: SupabaseClient): PlayerStore => ({
+    async getProfile(id) {
+        const { data, error } = await supabase.from(PROFILES_TABLE).select('*').eq('id', id).maybeSingle();
+        if (error) throw new PlayerError(`Could not load the profile: ${error.message}`);
+        return data ? fromProfileRow(data as ProfileRow) : null;
+    },
+
+    async saveProfile(profile) {
+        const { error } = await supabase.from(PROFILES_TABLE).upsert(toProfileRow(profile));
+        if (error) throw new PlayerError(`Could not save the profile: ${error.message}`);
+    },
+
+    async getLeaderboard(pool, limit) {
+        const { data, error } = await supabase
+            .from(PROFILES_TABLE)
+            .select('*')
+            .gt(`${pool}_games`, 0)
+            .order(`${pool}_rating`, { ascending: false })
+            .limit(limit);
+        if (error) throw new PlayerError(`Could not load the leaderboard: ${error.message}`);
+        return (data as ProfileRow[]).map(fromProfileRow);
+    },
+
+    async getRatingHistory(playerId, limit) {
+        const { data, error } = await supabase
+            .from(HISTORY_TABLE)
+            .select('*')
+            .eq('player_id', playerId)
+            .order('id', { ascending: false })
+            .limit(limit);
+        if (error) throw new PlayerError(`Could not load the rating history: ${error.message}`);
+        return (data as HistoryRow[]).map(fromHistoryRow);
+    },
+
+    async claimGame(gameId) {
+        const { error } = await supabase.from(RATED_GAMES_TABLE).insert({ game_id: gameId });
+        if (!error) return true;
+        if (error.code === '23505') return false; // unique violation: already rated
+        throw new PlayerError(`Could not rate the game: ${error.message}`);
+    },
+
+    async addRatingChanges(changes) {
+        const { error } = await supabase.from(HISTORY_TABLE).insert(changes.map(toHistoryRow));
+        if (error) throw new PlayerError(`Could not save the rating history: ${error.message}`);
+    },
+});
@@ -0,0 +1,230 @@
+import { FunctionsHttpError, RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import { Move, Variant } from '../types';
+import { TimeControl } from './clock';
+import { GameLog } from './game';
+import {
+    ConnectionStatus, RoomAction, RoomError, RoomState, RoomTransport, applyRoomAction, applyRoomMove, createRoomState, generateRoomCode,
+    joinRoomState, normalizeRoomCode,
+} from './rooms';
+
+// Rooms are rows in a `chess_rooms` table, which is the source of truth:
+//
+//   create table chess_rooms (
+//       code text primary key,
+//       white_player text,
+//       black_player text,
+//       variant text not null,
+//       start_fen text not null,
+//       time_control jsonb,
+//       seed bigint not null,
+//       events jsonb not null default '[]',
+//       version integer not null default 0,
+//       updated_at timestamptz not null default now()
+//   );
+//   alter table chess_rooms enable row level security;
+//   create policy "Rooms are public" on chess_rooms for select using (true);
+//
+// Clients can only read rooms. Every write goes through the `rooms` edge function
+// (supabase/functions/rooms), which seats the caller by their auth user, validates the request
+// against the stored room with the shared room logic and stamps it with the server's time.
+// Its writes are conditional on the version it read, so two requests can never both append an
+// event to the same copy. After a successful write the client pings the room's realtime channel;
+// receivers re-read the row rather than trusting the ping's payload.
+
+const TABLE = 'chess_rooms';
+const UPDATE_EVENT = 'room-updated';
+
+interface RoomRow {
+    code: string;
+    white_player: string | null;
+    black_player: string | null;
+    variant: Variant;
+    start_fen: string;
+    time_control: TimeControl | null;
+    seed: number;
+    events: GameLog;
+    version: number;
+}
+
+const fromRow = (row: RoomRow): RoomState => ({
+    code: row.code,
+    white: row.white_player,
+    black: row.black_player,
+    variant: row.variant,
+    startFen: row.start_fen,
+    timeControl: row.time_control ?? null,
+    seed: row.seed,
+    events: row.events ?? [],
+    version: row.version,
+});
+
+const toRow = (room: RoomState): RoomRow => ({
+    code: room.code,
+    white_player: room.white,
+    black_player: room.black,
+    variant: room.variant,
+    start_fen: room.startFen,
+    time_control: room.timeControl,
+    seed: room.seed,
+    events: room.events,
+    version: room.version,
+});
+
+// --- Server Side (run by the edge function) ---
+
+export type RoomRequest =
+    | { type: 'create'; timeControl: TimeControl | null; variant: Variant }
+    | { type: 'join'; code: string }
+    | { type: 'move'; code: string; move: Move; expectedVersion: number }
+    | { type: 'action'; code: string; action: RoomAction; expectedVersion: number };
+
+// Applies a request from `playerId` (the authenticated caller) using the service role client.
+// `now` is the server's time, which is all the room clocks ever see.
+export const handleRoomRequest = async (supabase: SupabaseClient, playerId: string, request: RoomRequest, now: number): Promise<RoomState> => {
+    const requireRoom = async (code: string): Promise<RoomState> => {
+        const { data, error } = await supabase.from(TABLE).select('*').eq('code', normalizeRoomCode(code)).maybeSingle();
+        if (error) throw new RoomError(`Could not load room: ${error.message}`);
+        if (!data) throw new RoomError(`No room found with code ${normalizeRoomCode(code)}.`);
+        return fromRow(data as RoomRow);
+    };
+
+    // Compare-and-swap on the version column; fails if someone else wrote first
+    const writeRoom = async (room: RoomState, expectedVersion: number): Promise<RoomState> => {
+        const { data, error } = await supabase
+            .from(TABLE)
+            .update({ ...toRow(room), updated_at: new Date(now).toISOString() })
+            .eq('code', room.code)
+            .eq('version', expectedVersion)
+            .select()
+            .maybeSingle();
+        if (error) throw new RoomError(`Could not update room: ${error.message}`);
+        if (!data) throw new RoomError("The game changed on the server. Resyncing...");
+        return fromRow(data as RoomRow);
+    };
+
+    switch (request.type) {
+        case 'create':
+            // Retry on the rare code collision (unique violation)
+            for (let attempt = 0; attempt < 5; attempt++) {
+                const room = createRoomState(generateRoomCode(), playerId, request.timeControl, request.variant);
+                const { error } = await supabase.from(TABLE).insert(toRow(room));
+                if (!error) return room;
+                if (error.code !== '23505') throw new RoomError(`Could not create room: ${error.message}`);
+            }
+            throw new RoomError("Could not create room. Please try again.");
+
+        case 'join': {
+            const room = await requireRoom(request.code);
+            const joined = joinRoomState(room, playerId);
+            return joined === room ? room : writeRoom(joined, room.version);
+        }
+
+        case 'move': {
+            const room = await requireRoom(request.code);
+            return writeRoom(applyRoomMove(room, playerId, request.move, request.expectedVersion, now), room.version);
+        }
+
+        case 'action': {
+            const room = await requireRoom(request.code);
+            return writeRoom(applyRoomAction(room, playerId, request.action, request.expectedVersion, now), room.version);
+        }
+    }
+};
+
+// --- Client Side ---
+
+const FUNCTION_NAME = 'rooms';
+
+// The player ids passed in are only used by the caller to find its seat; the edge function seats
+// the signed-in user, so online play needs a session (a guest one will do).
+export const createSupabaseRoomTransport = (supabase: SupabaseClient): RoomTransport => {
+    const channels = new Map<string, RealtimeChannel>();
+
+    const fetchRoom = async (code: string): Promise<RoomState | null> => {
+        const { data, error } = await supabase.from(TABLE).select('*').eq('code', normalizeRoomCode(code)).maybeSingle();
+        if (error) throw new RoomError(`Could not load room: ${error.message}`);
+        return data ? fromRow(data as RoomRow) : null;
+    };
+
+    const sendRequest = async (request: RoomRequest): Promise<RoomState> => {
+        const { data, error } = await supabase.functions.invoke<{ room: RoomState }>(FUNCTION_NAME, { body: request });
+        if (error) {
+            // Rejected requests come back as an error status with the reason in the body
+            const reason = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+            throw new RoomError(reason?.error ?? `Could not reach the game server: ${error.message}`);
+        }
+
+        const room = data!.room;
+        channels.get(room.code)?.send({ type: 'broadcast', event: UPDATE_EVENT, payload: { version: room.version } });
+        return room;
+    };
+
+    return {
+        async createRoom(_playerId, timeControl, variant) {
+            return sendRequest({ type: 'create', timeControl, variant });
+        },
+
+        async joinRoom(code) {
+            return sendRequest({ type: 'join', code });
+        },
+
+        fetchRoom,
+
+        async submitMove(code, _playerId, move, expectedVersion) {
+            return sendRequest({ type: 'move', code, move, expectedVersion });
+        },
+
+        async submitAction(code, _playerId, action, expectedVersion) {
+            return sendRequest({ type: 'action', code, action, expectedVersion });
+        },
+
+        subscribe(code, onUpdate, onStatus) {
+            const key = normalizeRoomCode(code);
+            let connection: ConnectionStatus = 'connecting';
+            let resyncError: string | null = null;
+            const report = (next: ConnectionStatus) => {
+                connection = next;
+                resyncError = null;
+                onStatus(next);
+            };
+
+            const resync = () => {
+                fetchRoom(key)
+                    .then(room => {
+                        if (room) onUpdate(room);
+                        if (resyncError) report(connection);
+                    })
+                    .catch((error: Error) => {
+                        resyncError = `Could not resync the room: ${error.message}`;
+                        onStatus(connection, resyncError);
+                    });
+            };
+
+            report('connecting');
+            const channel = supabase
+                .channel(`room:${key}`, { config: { broadcast: { self: false } } })
+                .on('broadcast', { event: UPDATE_EVENT }, resync)
+                .subscribe(status => {
+                    if (status === 'SUBSCRIBED') {
+                        // Also fires after the client reconnects, so anything missed meanwhile is picked up here
+                        report('connected');
+                        resync();
+                    } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+                        report('reconnecting');
+                    } else if (status === 'CLOSED') {
+                        report('offline');
+                    }
+                });
+            channels.set(key, channel);
+
+            // Browsers report network recovery before the socket notices
+            window.addEventListener('online', resync);
+
+            return () => {
+                window.removeEventListener('online', resync);
+                channels.delete(key);
+                supabase.removeChannel(channel);
+            };
+        },
+    };
+};
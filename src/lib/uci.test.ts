@@ -0,0 +1,177 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    UciEngine, UciError, UciInfo, createUciEngine, parseBestMoveLine, parseInfoLine, parseOptionLine, requestUciMove, supportsVariant,
+    uciScoreToCentipawns,
+} from './uci';
+import { GREEDY_SCRIPT, MockUciChannel, createMockUciChannel } from './mockUciChannel';
+import { INITIAL_POSITION, applyMove, getLegalMoves, isSameMove } from './rules';
+import { moveToUci, uciToMove } from './notation';
+import { createChess960Position } from './variants';
+import { MATE_SCORE } from './engine';
+import { Move, Position } from '../types';
+
+const THINK_MS = 40;
+
+// The moves given as UCI, played from the start position
+const playMoves = (ucis: string[], start: Position = INITIAL_POSITION): Move[] => {
+    const moves: Move[] = [];
+    let position = start;
+    for (const uci of ucis) {
+        const move = uciToMove(position, uci)!;
+        moves.push(move);
+        position = applyMove(position, move);
+    }
+    return moves;
+};
+
+// Resolves to 'pending' if `promise` hasn't settled once the engine would have answered
+const settledWithin = <T>(promise: Promise<T>, ms: number): Promise<T | 'pending'> =>
+    Promise.race([promise, new Promise<'pending'>(resolve => setTimeout(() => resolve('pending'), ms))]);
+
+let channel: MockUciChannel;
+let engine: UciEngine;
+
+const startEngine = async (script = GREEDY_SCRIPT) => {
+    channel = createMockUciChannel(script, THINK_MS);
+    engine = createUciEngine(channel);
+    return engine.init();
+};
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('UCI output parsing', () => {
+    it('reads option lines whose names and values contain spaces', () => {
+        expect(parseOptionLine('option name Skill Level type spin default 20 min 0 max 20')).toEqual({
+            name: 'Skill Level', type: 'spin', default: '20', min: 0, max: 20, vars: [],
+        });
+        expect(parseOptionLine('option name Style type combo default Solid Play var Solid Play var Risky')).toEqual({
+            name: 'Style', type: 'combo', default: 'Solid Play', min: null, max: null, vars: ['Solid Play', 'Risky'],
+        });
+        expect(parseOptionLine('option name Clear Hash type button')).toMatchObject({ name: 'Clear Hash', type: 'button', default: null });
+        expect(parseOptionLine('option type spin')).toBeNull();
+        expect(parseOptionLine('id name Stockfish')).toBeNull();
+    });
+
+    it('reads info lines', () => {
+        expect(parseInfoLine('info depth 12 seldepth 18 multipv 1 score cp 31 nodes 52311 nps 1046220 hashfull 3 time 50 pv e2e4 e7e5')).toEqual({
+            depth: 12, selDepth: 18, multiPv: 1, score: { unit: 'cp', value: 31, bound: null },
+            nodes: 52311, nps: 1046220, timeMs: 50, pv: ['e2e4', 'e7e5'],
+        });
+        expect(parseInfoLine('info depth 20 score mate -3 upperbound pv f7f6')?.score).toEqual({ unit: 'mate', value: -3, bound: 'upper' });
+        expect(parseInfoLine('info string NNUE evaluation enabled depth 5')?.depth).toBeNull();
+        expect(parseInfoLine('bestmove e2e4')).toBeNull();
+    });
+
+    it('reads best moves, including having none', () => {
+        expect(parseBestMoveLine('bestmove e2e4 ponder e7e5')).toEqual({ bestMove: 'e2e4', ponder: 'e7e5' });
+        expect(parseBestMoveLine('bestmove (none)')).toEqual({ bestMove: null, ponder: null });
+        expect(parseBestMoveLine('info depth 1')).toBeNull();
+    });
+
+    it("turns scores into centipawns from White's point of view", () => {
+        const afterE4 = applyMove(INITIAL_POSITION, playMoves(['e2e4'])[0]);
+        expect(uciScoreToCentipawns({ unit: 'cp', value: 31, bound: null }, INITIAL_POSITION)).toBe(31);
+        expect(uciScoreToCentipawns({ unit: 'cp', value: 31, bound: null }, afterE4)).toBe(-31);
+        // Mates are counted in plies, nearer ones scoring higher
+        expect(uciScoreToCentipawns({ unit: 'mate', value: 1, bound: null }, INITIAL_POSITION)).toBe(MATE_SCORE - 1);
+        expect(uciScoreToCentipawns({ unit: 'mate', value: 2, bound: null }, INITIAL_POSITION)).toBe(MATE_SCORE - 3);
+        expect(uciScoreToCentipawns({ unit: 'mate', value: -1, bound: null }, INITIAL_POSITION)).toBe(-(MATE_SCORE - 2));
+        expect(uciScoreToCentipawns({ unit: 'mate', value: 1, bound: null }, afterE4)).toBe(-(MATE_SCORE - 1));
+    });
+});
+
+describe('UCI engine', () => {
+    it('runs the handshake and lists the options', async () => {
+        const info = await startEngine();
+        expect(info.name).toBe('Mock Engine');
+        expect(info.author).toBe('Supreme Chess');
+        expect(info.options.map(option => option.name)).toEqual(['Skill Level', 'Threads', 'UCI_Chess960']);
+        expect(channel.received).toEqual(['uci', 'isready']);
+    });
+
+    it('clamps spin options and rejects options the engine lacks', async () => {
+        await startEngine();
+        await engine.applySettings({ skillLevel: 25, threads: 2, moveTimeMs: 100 });
+        expect(channel.received).toContain('setoption name Skill Level value 20');
+        expect(channel.received).toContain('setoption name Threads value 2');
+        await expect(engine.setOption('Hash', 64)).rejects.toThrow(new UciError('The engine has no "Hash" option.'));
+    });
+
+    it('searches the position reached by the moves and plays a legal move', async () => {
+        await startEngine();
+        const moves = playMoves(['e2e4', 'e7e5']);
+        const infos: UciInfo[] = [];
+        const result = await engine.search(INITIAL_POSITION, moves, { moveTimeMs: THINK_MS }, info => infos.push(info)).promise;
+
+        expect(channel.received).toContain('position fen rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1 moves e2e4 e7e5');
+        expect(channel.received).toContain(`go movetime ${THINK_MS}`);
+        const position = moves.reduce(applyMove, INITIAL_POSITION);
+        expect(getLegalMoves(position).map(moveToUci)).toContain(result!.bestMove);
+        expect(infos.length).toBeGreaterThan(0);
+        expect(result!.info).toBe(infos[infos.length - 1]);
+    });
+
+    it('answers the AI turn with a legal move', async () => {
+        await startEngine();
+        const moves = playMoves(['d2d4']);
+        const move = await requestUciMove(engine, INITIAL_POSITION, moves, { moveTimeMs: THINK_MS }).promise;
+        const position = applyMove(INITIAL_POSITION, moves[0]);
+        expect(getLegalMoves(position).some(legal => isSameMove(legal, move!))).toBe(true);
+    });
+
+    it('sends "stop" when a search is cancelled and keeps the engine usable', async () => {
+        await startEngine();
+        const task = engine.search(INITIAL_POSITION, [], { moveTimeMs: 10_000 });
+        await new Promise(resolve => setTimeout(resolve, 5));
+        task.cancel();
+        expect(channel.received[channel.received.length - 1]).toBe('stop');
+        expect(await task.promise).toBeNull();
+
+        const next = await engine.search(INITIAL_POSITION, [], { moveTimeMs: THINK_MS }).promise;
+        expect(next!.bestMove).not.toBeNull();
+    });
+
+    it('never settles a cancelled move request', async () => {
+        await startEngine();
+        const request = requestUciMove(engine, INITIAL_POSITION, [], { moveTimeMs: THINK_MS });
+        request.cancel();
+        expect(await settledWithin(request.promise, THINK_MS * 3)).toBe('pending');
+        expect(channel.received).not.toContain(`go movetime ${THINK_MS}`);
+    });
+
+    it('turns Chess960 on only for Chess960 games', async () => {
+        const info = await startEngine();
+        const start = createChess960Position(0);
+        await engine.search(start, [], { moveTimeMs: THINK_MS }).promise;
+        expect(channel.received).toContain('setoption name UCI_Chess960 value true');
+        await engine.search(INITIAL_POSITION, [], { moveTimeMs: THINK_MS }).promise;
+        expect(channel.received[channel.received.length - 3]).toBe('setoption name UCI_Chess960 value false');
+
+        expect(supportsVariant(info, 'chess960')).toBe(true);
+        expect(supportsVariant({ ...info, options: info.options.filter(option => option.name !== 'UCI_Chess960') }, 'chess960')).toBe(false);
+        expect(supportsVariant(info, 'horde')).toBe(false);
+    });
+
+    it('gives up on an engine that stops responding', async () => {
+        vi.useFakeTimers();
+        const started = startEngine({ ...GREEDY_SCRIPT, search: () => [] });
+        await vi.advanceTimersByTimeAsync(100);
+        await started;
+
+        const search = engine.search(INITIAL_POSITION, [], { moveTimeMs: 1000 }).promise;
+        const failed = expect(search).rejects.toThrow(new UciError("The engine stopped responding."));
+        await vi.advanceTimersByTimeAsync(11_000);
+        await failed;
+    });
+
+    it('fails the running search and every later request once the engine crashes', async () => {
+        await startEngine();
+        const search = engine.search(INITIAL_POSITION, [], { moveTimeMs: 10_000 }).promise;
+        await new Promise(resolve => setTimeout(resolve, 5));
+        channel.fail('out of memory');
+        await expect(search).rejects.toThrow(new UciError("The engine failed: out of memory"));
+        await expect(engine.newGame()).rejects.toThrow("The engine failed: out of memory");
+    });
+});
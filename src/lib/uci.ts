@@ -0,0 +1,386 @@
+import { Move, Position, Variant } from '../types';
+import { applyMove, replayMoves } from './rules';
+import { moveToSan, moveToUci, uciToMove } from './notation';
+import { positionToFen } from './fen';
+import { MATE_SCORE } from './engine';
+import type { EngineTask } from './aiClient';
+
+// --- Channel ---
+
+// A text connection to a UCI engine: commands go in, the lines it prints come out. The engine
+// itself may run in a worker (workerUciChannel.ts) or be scripted (mockUciChannel.ts).
+export interface UciChannel {
+    send(command: string): void;
+    // Calls the listener with every line the engine prints. Returns an unsubscribe function.
+    onLine(listener: (line: string) => void): () => void;
+    // Calls the listener if the engine crashes or can't be started. Returns an unsubscribe function.
+    onError(listener: (message: string) => void): () => void;
+    close(): void;
+}
+
+export class UciError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UciError';
+    }
+}
+
+// --- Engine Output ---
+
+export type UciOptionType = 'check' | 'spin' | 'combo' | 'button' | 'string';
+
+export interface UciOption {
+    name: string;
+    type: UciOptionType;
+    default: string | null;
+    min: number | null; // spin options only
+    max: number | null;
+    vars: string[]; // combo choices
+}
+
+export interface UciEngineInfo {
+    name: string;
+    author: string | null;
+    options: UciOption[];
+}
+
+// From the side to move's point of view: centipawns, or moves until mate (negative if getting mated)
+export interface UciScore {
+    unit: 'cp' | 'mate';
+    value: number;
+    bound: 'lower' | 'upper' | null; // the search only proved a bound
+}
+
+export interface UciInfo {
+    depth: number | null;
+    selDepth: number | null;
+    multiPv: number | null;
+    score: UciScore | null;
+    nodes: number | null;
+    nps: number | null;
+    timeMs: number | null;
+    pv: string[]; // UCI moves
+}
+
+export interface UciBestMove {
+    bestMove: string | null; // null when the engine has no legal move ("bestmove (none)")
+    ponder: string | null;
+}
+
+const tokenize = (line: string): string[] => line.trim().split(/\s+/).filter(Boolean);
+
+const toNumber = (token: string | undefined): number | null => {
+    const value = Number(token);
+    return token !== undefined && Number.isFinite(value) ? value : null;
+};
+
+// Info fields followed by a single value that the adapter has no use for
+const SKIPPED_INFO_FIELDS = new Set(['currmove', 'currmovenumber', 'hashfull', 'tbhits', 'sbhits', 'cpuload']);
+// Info fields that take up the rest of the line
+const TRAILING_INFO_FIELDS = new Set(['string', 'refutation', 'currline']);
+
+// "info depth 12 seldepth 18 multipv 1 score cp 31 nodes 52311 nps 1046220 time 50 pv e2e4 e7e5"
+export const parseInfoLine = (line: string): UciInfo | null => {
+    const tokens = tokenize(line);
+    if (tokens[0] !== 'info') return null;
+    const info: UciInfo = { depth: null, selDepth: null, multiPv: null, score: null, nodes: null, nps: null, timeMs: null, pv: [] };
+
+    for (let i = 1; i < tokens.length; i++) {
+        const field = tokens[i];
+        if (field === 'depth') info.depth = toNumber(tokens[++i]);
+        else if (field === 'seldepth') info.selDepth = toNumber(tokens[++i]);
+        else if (field === 'multipv') info.multiPv = toNumber(tokens[++i]);
+        else if (field === 'nodes') info.nodes = toNumber(tokens[++i]);
+        else if (field === 'nps') info.nps = toNumber(tokens[++i]);
+        else if (field === 'time') info.timeMs = toNumber(tokens[++i]);
+        else if (field === 'score') {
+            const unit = tokens[++i];
+            const value = toNumber(tokens[++i]);
+            if ((unit !== 'cp' && unit !== 'mate') || value === null) continue;
+            const bound = tokens[i + 1] === 'lowerbound' ? 'lower' : tokens[i + 1] === 'upperbound' ? 'upper' : null;
+            if (bound) i++;
+            info.score = { unit, value, bound };
+        } else if (field === 'pv') {
+            info.pv = tokens.slice(i + 1);
+            break;
+        } else if (TRAILING_INFO_FIELDS.has(field)) {
+            break;
+        } else if (SKIPPED_INFO_FIELDS.has(field)) {
+            i++;
+        }
+    }
+    return info;
+};
+
+// "bestmove e2e4 ponder e7e5"
+export const parseBestMoveLine = (line: string): UciBestMove | null => {
+    const tokens = tokenize(line);
+    if (tokens[0] !== 'bestmove') return null;
+    const move = (token: string | undefined) => token && token !== '(none)' && token !== '0000' ? token : null;
+    return { bestMove: move(tokens[1]), ponder: tokens[2] === 'ponder' ? move(tokens[3]) : null };
+};
+
+const OPTION_KEYWORDS = new Set(['name', 'type', 'default', 'min', 'max', 'var']);
+
+// "option name Skill Level type spin default 20 min 0 max 20"; names and values may contain spaces
+export const parseOptionLine = (line: string): UciOption | null => {
+    const tokens = tokenize(line);
+    if (tokens[0] !== 'option') return null;
+
+    const fields: Record<string, string[]> = {};
+    let key: string | null = null;
+    for (const token of tokens.slice(1)) {
+        // A keyword only counts as one once the name is complete, so "name Move Overhead type"
+        // still works, but a name can't start with one
+        if (OPTION_KEYWORDS.has(token) && (key !== 'name' || token === 'type')) {
+            key = token;
+            if (key === 'var') fields.vars = [...(fields.vars ?? []), ''];
+            else fields[key] = [];
+        } else if (key === 'var') {
+            const vars = fields.vars;
+            vars[vars.length - 1] = vars[vars.length - 1] ? `${vars[vars.length - 1]} ${token}` : token;
+        } else if (key) {
+            fields[key].push(token);
+        }
+    }
+
+    const name = fields.name?.join(' ');
+    const type = fields.type?.[0] as UciOptionType | undefined;
+    if (!name || !type) return null;
+    return {
+        name,
+        type,
+        default: fields.default ? fields.default.join(' ') : null,
+        min: toNumber(fields.min?.[0]),
+        max: toNumber(fields.max?.[0]),
+        vars: fields.vars ?? [],
+    };
+};
+
+// Centipawns from White's point of view on the app's scale, where mates are near +-MATE_SCORE
+export const uciScoreToCentipawns = (score: UciScore, position: Position): number => {
+    let centipawns: number;
+    if (score.unit === 'cp') centipawns = score.value;
+    else if (score.value > 0) centipawns = MATE_SCORE - (2 * score.value - 1);
+    else centipawns = -(MATE_SCORE + 2 * score.value);
+    return position.turn === 'w' ? centipawns : -centipawns;
+};
+
+// The principal variation in SAN, cut short at the first move that isn't legal here
+export const pvToSan = (position: Position, pv: string[]): string[] => {
+    const sans: string[] = [];
+    let current = position;
+    for (const uci of pv) {
+        const move = uciToMove(current, uci);
+        if (!move) break;
+        sans.push(moveToSan(current, move));
+        current = applyMove(current, move);
+    }
+    return sans;
+};
+
+// --- Engine Options ---
+
+// What the user can set for an external engine; options the engine doesn't offer are skipped
+export interface UciEngineSettings {
+    skillLevel: number; // Stockfish's "Skill Level", 0 to 20
+    threads: number;
+    moveTimeMs: number;
+}
+
+export const DEFAULT_UCI_SETTINGS: UciEngineSettings = { skillLevel: 20, threads: 1, moveTimeMs: 1000 };
+
+export const findOption = (info: UciEngineInfo, name: string): UciOption | null =>
+    info.options.find(option => option.name.toLowerCase() === name.toLowerCase()) ?? null;
+
+// External engines play standard chess, and Chess960 if they offer the UCI_Chess960 option
+export const supportsVariant = (info: UciEngineInfo, variant: Variant): boolean =>
+    variant === 'standard' || (variant === 'chess960' && !!findOption(info, 'UCI_Chess960'));
+
+// Clamps `value` to a spin option's range
+const clampToOption = (option: UciOption, value: number): number =>
+    Math.min(option.max ?? value, Math.max(option.min ?? value, Math.round(value)));
+
+// --- Engine ---
+
+export interface UciSearchLimits {
+    moveTimeMs: number;
+    depth?: number;
+}
+
+export interface UciSearchResult extends UciBestMove {
+    info: UciInfo | null; // the last scored info line of the search
+}
+
+export interface UciEngine {
+    // Runs the "uci" handshake; must finish before anything else is sent
+    init(): Promise<UciEngineInfo>;
+    // Sets an option the engine listed, clamped to its range
+    setOption(name: string, value: string | number | boolean): Promise<void>;
+    applySettings(settings: UciEngineSettings): Promise<void>;
+    newGame(): Promise<void>;
+    // Searches the position reached by `moves` from `start`, reporting progress to onInfo.
+    // Cancelling sends "stop"; a cancelled search resolves to null.
+    search(start: Position, moves: Move[], limits: UciSearchLimits, onInfo?: (info: UciInfo) => void): EngineTask<UciSearchResult | null>;
+    quit(): void;
+}
+
+const HANDSHAKE_TIMEOUT_MS = 30000; // WebAssembly engines may take a while to compile
+const SEARCH_GRACE_MS = 10000; // beyond movetime before a search counts as hung
+
+export const createUciEngine = (channel: UciChannel): UciEngine => {
+    let info: UciEngineInfo | null = null;
+    // Once the engine has crashed, every later exchange fails straight away
+    let failure: UciError | null = null;
+    channel.onError(message => failure = new UciError(`The engine failed: ${message}`));
+    // Commands are sent one exchange at a time, each waiting for the answer to the previous one
+    let queue: Promise<unknown> = Promise.resolve();
+
+    const enqueue = <T>(exchange: () => Promise<T>): Promise<T> => {
+        const result = queue.then(exchange);
+        queue = result.catch(() => undefined);
+        return result;
+    };
+
+    // Feeds the engine's lines to `handle` until it returns true
+    const readUntil = (handle: (line: string) => boolean, timeoutMs: number): Promise<void> => new Promise((resolve, reject) => {
+        if (failure) return reject(failure);
+        const finish = (error?: UciError) => {
+            clearTimeout(timer);
+            stopLines();
+            stopErrors();
+            if (error) reject(error);
+            else resolve();
+        };
+        const timer = setTimeout(() => finish(new UciError("The engine stopped responding.")), timeoutMs);
+        const stopLines = channel.onLine(line => {
+            if (handle(line)) finish();
+        });
+        const stopErrors = channel.onError(message => finish(new UciError(`The engine failed: ${message}`)));
+    });
+
+    const syncReady = () => {
+        const answered = readUntil(line => line.trim() === 'readyok', HANDSHAKE_TIMEOUT_MS);
+        channel.send('isready');
+        return answered;
+    };
+
+    const requireInfo = (): UciEngineInfo => {
+        if (!info) throw new UciError("The engine hasn't been started.");
+        return info;
+    };
+
+    const setOption = (name: string, value: string | number | boolean) => enqueue(async () => {
+        const option = findOption(requireInfo(), name);
+        if (!option) throw new UciError(`The engine has no "${name}" option.`);
+        const text = option.type === 'spin' ? String(clampToOption(option, Number(value))) : String(value);
+        channel.send(option.type === 'button' ? `setoption name ${option.name}` : `setoption name ${option.name} value ${text}`);
+        await syncReady();
+    });
+
+    return {
+        init: () => enqueue(async () => {
+            const found: UciEngineInfo = { name: 'UCI engine', author: null, options: [] };
+            const handshake = readUntil(line => {
+                const tokens = tokenize(line);
+                if (tokens[0] === 'id' && tokens[1] === 'name') found.name = tokens.slice(2).join(' ');
+                else if (tokens[0] === 'id' && tokens[1] === 'author') found.author = tokens.slice(2).join(' ');
+                else if (tokens[0] === 'option') {
+                    const option = parseOptionLine(line);
+                    if (option) found.options.push(option);
+                }
+                return tokens[0] === 'uciok';
+            }, HANDSHAKE_TIMEOUT_MS);
+            channel.send('uci');
+            await handshake;
+            await syncReady();
+            info = found;
+            return found;
+        }),
+
+        setOption,
+
+        async applySettings(settings) {
+            const engineInfo = requireInfo();
+            if (findOption(engineInfo, 'Skill Level')) await setOption('Skill Level', settings.skillLevel);
+            if (findOption(engineInfo, 'Threads')) await setOption('Threads', settings.threads);
+        },
+
+        newGame: () => enqueue(async () => {
+            requireInfo();
+            channel.send('ucinewgame');
+            await syncReady();
+        }),
+
+        search(start, moves, limits, onInfo) {
+            let isCancelled = false;
+            let isRunning = false;
+
+            const promise = enqueue(async (): Promise<UciSearchResult | null> => {
+                const engineInfo = requireInfo();
+                if (isCancelled) return null;
+
+                // Chess960 castling is sent as king-takes-rook, which is how the app's moves already are
+                const chess960 = findOption(engineInfo, 'UCI_Chess960');
+                if (chess960) channel.send(`setoption name UCI_Chess960 value ${start.variant === 'chess960'}`);
+
+                let result: UciBestMove = { bestMove: null, ponder: null };
+                let lastInfo: UciInfo | null = null;
+                const finished = readUntil(line => {
+                    const parsedInfo = parseInfoLine(line);
+                    if (parsedInfo) {
+                        // Secondary lines of a multi-PV search don't describe the move being played
+                        if (parsedInfo.score && (parsedInfo.multiPv ?? 1) === 1) {
+                            lastInfo = parsedInfo;
+                            if (!isCancelled) onInfo?.(parsedInfo);
+                        }
+                        return false;
+                    }
+                    const bestMove = parseBestMoveLine(line);
+                    if (bestMove) result = bestMove;
+                    return !!bestMove;
+                }, limits.moveTimeMs + SEARCH_GRACE_MS);
+
+                const moveList = moves.length > 0 ? ` moves ${moves.map(moveToUci).join(' ')}` : '';
+                channel.send(`position fen ${positionToFen(start)}${moveList}`);
+                channel.send(`go movetime ${Math.max(1, Math.round(limits.moveTimeMs))}${limits.depth ? ` depth ${limits.depth}` : ''}`);
+                isRunning = true;
+                // A search cancelled meanwhile still ends with a bestmove, which keeps the exchange in step
+                await finished;
+                return isCancelled ? null : { ...result, info: lastInfo };
+            });
+
+            const cancel = () => {
+                if (isCancelled) return;
+                isCancelled = true;
+                if (isRunning) channel.send('stop');
+            };
+            return { promise, cancel };
+        },
+
+        quit() {
+            channel.send('quit');
+            channel.close();
+        },
+    };
+};
+
+// The engine's move in the position reached by `moves` from `start`, for the AI's turn. Like the
+// built-in AI's requests, a cancelled one never resolves, so a stale search can't report anything.
+export const requestUciMove = (
+    engine: UciEngine,
+    start: Position,
+    moves: Move[],
+    limits: UciSearchLimits,
+    onInfo?: (info: UciInfo) => void,
+): EngineTask<Move | null> => {
+    const position = replayMoves(moves, start);
+    const task = engine.search(start, moves, limits, onInfo);
+    return {
+        promise: task.promise.then(result => {
+            if (!result) return new Promise<never>(() => undefined);
+            return result.bestMove ? uciToMove(position, result.bestMove) : null;
+        }),
+        cancel: task.cancel,
+    };
+};
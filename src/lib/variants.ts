@@ -0,0 +1,146 @@
+import { BoardState, CastlingFiles, GameResult, Piece, Position, Square, Variant } from '../types';
+import { INITIAL_BOARD, INITIAL_POSITION, getPieceColor, oppositeColor } from './rules';
+import { RandomSource } from './random';
+
+// --- Variant Rules ---
+
+// Move generation handles the variants' special moves itself (Chess960 castling, the Horde's
+// first-rank double steps, the three-check counter); a variant definition adds how a game starts
+// and the ways it can be won besides checkmate.
+export interface VariantRules {
+    name: string; // as written in a PGN Variant tag
+    description: string;
+    // Chess960 deals a new setup for every game, the others always start the same way
+    createStartPosition: (random: RandomSource) => Position;
+    // A win decided by the position alone, for the side that just moved
+    getWin: (position: Position) => GameResult | null;
+}
+
+const noWin = (): null => null;
+
+// --- Chess960 ---
+
+// Knight placements over the five squares left once the bishops and queen stand, by Scharnagl's numbering
+const KNIGHT_PLACEMENTS = [[0, 1], [0, 2], [0, 3], [0, 4], [1, 2], [1, 3], [1, 4], [2, 3], [2, 4], [3, 4]];
+
+export const CHESS960_POSITION_COUNT = 960;
+
+// Setup number `id` (0 to 959) as numbered by Scharnagl; 518 is the standard setup. Bishops stand
+// on opposite colors and the king between the rooks, so both castles are possible.
+export const createChess960Position = (id: number): Position => {
+    const rank: (string | null)[] = Array(8).fill(null);
+    let n = id;
+    rank[(n % 4) * 2 + 1] = 'B'; // light-squared bishop (b, d, f or h-file)
+    n = Math.floor(n / 4);
+    rank[(n % 4) * 2] = 'B'; // dark-squared bishop (a, c, e or g-file)
+    n = Math.floor(n / 4);
+    const free = () => rank.flatMap((piece, col) => piece ? [] : [col]);
+    rank[free()[n % 6]] = 'Q';
+    n = Math.floor(n / 6);
+    const knightSquares = free();
+    KNIGHT_PLACEMENTS[n].forEach(index => rank[knightSquares[index]] = 'N');
+    const [queenRook, king, kingRook] = free();
+    rank[queenRook] = 'R';
+    rank[king] = 'K';
+    rank[kingRook] = 'R';
+
+    const castlingFiles: CastlingFiles = { K: kingRook, Q: queenRook };
+    const board: BoardState = INITIAL_BOARD.map((row, index) => {
+        if (index === 0) return rank.map(type => `b${type}` as Piece);
+        if (index === 7) return rank.map(type => `w${type}` as Piece);
+        return [...row];
+    });
+    return { ...INITIAL_POSITION, board, variant: 'chess960', castlingFiles };
+};
+
+// --- King of the Hill ---
+
+export const HILL_SQUARES: Square[] = [{ row: 3, col: 3 }, { row: 3, col: 4 }, { row: 4, col: 3 }, { row: 4, col: 4 }];
+
+const getHillWin = (position: Position): GameResult | null => {
+    const mover = oppositeColor(position.turn);
+    return HILL_SQUARES.some(({ row, col }) => position.board[row][col] === `${mover}K`)
+        ? { winner: mover, reason: 'king-of-the-hill' }
+        : null;
+};
+
+// --- Three-check ---
+
+export const CHECKS_TO_WIN = 3;
+
+const getThreeCheckWin = (position: Position): GameResult | null => {
+    const mover = oppositeColor(position.turn);
+    return (position.checks?.[mover] ?? 0) >= CHECKS_TO_WIN ? { winner: mover, reason: 'three-check' } : null;
+};
+
+// --- Horde ---
+
+const HORDE_BOARD: BoardState = [
+    ...INITIAL_BOARD.slice(0, 3),
+    [null, 'wP', 'wP', null, null, 'wP', 'wP', null],
+    ...Array.from({ length: 4 }, () => Array<Piece>(8).fill('wP')),
+];
+
+// White has no king, so Black wins by capturing every white piece instead of by mate
+const getHordeWin = (position: Position): GameResult | null => {
+    const hasWhitePieces = position.board.some(row => row.some(piece => getPieceColor(piece) === 'w'));
+    return hasWhitePieces ? null : { winner: 'b', reason: 'horde-captured' };
+};
+
+// --- Registry ---
+
+export const VARIANTS: Record<Variant, VariantRules> = {
+    standard: {
+        name: 'Standard',
+        description: "Classic chess.",
+        createStartPosition: () => INITIAL_POSITION,
+        getWin: noWin,
+    },
+    chess960: {
+        name: 'Chess960',
+        description: "The back-rank pieces start in one of 960 shuffled setups. Castling still puts the king and rook on their usual squares.",
+        createStartPosition: random => createChess960Position(Math.floor(random() * CHESS960_POSITION_COUNT)),
+        getWin: noWin,
+    },
+    kingOfTheHill: {
+        name: 'King of the Hill',
+        description: "Bringing your king to one of the four center squares also wins.",
+        createStartPosition: () => ({ ...INITIAL_POSITION, variant: 'kingOfTheHill' }),
+        getWin: getHillWin,
+    },
+    threeCheck: {
+        name: 'Three-check',
+        description: `Giving check ${CHECKS_TO_WIN} times also wins.`,
+        createStartPosition: () => ({ ...INITIAL_POSITION, variant: 'threeCheck', checks: { w: 0, b: 0 } }),
+        getWin: getThreeCheckWin,
+    },
+    horde: {
+        name: 'Horde',
+        description: "White's 36 pawns and no king try to mate Black, who wins by capturing them all.",
+        createStartPosition: () => ({
+            ...INITIAL_POSITION,
+            board: HORDE_BOARD,
+            castling: { wK: false, wQ: false, bK: true, bQ: true },
+            variant: 'horde',
+        }),
+        getWin: getHordeWin,
+    },
+};
+
+export const getVariant = (position: Position): Variant => position.variant ?? 'standard';
+
+export const getVariantWin = (position: Position): GameResult | null => VARIANTS[getVariant(position)].getWin(position);
+
+export const createStartPosition = (variant: Variant, random: RandomSource = Math.random): Position =>
+    VARIANTS[variant].createStartPosition(random);
+
+// Looks up a PGN Variant tag, ignoring case, spaces and hyphens. "Fischerandom" is Chess960's old
+// name; "From Position" is what some sites write for standard games set up from a FEN.
+export const findVariant = (name: string): Variant | null => {
+    const wanted = name.toLowerCase().replace(/[\s-]/g, '');
+    if (wanted === 'fischerandom') return 'chess960';
+    if (wanted === 'fromposition') return 'standard';
+    const found = (Object.keys(VARIANTS) as Variant[])
+        .find(variant => variant.toLowerCase() === wanted || VARIANTS[variant].name.toLowerCase().replace(/[\s-]/g, '') === wanted);
+    return found ?? null;
+};
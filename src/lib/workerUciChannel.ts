@@ -0,0 +1,55 @@
+import { UciChannel } from './uci';
+
+// Talks to a UCI engine hosted in a Web Worker, as Stockfish's JavaScript and WebAssembly builds
+// are: commands are posted as strings and every message back is one or more output lines. The
+// script is loaded as a classic worker, since that is how those builds are written.
+
+export const createWorkerUciChannel = (scriptUrl: string, onClose?: () => void): UciChannel => {
+    const lineListeners = new Set<(line: string) => void>();
+    const errorListeners = new Set<(message: string) => void>();
+    const worker = new Worker(scriptUrl);
+
+    worker.onmessage = (event: MessageEvent) => {
+        String(event.data).split(/\r?\n/).forEach(line => {
+            if (line.trim()) lineListeners.forEach(listener => listener(line));
+        });
+    };
+    worker.onerror = (event) => {
+        event.preventDefault();
+        errorListeners.forEach(listener => listener(event.message || "the engine script could not be run"));
+    };
+
+    return {
+        send(command) {
+            worker.postMessage(command);
+        },
+
+        onLine(listener) {
+            lineListeners.add(listener);
+            return () => {
+                lineListeners.delete(listener);
+            };
+        },
+
+        onError(listener) {
+            errorListeners.add(listener);
+            return () => {
+                errorListeners.delete(listener);
+            };
+        },
+
+        close() {
+            worker.terminate();
+            lineListeners.clear();
+            errorListeners.clear();
+            onClose?.();
+        },
+    };
+};
+
+// An engine script picked by the user. Only single-file builds work this way: a build that
+// fetches a separate .wasm file looks for it next to the script, and a file URL has no neighbours.
+export const createFileUciChannel = (file: File): UciChannel => {
+    const url = URL.createObjectURL(file);
+    return createWorkerUciChannel(url, () => URL.revokeObjectURL(url));
+};
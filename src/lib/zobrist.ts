@@ -0,0 +1,62 @@
+import { Position, Variant } from '../types';
+import { createRandom } from './random';
+
+// Zobrist hashing: every (piece, square), castling right, en passant file, the side to move,
+// Three-check's check counts, the variant and Chess960's castling rook files get a fixed random key,
+// and a position hashes to the XOR of the keys that apply to it. The engine's transposition table is
+// shared by every game, so positions that look alike but play differently must not hash alike.
+// Two independent 32-bit halves are combined into one 52-bit number so it can key a Map.
+
+const PIECE_INDEX: Record<string, number> = {
+    wP: 0, wN: 1, wB: 2, wR: 3, wQ: 4, wK: 5,
+    bP: 6, bN: 7, bB: 8, bR: 9, bQ: 10, bK: 11,
+};
+
+const random = createRandom(0x5eed);
+const randomKey = () => Math.floor(random() * 4294967296) >>> 0;
+const makeKeys = (count: number) => Array.from({ length: count }, () => [randomKey(), randomKey()]);
+
+const PIECE_KEYS = makeKeys(12 * 64);
+const CASTLING_KEYS = makeKeys(4);
+const EN_PASSANT_KEYS = makeKeys(8);
+const BLACK_TO_MOVE_KEY = makeKeys(1)[0];
+// Drawn last so the keys above, and the hashes of standard positions, stay the same
+const CHECK_KEYS = makeKeys(2 * 4);
+const variantKeys = makeKeys(4);
+const VARIANT_KEYS: Record<Variant, number[] | null> = {
+    standard: null,
+    chess960: variantKeys[0],
+    kingOfTheHill: variantKeys[1],
+    threeCheck: variantKeys[2],
+    horde: variantKeys[3],
+};
+const CASTLING_FILE_KEYS = makeKeys(2 * 8);
+
+export const hashPosition = (position: Position): number => {
+    let hi = 0, lo = 0;
+    const mix = (key: number[]) => { hi ^= key[0]; lo ^= key[1]; };
+
+    for (let r = 0; r < 8; r++) {
+        for (let c = 0; c < 8; c++) {
+            const piece = position.board[r][c];
+            if (piece) mix(PIECE_KEYS[PIECE_INDEX[piece] * 64 + r * 8 + c]);
+        }
+    }
+
+    const { wK, wQ, bK, bQ } = position.castling;
+    [wK, wQ, bK, bQ].forEach((allowed, i) => allowed && mix(CASTLING_KEYS[i]));
+    if (position.enPassant) mix(EN_PASSANT_KEYS[position.enPassant.col]);
+    if (position.turn === 'b') mix(BLACK_TO_MOVE_KEY);
+    if (position.checks) {
+        mix(CHECK_KEYS[Math.min(position.checks.w, 3)]);
+        mix(CHECK_KEYS[4 + Math.min(position.checks.b, 3)]);
+    }
+    const variantKey = VARIANT_KEYS[position.variant ?? 'standard'];
+    if (variantKey) mix(variantKey);
+    if (position.castlingFiles) {
+        mix(CASTLING_FILE_KEYS[position.castlingFiles.K]);
+        mix(CASTLING_FILE_KEYS[8 + position.castlingFiles.Q]);
+    }
+
+    return (hi >>> 0) * 0x100000 + ((lo >>> 0) & 0xfffff);
+};
@@ -1,14 +1,89 @@
-export type GameMode = 'local' | 'ai' | 'multiplayer';
+export type GameMode = 'local' | 'ai' | 'multiplayer' | 'spectator' | 'puzzle';
 export type Difficulty = 'Beginner' | 'Easy' | 'Hard' | 'Master';
 
+// Rule set a game is played under; see lib/variants for what each one changes
+export type Variant = 'standard' | 'chess960' | 'kingOfTheHill' | 'threeCheck' | 'horde';
+
+// What plays the AI's moves: the built-in search, a UCI engine script loaded from a file, or the
+// scripted mock engine (see lib/uci)
+export type EngineChoice = 'builtin' | 'uci-file' | 'mock';
+
+export type Color = 'w' | 'b';
+export type ColorChoice = Color | 'random';
+
+// Who plays each side: the user's color in games against the AI, and the level of the AI
+// on each side (both sides play in AI vs AI games)
+export interface Players {
+    humanColor: Color;
+    aiLevels: Record<Color, Difficulty>;
+}
+export type PromotionPiece = 'Q' | 'R' | 'B' | 'N';
+
 // Simplified piece representation: [Color][Type]
 // wP=White Pawn, bK=Black King, etc.
 export type Piece = 'wP' | 'wN' | 'wB' | 'wR' | 'wQ' | 'wK' | 'bP' | 'bN' | 'bB' | 'bR' | 'bQ' | 'bK' | null;
 
 export type BoardState = Piece[][];
 
+export interface Square {
+    row: number;
+    col: number;
+}
+
+export interface CastlingRights {
+    wK: boolean;
+    wQ: boolean;
+    bK: boolean;
+    bQ: boolean;
+}
+
+// Everything a FEN string records: piece placement, whose turn it is, which castles are
+// still allowed, the square a pawn can be taken en passant on and the move counters.
+export interface Position {
+    board: BoardState;
+    turn: Color;
+    castling: CastlingRights;
+    enPassant: Square | null;
+    halfmoveClock: number; // plies since the last capture or pawn move
+    fullmoveNumber: number; // starts at 1, incremented after Black moves
+    variant?: Variant; // standard chess when missing
+    castlingFiles?: CastlingFiles; // Chess960 only; standard chess castles with the a- and h-file rooks
+    checks?: Record<Color, number>; // Three-check only: checks given so far by each side
+}
+
+// Columns of the rooks each side castles with (the same for both colors in every Chess960 setup)
+export interface CastlingFiles {
+    K: number;
+    Q: number;
+}
+
+export type GameStatus = 'active' | 'check' | 'checkmate' | 'stalemate';
+
+export type GameEndReason =
+    | 'checkmate'
+    | 'stalemate'
+    | 'threefold-repetition'
+    | 'fifty-move-rule'
+    | 'insufficient-material'
+    | 'resignation'
+    | 'agreement'
+    | 'timeout'
+    | 'king-of-the-hill'
+    | 'three-check'
+    | 'horde-captured';
+
+// How a finished game ended; winner is null for a draw
+export interface GameResult {
+    winner: Color | null;
+    reason: GameEndReason;
+}
+
 export interface Move {
     from: { row: number, col: number };
     to: { row: number, col: number };
     piece: Piece;
-}
\ No newline at end of file
+    captured?: Piece;
+    promotion?: PromotionPiece;
+    enPassant?: boolean;
+    castle?: 'K' | 'Q';
+}
@@ -0,0 +1,42 @@
+import { createClient } from '@supabase/supabase-js';
+import { RoomError, rateRoomGame } from '../../../src/lib/rooms';
+import { createSupabasePlayerStore } from '../../../src/lib/supabasePlayerStore';
+import { RoomRequest, handleRoomRequest } from '../../../src/lib/supabaseRoomTransport';
+
+// The only writer of chess_rooms. Callers are identified by their auth token and seated under
+// their user id; the room itself is read and written with the service role, using the same room
+// logic as the in-memory transport and the server's clock. It is also the only writer of online
+// ratings: the write that ends a game rates it from the stored result.
+//
+//   supabase functions deploy rooms
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const respond = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } });
+
+Deno.serve(async request => {
+    if (request.method === 'OPTIONS') return new Response('ok', { headers: CORS_HEADERS });
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const token = request.headers.get('Authorization')?.replace(/^Bearer /, '') ?? '';
+    const { data } = await supabase.auth.getUser(token);
+    if (!data.user) return respond({ error: "Sign in to play online." }, 401);
+
+    try {
+        const room = await handleRoomRequest(supabase, data.user.id, await request.json() as RoomRequest, Date.now());
+        // The result stands even if rating the game fails
+        await rateRoomGame(createSupabasePlayerStore(supabase), room)
+            .catch((error: Error) => console.error(`Could not rate room ${room.code}: ${error.message}`));
+        return respond({ room });
+    } catch (error) {
+        if (error instanceof RoomError) return respond({ error: error.message }, 400);
+        // Anything else is the server's fault; it still answers with the CORS headers so the
+        // browser lets the app read the error
+        console.error(`Room request failed: ${error instanceof Error ? error.stack ?? error.message : String(error)}`);
+        return respond({ error: "The game server ran into a problem. Please try again." }, 500);
+    }
+});